@@ -0,0 +1,350 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import Link from 'next/link';
+import { countryCodeToFlag } from '@/lib/flags';
+import { getCountryName } from '@/lib/countries';
+import { AdminPlayer, PlayerMetadataAuditEntry, PlayerMetadataPatch } from '@/lib/types';
+import ErrorDisplay from '@/components/ErrorDisplay';
+import MetadataAuditLog from '@/components/MetadataAuditLog';
+import PlayerMetadataEditor from '@/components/PlayerMetadataEditor';
+import { AdminAuditResponseSchema, AdminPlayersResponseSchema, safeValidate } from '@/lib/schemas';
+
+// Moderator token, kept for the browser session only
+const TOKEN_STORAGE_KEY = 'admin-token';
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Error message of requests whose moderator token was rejected
+const UNAUTHORIZED = 'Unauthorized';
+
+/**
+ * Stored country of a player; codes saved before they were validated are flagged
+ */
+function CountryCell({ countryCode }: { countryCode: string | null }) {
+  if (countryCode === null) {
+    return <td className="px-3 py-2" title="Unknown country">{countryCodeToFlag(null)}</td>;
+  }
+  const name = getCountryName(countryCode);
+  if (!name) {
+    return (
+      <td className="px-3 py-2 text-red-400" title="Not an ISO 3166-1 country code, shown as unknown">
+        ⚠️ {countryCode}
+      </td>
+    );
+  }
+  return <td className="px-3 py-2" title={name}>{countryCodeToFlag(countryCode)} {countryCode}</td>;
+}
+
+export default function AdminPlayersPage() {
+  const [token, setToken] = useState(() =>
+    typeof window === 'undefined' ? '' : sessionStorage.getItem(TOKEN_STORAGE_KEY) ?? ''
+  );
+  const [tokenInput, setTokenInput] = useState('');
+  const [signedOut, setSignedOut] = useState(false);
+  const [tokenRejected, setTokenRejected] = useState(false);
+
+  const [user, setUser] = useState<string | null>(null);
+  const [players, setPlayers] = useState<AdminPlayer[]>([]);
+  const [total, setTotal] = useState(0);
+  const [auditEntries, setAuditEntries] = useState<PlayerMetadataAuditEntry[]>([]);
+  const [search, setSearch] = useState('');
+  const [unknownCountryOnly, setUnknownCountryOnly] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const adminFetch = useCallback(async (url: string, init: RequestInit = {}) => {
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        ...init.headers,
+        ...(token && { Authorization: `Bearer ${token}` })
+      }
+    });
+    if (response.status === 401) {
+      throw new Error(UNAUTHORIZED);
+    }
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.error ?? `Request failed: ${response.status} ${response.statusText}`);
+    }
+    return response.json();
+  }, [token]);
+
+  const handleError = useCallback((err: unknown, context: string) => {
+    if (err instanceof Error && err.message === UNAUTHORIZED) {
+      sessionStorage.removeItem(TOKEN_STORAGE_KEY);
+      if (token) {
+        setTokenRejected(true);
+      }
+      setToken('');
+      setSignedOut(true);
+      setUser(null);
+      return;
+    }
+    setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    console.error(`Error ${context}:`, err);
+  }, [token]);
+
+  const fetchPlayers = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams({ search, unknownCountry: String(unknownCountryOnly) });
+      const data = safeValidate(
+        AdminPlayersResponseSchema,
+        await adminFetch(`/api/admin/players?${params}`),
+        'Admin players response'
+      );
+      if (!data) {
+        throw new Error('Invalid player data received from server');
+      }
+
+      setUser(data.user);
+      setPlayers(data.players);
+      setTotal(data.total);
+      setSignedOut(false);
+    } catch (err) {
+      handleError(err, 'loading players');
+    } finally {
+      setLoading(false);
+    }
+  }, [adminFetch, handleError, search, unknownCountryOnly]);
+
+  const fetchAudit = useCallback(async () => {
+    try {
+      const data = safeValidate(
+        AdminAuditResponseSchema,
+        await adminFetch('/api/admin/players/audit?limit=50'),
+        'Admin audit response'
+      );
+      if (data) {
+        setAuditEntries(data.entries);
+      }
+    } catch (err) {
+      handleError(err, 'loading audit trail');
+    }
+  }, [adminFetch, handleError]);
+
+  // Search as the moderator types, once they pause
+  useEffect(() => {
+    const timer = setTimeout(fetchPlayers, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [fetchPlayers]);
+
+  useEffect(() => {
+    fetchAudit();
+  }, [fetchAudit]);
+
+  const handleSignIn = (event: React.FormEvent) => {
+    event.preventDefault();
+    sessionStorage.setItem(TOKEN_STORAGE_KEY, tokenInput.trim());
+    setToken(tokenInput.trim());
+    setTokenInput('');
+    setTokenRejected(false);
+  };
+
+  const handleSignOut = () => {
+    sessionStorage.removeItem(TOKEN_STORAGE_KEY);
+    setToken('');
+    setSignedOut(true);
+    setUser(null);
+  };
+
+  const handleSave = async (changes: Record<string, PlayerMetadataPatch>) => {
+    try {
+      setSaving(true);
+      setError(null);
+      setMessage(null);
+
+      const { entry } = await adminFetch('/api/admin/players', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ changes })
+      });
+
+      const changed = entry ? Object.keys(entry.changes).length : 0;
+      setMessage(changed > 0 ? `✅ Saved changes to ${changed} player(s)` : 'No changes were needed');
+      setSelected(new Set());
+      await Promise.all([fetchPlayers(), fetchAudit()]);
+    } catch (err) {
+      handleError(err, 'saving players');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleSelected = (name: string) => {
+    const next = new Set(selected);
+    if (next.has(name)) {
+      next.delete(name);
+    } else {
+      next.add(name);
+    }
+    setSelected(next);
+  };
+
+  const allSelected = players.length > 0 && players.every(player => selected.has(player.name));
+  const toggleAll = () => setSelected(allSelected ? new Set() : new Set(players.map(player => player.name)));
+
+  // Selected players still in the list (a new search may have dropped some)
+  const selectedPlayers = useMemo(
+    () => players.filter(player => selected.has(player.name)),
+    [players, selected]
+  );
+
+  if (signedOut) {
+    return (
+      <div className="min-h-screen bg-black text-gray-100 p-4 md:p-8">
+        <form onSubmit={handleSignIn} className="max-w-sm mx-auto mt-24 p-6 bg-gray-900/50 border border-gray-800 rounded-lg">
+          <h1 className="text-xl font-bold mb-2">Player admin</h1>
+          <p className="text-gray-400 text-sm mb-4">
+            {tokenRejected ? 'That token was not accepted. ' : ''}Enter your moderator token to continue.
+          </p>
+          <input
+            type="password"
+            value={tokenInput}
+            onChange={(e) => setTokenInput(e.target.value)}
+            placeholder="Moderator token"
+            autoFocus
+            className="w-full px-4 py-2 bg-gray-900 border border-gray-800 rounded-lg text-gray-100 placeholder-gray-500 focus:outline-none focus:border-blue-500 transition-colors mb-4"
+          />
+          <button
+            type="submit"
+            disabled={!tokenInput.trim()}
+            className="w-full px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors font-medium disabled:opacity-50"
+          >
+            Sign in
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-black text-gray-100 p-4 md:p-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <Link href="/" className="text-blue-400 hover:text-blue-300 text-sm transition-colors">
+            ← Back to leaderboard
+          </Link>
+          {user && (
+            <p className="text-gray-400 text-sm">
+              Signed in as <span className="text-gray-200">{user}</span>
+              {token && (
+                <button onClick={handleSignOut} className="ml-3 text-blue-400 hover:text-blue-300 transition-colors">
+                  Sign out
+                </button>
+              )}
+            </p>
+          )}
+        </div>
+
+        <h1 className="text-3xl font-bold mb-6">Player admin</h1>
+
+        <div className="flex gap-4 items-center flex-wrap mb-4">
+          <input
+            type="text"
+            placeholder="Search players..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="flex-1 min-w-[200px] px-4 py-2 bg-gray-900 border border-gray-800 rounded-lg text-gray-100 placeholder-gray-500 focus:outline-none focus:border-blue-500 transition-colors"
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            <input
+              type="checkbox"
+              checked={unknownCountryOnly}
+              onChange={(e) => setUnknownCountryOnly(e.target.checked)}
+            />
+            Unknown country only
+          </label>
+        </div>
+
+        {error && (
+          <div className="mb-4">
+            <ErrorDisplay title="Something went wrong" message={error} onRetry={fetchPlayers} />
+          </div>
+        )}
+        {message && <p className="text-sm text-gray-300 mb-4">{message}</p>}
+
+        {selectedPlayers.length > 0 && (
+          <div className="mb-6">
+            <PlayerMetadataEditor
+              key={selectedPlayers.map(player => player.name).join('\n')}
+              players={selectedPlayers}
+              saving={saving}
+              onSave={handleSave}
+              onCancel={() => setSelected(new Set())}
+            />
+          </div>
+        )}
+
+        <div className="overflow-x-auto mb-2">
+          <table className="w-full border-collapse text-sm">
+            <thead>
+              <tr className="border-b border-gray-800">
+                <th className="px-3 py-3 text-left">
+                  <input type="checkbox" checked={allSelected} onChange={toggleAll} aria-label="Select all" />
+                </th>
+                <th className="px-3 py-3 text-left">Player</th>
+                <th className="px-3 py-3 text-left">Country</th>
+                <th className="px-3 py-3 text-left">Display name</th>
+                <th className="px-3 py-3 text-left">Tags</th>
+                <th className="px-3 py-3 text-left">Notes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {players.map(player => (
+                <tr
+                  key={player.name}
+                  className={`border-b border-gray-900 hover:bg-gray-900/50 transition-colors ${
+                    player.metadata.hidden ? 'opacity-50' : ''
+                  }`}
+                >
+                  <td className="px-3 py-2">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(player.name)}
+                      onChange={() => toggleSelected(player.name)}
+                      aria-label={`Select ${player.name}`}
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <Link
+                      href={`/players/${encodeURIComponent(player.name)}`}
+                      className="hover:text-blue-400 hover:underline transition-colors"
+                    >
+                      {player.name}
+                    </Link>
+                    {player.metadata.hidden && <span className="text-gray-500 text-xs ml-2">hidden</span>}
+                    {player.otherNames.length > 0 && (
+                      <p className="text-gray-500 text-xs">also {player.otherNames.join(', ')}</p>
+                    )}
+                  </td>
+                  <CountryCell countryCode={player.metadata.countryCode} />
+                  <td className="px-3 py-2 text-gray-300">{player.metadata.displayName ?? ''}</td>
+                  <td className="px-3 py-2 text-gray-400">{(player.metadata.tags ?? []).join(', ')}</td>
+                  <td className="px-3 py-2 text-gray-500 max-w-[240px] truncate" title={player.metadata.notes}>
+                    {player.metadata.notes ?? ''}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <p className="text-gray-500 text-xs mb-8">
+          {loading ? 'Loading...' : `Showing ${players.length} of ${total} players`}
+          {selected.size > 0 && ` · ${selected.size} selected`}
+        </p>
+
+        <h2 className="text-xl font-semibold mb-4">Recent changes</h2>
+        <MetadataAuditLog entries={auditEntries} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+/**
+ * Admin audit API route handler
+ * Lists recent player metadata changes and who made them: /api/admin/players/audit
+ * Requires "Authorization: Bearer <token>" with a token from ADMIN_TOKENS (or CRON_SECRET)
+ */
+
+import { NextResponse } from 'next/server';
+import { getAdminUser } from '@/lib/api/auth';
+import { loadPlayerMetadataAudit } from '@/lib/api/player-admin';
+import { withRequestSource } from '@/lib/api/sources';
+import { AdminAuditResponseSchema, safeValidate } from '@/lib/schemas';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+/**
+ * Load the audit trail of the active source
+ */
+async function getAudit(request: Request) {
+  try {
+    const searchParams = new URL(request.url).searchParams;
+    const name = searchParams.get('name') ?? undefined;
+    const limit = Number(searchParams.get('limit') ?? DEFAULT_LIMIT);
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json(
+        { error: `Invalid limit. Expected 1 to ${MAX_LIMIT}` },
+        { status: 400 }
+      );
+    }
+
+    const entries = await loadPlayerMetadataAudit({ name, limit });
+
+    // Validate the API response
+    const validatedResponse = safeValidate(
+      AdminAuditResponseSchema,
+      { entries },
+      'Admin audit API response'
+    );
+
+    if (!validatedResponse) {
+      return NextResponse.json(
+        { error: 'Failed to validate response data' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(validatedResponse, {
+      headers: {
+        'Cache-Control': 'no-store, must-revalidate',
+      }
+    });
+  } catch (error) {
+    console.error('Error loading player metadata audit:', error);
+    return NextResponse.json(
+      { error: 'Failed to load audit trail' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET handler for the audit trail
+ * Query: ?name=<player>&limit=<n>, optional ?source=<id>
+ */
+export async function GET(request: Request) {
+  if (!getAdminUser(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  return withRequestSource(request, () => getAudit(request));
+}
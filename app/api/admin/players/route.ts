@@ -0,0 +1,137 @@
+/**
+ * Admin players API route handler
+ * Backs /admin/players: GET searches player metadata, PATCH changes it on
+ * behalf of the signed-in moderator (see lib/api/player-admin.ts)
+ * Requires "Authorization: Bearer <token>" with a token from ADMIN_TOKENS (or CRON_SECRET)
+ */
+
+import { NextResponse } from 'next/server';
+import { revalidateTag } from 'next/cache';
+import { getAdminUser } from '@/lib/api/auth';
+import { editPlayerMetadata, searchPlayerMetadata } from '@/lib/api/player-admin';
+import { withRequestSource } from '@/lib/api/sources';
+import {
+  AdminPlayerUpdateRequestSchema,
+  AdminPlayersResponseSchema,
+  PlayerMetadataAuditEntrySchema,
+  safeValidate
+} from '@/lib/schemas';
+
+const NO_STORE = { 'Cache-Control': 'no-store, must-revalidate' };
+
+/**
+ * Search the player metadata of the active source
+ */
+async function getPlayers(request: Request, user: string) {
+  try {
+    const searchParams = new URL(request.url).searchParams;
+    const search = searchParams.get('search')?.trim() ?? '';
+
+    if (search.length > 100) {
+      return NextResponse.json(
+        { error: 'Search is too long' },
+        { status: 400 }
+      );
+    }
+
+    const result = await searchPlayerMetadata({
+      search,
+      unknownCountry: searchParams.get('unknownCountry') === 'true'
+    });
+
+    // Validate the API response
+    const validatedResponse = safeValidate(
+      AdminPlayersResponseSchema,
+      { user, ...result },
+      'Admin players API response'
+    );
+
+    if (!validatedResponse) {
+      return NextResponse.json(
+        { error: 'Failed to validate response data' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(validatedResponse, { headers: NO_STORE });
+  } catch (error) {
+    console.error('Error searching player metadata:', error);
+    return NextResponse.json(
+      { error: 'Failed to load players' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Change the metadata of one or more players of the active source
+ */
+async function updatePlayers(request: Request, user: string) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Request body must be JSON' },
+      { status: 400 }
+    );
+  }
+
+  const parsed = AdminPlayerUpdateRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ') },
+      { status: 400 }
+    );
+  }
+
+  let entry;
+  try {
+    entry = await editPlayerMetadata(parsed.data.changes, user);
+  } catch (error) {
+    console.error('Error updating player metadata:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update players' },
+      { status: 400 }
+    );
+  }
+
+  if (entry) {
+    // Show the change on the leaderboard without waiting for the cache to expire
+    revalidateTag('leaderboard-data', '/');
+  }
+
+  return NextResponse.json({
+    entry: entry && safeValidate(PlayerMetadataAuditEntrySchema, entry, 'Admin players API update')
+  }, { headers: NO_STORE });
+}
+
+/**
+ * Run a handler for an authorized admin user
+ */
+function withAdminUser(request: Request, handler: (user: string) => Promise<Response>) {
+  const user = getAdminUser(request);
+  if (!user) {
+    return Promise.resolve(NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    ));
+  }
+  return withRequestSource(request, () => handler(user));
+}
+
+/**
+ * GET handler for player search
+ * Query: ?search=<text>&unknownCountry=true, optional ?source=<id>
+ */
+export async function GET(request: Request) {
+  return withAdminUser(request, user => getPlayers(request, user));
+}
+
+/**
+ * PATCH handler for player metadata changes
+ * Body: { "changes": { "<name>": { "countryCode": "SE", "tags": ["reg"], "notes": null } } }
+ */
+export async function PATCH(request: Request) {
+  return withAdminUser(request, user => updatePlayers(request, user));
+}
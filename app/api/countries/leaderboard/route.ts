@@ -0,0 +1,78 @@
+/**
+ * Country leaderboard API route handler
+ * Totals the players of each country: /api/countries/leaderboard (current
+ * leaderboard) or /api/countries/leaderboard?date=YYYY-MM-DD[&revision=N]
+ */
+
+import { NextResponse } from 'next/server';
+import { loadCountryLeaderboard } from '@/lib/api/country-leaderboard';
+import { withRequestSource } from '@/lib/api/sources';
+import { CountryLeaderboardResponseSchema, safeValidate } from '@/lib/schemas';
+
+/**
+ * Load the country leaderboard of the active source
+ */
+async function getCountryLeaderboard(request: Request) {
+  try {
+    const searchParams = new URL(request.url).searchParams;
+    const date = searchParams.get('date');
+    const revisionParam = searchParams.get('revision');
+
+    if (date !== null && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json(
+        { error: 'Invalid date format. Expected YYYY-MM-DD' },
+        { status: 400 }
+      );
+    }
+
+    if (revisionParam !== null && (date === null || !/^\d{1,3}$/.test(revisionParam))) {
+      return NextResponse.json(
+        { error: 'Invalid revision. Expected a non-negative integer together with a date' },
+        { status: 400 }
+      );
+    }
+    const revision = revisionParam !== null ? parseInt(revisionParam, 10) : undefined;
+
+    const leaderboard = await loadCountryLeaderboard(date ?? undefined, revision);
+    if (!leaderboard) {
+      return NextResponse.json(
+        { error: `Snapshot not found for ${date}` },
+        { status: 404 }
+      );
+    }
+
+    // Validate the API response
+    const validatedResponse = safeValidate(
+      CountryLeaderboardResponseSchema,
+      leaderboard,
+      `Country leaderboard API response (${date ?? 'current'})`
+    );
+
+    if (!validatedResponse) {
+      return NextResponse.json(
+        { error: 'Failed to validate response data' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(validatedResponse, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=600',
+      }
+    });
+  } catch (error) {
+    console.error('Error loading country leaderboard:', error);
+    return NextResponse.json(
+      { error: 'Failed to load country leaderboard' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET handler for the country leaderboard
+ * Optional ?source=<id> selects the leaderboard source
+ */
+export async function GET(request: Request) {
+  return withRequestSource(request, () => getCountryLeaderboard(request));
+}
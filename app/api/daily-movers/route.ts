@@ -0,0 +1,92 @@
+/**
+ * Daily movers API route handler
+ * Serves the source's daily winners/losers tables stored with a snapshot:
+ * /api/daily-movers (latest snapshot) or /api/daily-movers?date=YYYY-MM-DD
+ */
+
+import { NextResponse } from 'next/server';
+import { loadSnapshot, loadSnapshotIndex } from '@/lib/api/snapshot-management';
+import { loadPlayerMetadata, withoutHiddenPlayers } from '@/lib/api/player-metadata';
+import { loadPlayerRegistry } from '@/lib/api/player-registry';
+import { withRequestSource } from '@/lib/api/sources';
+import { DailyMoversResponseSchema, safeValidate } from '@/lib/schemas';
+
+/**
+ * Load the daily movers of the active source
+ */
+async function getDailyMovers(request: Request) {
+  try {
+    let date = new URL(request.url).searchParams.get('date');
+
+    if (date !== null && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json(
+        { error: 'Invalid date format. Expected YYYY-MM-DD' },
+        { status: 400 }
+      );
+    }
+
+    // Default to the most recent snapshot (the index is sorted newest first)
+    if (date === null) {
+      const index = await loadSnapshotIndex();
+      date = index.snapshots[0]?.date ?? null;
+    }
+
+    const storedSnapshot = date ? await loadSnapshot(date) : null;
+    if (!storedSnapshot) {
+      return NextResponse.json(
+        { error: date ? `Snapshot not found for ${date}` : 'No snapshots available' },
+        { status: 404 }
+      );
+    }
+
+    // Hidden players are left out of the winners/losers like out of the table
+    const [metadata, registry] = await Promise.all([loadPlayerMetadata(), loadPlayerRegistry()]);
+    const snapshot = withoutHiddenPlayers(storedSnapshot, metadata, registry);
+
+    if (!snapshot.dailyMovers) {
+      return NextResponse.json(
+        { error: `No daily winners/losers stored for ${snapshot.date}` },
+        { status: 404 }
+      );
+    }
+
+    // Validate the API response
+    const validatedResponse = safeValidate(
+      DailyMoversResponseSchema,
+      {
+        date: snapshot.date,
+        revision: snapshot.revision,
+        webpageTimestamp: snapshot.webpageTimestamp,
+        ...snapshot.dailyMovers
+      },
+      `Daily movers API response (${snapshot.date})`
+    );
+
+    if (!validatedResponse) {
+      return NextResponse.json(
+        { error: 'Failed to validate response data' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(validatedResponse, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=600',
+      }
+    });
+  } catch (error) {
+    console.error('Error loading daily movers:', error);
+    return NextResponse.json(
+      { error: 'Failed to load daily winners/losers' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET handler for the daily winners/losers tables
+ * Optional ?date=YYYY-MM-DD (defaults to the latest snapshot) and ?source=<id>
+ */
+export async function GET(request: Request) {
+  return withRequestSource(request, () => getDailyMovers(request));
+}
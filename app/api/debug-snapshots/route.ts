@@ -1,81 +1,82 @@
 import { NextResponse } from 'next/server';
-import { list } from '@vercel/blob';
+import { getBlobStore } from '@/lib/api/blob-store';
+import { SNAPSHOTS_BLOB_PREFIX, SNAPSHOT_INDEX_BLOB_PATH } from '@/lib/api/constants';
+import { SnapshotIndex } from '@/lib/api/types';
+import { parseSnapshotPath, snapshotIndexLog } from '@/lib/api/snapshot-management';
+import { readLoggedDocument, countLogEntries } from '@/lib/api/document-log';
+import { findMissingDates, loadKnownMissingDates } from '@/lib/api/snapshot-gaps';
+import { getActiveSource, withRequestSource } from '@/lib/api/sources';
 
 /**
- * DEBUG ENDPOINT: Lists all snapshots in blob storage and compares with index
- * Visit: /api/debug-snapshots
+ * Build the debug report for the active source
  */
-export async function GET() {
+async function getDebugReport() {
   try {
     // 1. List all blobs in snapshots/ prefix
-    const allBlobs: any[] = [];
-    let cursor: string | undefined = undefined;
+    const store = getBlobStore();
     
-    console.log('🔍 Fetching all blobs from storage...');
-    while (true) {
-      const listResult: Awaited<ReturnType<typeof list>> = await list({
-        prefix: 'snapshots/',
-        limit: 1000,
-        cursor,
-      });
-      allBlobs.push(...listResult.blobs);
-      if (!listResult.cursor) break;
-      cursor = listResult.cursor;
-    }
+    console.log(`🔍 Fetching all blobs from ${store.name} storage...`);
+    const allBlobs = await store.list(SNAPSHOTS_BLOB_PREFIX);
 
     console.log(`📦 Found ${allBlobs.length} total blobs`);
 
     // 2. Separate index from snapshot files
-    const indexBlob = allBlobs.find(b => b.pathname.endsWith('index.json'));
-    const snapshotBlobs = allBlobs.filter(
-      b => b.pathname.endsWith('.json') && !b.pathname.endsWith('index.json')
-    );
+    const indexBlob = allBlobs.find(b => b.pathname === SNAPSHOT_INDEX_BLOB_PATH);
+    const snapshotBlobs = allBlobs.filter(b => {
+      const parsed = parseSnapshotPath(b.pathname);
+      return parsed !== null && parsed.revision === undefined;
+    });
+    const revisionBlobs = allBlobs.filter(b => parseSnapshotPath(b.pathname)?.revision !== undefined);
 
-    console.log(`📸 Found ${snapshotBlobs.length} snapshot files`);
+    console.log(`📸 Found ${snapshotBlobs.length} snapshot files and ${revisionBlobs.length} intraday revision files`);
 
     // 3. Extract dates from snapshot files
     const actualDates = snapshotBlobs
-      .map(blob => {
-        const match = blob.pathname.match(/snapshots\/(\d{4}-\d{2}-\d{2})\.json$/);
-        return match ? match[1] : null;
-      })
-      .filter(Boolean)
+      .map(blob => parseSnapshotPath(blob.pathname)?.date ?? null)
+      .filter((date): date is string => date !== null)
       .sort()
       .reverse();
 
     console.log(`📅 Snapshot dates in storage: ${actualDates.join(', ')}`);
 
-    // 4. Load and check index file
-    let indexData = null;
-    if (indexBlob) {
-      console.log('📋 Index file exists, loading...');
-      const indexResponse = await fetch(indexBlob.url);
-      indexData = await indexResponse.json();
-      console.log(`📋 Index contains ${indexData.snapshots?.length || 0} entries`);
+    // 4. Load and check index file (including log entries not yet compacted)
+    let indexData: SnapshotIndex | null = null;
+    const pendingLogEntries = await countLogEntries(snapshotIndexLog);
+    if (indexBlob || pendingLogEntries > 0) {
+      console.log(`📋 Loading index (${pendingLogEntries} pending log entries)...`);
+      indexData = await readLoggedDocument(snapshotIndexLog);
+      console.log(`📋 Index contains ${indexData.snapshots.length} entries`);
     } else {
       console.log('⚠️  No index file found!');
     }
 
     // 5. Compare index with actual files
-    const indexDates = indexData?.snapshots?.map((s: any) => s.date) || [];
-    const missingInIndex = actualDates.filter((d: string) => !indexDates.includes(d));
-    const missingInStorage = indexDates.filter((d: string) => !actualDates.includes(d));
+    const indexDates = indexData?.snapshots?.map(s => s.date) || [];
+    const missingInIndex = actualDates.filter(d => !indexDates.includes(d));
+    const missingInStorage = indexDates.filter(d => !actualDates.includes(d));
+
+    // 6. Find days without a snapshot between the first and last date
+    const knownMissing = (await loadKnownMissingDates()).dates;
+    const gapDates = findMissingDates(actualDates);
 
     const report = {
       timestamp: new Date().toISOString(),
+      source: getActiveSource().id,
       storage: {
+        backend: store.name,
         totalBlobs: allBlobs.length,
         snapshotFiles: snapshotBlobs.length,
+        revisionFiles: revisionBlobs.length,
         dates: actualDates,
         files: snapshotBlobs.map(b => ({
           path: b.pathname,
-          url: b.url,
           uploadedAt: b.uploadedAt,
           size: b.size
         }))
       },
       index: {
         exists: !!indexBlob,
+        pendingLogEntries,
         entryCount: indexData?.snapshots?.length || 0,
         dates: indexDates,
         lastUpdated: indexData?.lastUpdated,
@@ -85,6 +86,11 @@ export async function GET() {
         mismatch: actualDates.length !== indexDates.length,
         missingInIndex,
         missingInStorage,
+        missingDates: gapDates.filter(d => !(d in knownMissing)),
+        knownMissingDates: gapDates.filter(d => d in knownMissing),
+        gapRecommendation: gapDates.some(d => !(d in knownMissing))
+          ? '⚠️  Days without snapshots! Run "npx tsx scripts/repair-gaps.ts report"'
+          : '✅ No unexplained gaps',
         recommendation: missingInIndex.length > 0 
           ? '⚠️  Index is outdated! Run rebuild script or visit /api/rebuild-index'
           : missingInStorage.length > 0
@@ -102,11 +108,11 @@ export async function GET() {
         'Cache-Control': 'no-store, must-revalidate',
       }
     });
-  } catch (error: any) {
+  } catch (error) {
     console.error('❌ Error in debug endpoint:', error);
     return NextResponse.json({
-      error: error?.message || 'Unknown error',
-      stack: error?.stack
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
     }, {
       status: 500,
       headers: {
@@ -115,3 +121,11 @@ export async function GET() {
     });
   }
 }
+
+/**
+ * DEBUG ENDPOINT: Lists all snapshots in blob storage and compares with index
+ * Visit: /api/debug-snapshots (optional ?source=<id>)
+ */
+export async function GET(request: Request) {
+  return withRequestSource(request, getDebugReport);
+}
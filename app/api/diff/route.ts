@@ -0,0 +1,95 @@
+/**
+ * Snapshot diff API route handler
+ * Compares the daily snapshots of two dates: /api/diff?from=YYYY-MM-DD&to=YYYY-MM-DD
+ */
+
+import { NextResponse } from 'next/server';
+import { loadSnapshot } from '@/lib/api/snapshot-management';
+import { diffSnapshots } from '@/lib/api/snapshot-diff';
+import { loadPlayerRegistry } from '@/lib/api/player-registry';
+import { loadPlayerMetadata, withoutHiddenPlayers } from '@/lib/api/player-metadata';
+import { withRequestSource } from '@/lib/api/sources';
+import { SnapshotDiffResponseSchema, safeValidate } from '@/lib/schemas';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Compare two snapshots of the active source
+ */
+async function getDiff(request: Request) {
+  try {
+    const searchParams = new URL(request.url).searchParams;
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+
+    // Validate date parameters (YYYY-MM-DD, from before to)
+    if (!from || !to || !DATE_PATTERN.test(from) || !DATE_PATTERN.test(to)) {
+      return NextResponse.json(
+        { error: 'Invalid dates. Expected ?from=YYYY-MM-DD&to=YYYY-MM-DD' },
+        { status: 400 }
+      );
+    }
+
+    if (from >= to) {
+      return NextResponse.json(
+        { error: '"from" must be before "to"' },
+        { status: 400 }
+      );
+    }
+
+    const [fromSnapshot, toSnapshot, registry, metadata] = await Promise.all([
+      loadSnapshot(from),
+      loadSnapshot(to),
+      loadPlayerRegistry(),
+      loadPlayerMetadata()
+    ]);
+
+    if (!fromSnapshot || !toSnapshot) {
+      const missing = [!fromSnapshot && from, !toSnapshot && to].filter(Boolean);
+      return NextResponse.json(
+        { error: `Snapshot not found for ${missing.join(' and ')}` },
+        { status: 404 }
+      );
+    }
+
+    // Validate the API response
+    const validatedResponse = safeValidate(
+      SnapshotDiffResponseSchema,
+      // Hidden players are left out of both sides, so they are not listed as entered or left either
+      diffSnapshots(
+        withoutHiddenPlayers(fromSnapshot, metadata, registry),
+        withoutHiddenPlayers(toSnapshot, metadata, registry),
+        registry
+      ),
+      `Snapshot diff API response (${from} to ${to})`
+    );
+
+    if (!validatedResponse) {
+      return NextResponse.json(
+        { error: 'Failed to validate response data' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(validatedResponse, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=600',
+      }
+    });
+  } catch (error) {
+    console.error('Error computing snapshot diff:', error);
+    return NextResponse.json(
+      { error: 'Failed to compute snapshot diff' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET handler for snapshot diffs
+ * Returns per-player deltas, players who entered and left the board, and rank movements
+ * Optional ?source=<id> selects the leaderboard source
+ */
+export async function GET(request: Request) {
+  return withRequestSource(request, () => getDiff(request));
+}
@@ -0,0 +1,71 @@
+/**
+ * Export API route handler
+ * Streams a full-history backup archive (NDJSON) of all snapshots and archived
+ * pages, the snapshot index, the player metadata, the player registry and the
+ * known missing dates.
+ * Restore it with: npx tsx scripts/archive.ts import <file>
+ */
+
+import { NextResponse } from 'next/server';
+import { exportArchive, toArchiveLine } from '@/lib/api/archive';
+import { isAuthorizedRequest } from '@/lib/api/auth';
+import { getTodayDate } from '@/lib/api/snapshot-management';
+import { getActiveSource, withLeaderboardSource, withRequestSource } from '@/lib/api/sources';
+
+/**
+ * Stream the archive of the active source
+ */
+async function exportSourceArchive(request: Request) {
+  if (!isAuthorizedRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const source = getActiveSource();
+  console.log(`📦 Starting archive export (${source.id})...`);
+
+  const records = exportArchive();
+  const encoder = new TextEncoder();
+
+  // Stream record by record so large histories are never held in memory
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        // pull() runs after the handler returned, outside the request's source scope
+        const { value, done } = await withLeaderboardSource(source, () => records.next());
+        if (done) {
+          console.log('✅ Archive export finished');
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(toArchiveLine(value)));
+        }
+      } catch (error) {
+        // The archive has no footer, so imports reject the truncated download
+        console.error('❌ Archive export failed:', error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await records.return(undefined);
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson',
+      'Content-Disposition': `attachment; filename="poker-table-archive-${getTodayDate()}.ndjson"`,
+      'Cache-Control': 'no-store, must-revalidate',
+    }
+  });
+}
+
+/**
+ * GET handler for archive export
+ * Requires "Authorization: Bearer <CRON_SECRET>" in production
+ * Optional ?source=<id> selects the leaderboard source
+ */
+export async function GET(request: Request) {
+  return withRequestSource(request, () => exportSourceArchive(request));
+}
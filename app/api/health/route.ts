@@ -0,0 +1,154 @@
+/**
+ * Health API route handler
+ * Reports upstream reachability, recent scrapes and snapshot index consistency
+ * for uptime checkers: responds 200 when every check passes, 503 otherwise.
+ * A passing check with quarantined runs since the last saved scrape is reported
+ * as "degraded" (still 200). Only the snapshot index is read, never a list()
+ * of storage; the full index/storage comparison is scripts/repair-gaps.ts
+ */
+
+import { NextResponse } from 'next/server';
+import { HEALTH_MAX_SCRAPE_AGE } from '@/lib/api/constants';
+import { fetchUpstreamPage, getLastHttpStatus } from '@/lib/api/upstream';
+import { loadScrapeRuns } from '@/lib/api/scrape-log';
+import { snapshotIndexLog } from '@/lib/api/snapshot-management';
+import { readLoggedDocument } from '@/lib/api/document-log';
+import { getActiveSource, withRequestSource } from '@/lib/api/sources';
+import { ScrapeRun } from '@/lib/api/types';
+import { HealthResponseSchema, safeValidate } from '@/lib/schemas';
+
+const RECENT_RUNS = 10;
+
+/**
+ * Check whether the source page can be downloaded
+ */
+async function checkUpstream(url: string) {
+  const startedAt = Date.now();
+  try {
+    // Conditional or reused request (see upstream.ts), so frequent checks stay cheap
+    const page = await fetchUpstreamPage(url);
+    return { reachable: true, httpStatus: page.httpStatus, responseMs: Date.now() - startedAt };
+  } catch (error) {
+    return {
+      reachable: false,
+      httpStatus: getLastHttpStatus(url),
+      responseMs: Date.now() - startedAt,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * Summarize the recorded scrape runs (newest first)
+ * Only saved and unchanged runs count as successful: a quarantined run stored nothing
+ */
+async function checkScrapes() {
+  const runs = await loadScrapeRuns();
+  const lastSuccessIndex = runs.findIndex(run => run.status === 'saved' || run.status === 'unchanged');
+  const sinceLastSuccess = lastSuccessIndex === -1 ? runs : runs.slice(0, lastSuccessIndex);
+
+  return {
+    lastSuccess: lastSuccessIndex === -1 ? null : runs[lastSuccessIndex],
+    summary: {
+      lastSuccessAt: lastSuccessIndex === -1 ? null : runs[lastSuccessIndex].startedAt,
+      consecutiveFailures: sinceLastSuccess.filter(run => run.status === 'failed').length,
+      consecutiveQuarantined: sinceLastSuccess.filter(run => run.status === 'quarantined').length,
+      recent: runs.slice(0, RECENT_RUNS)
+    }
+  };
+}
+
+/**
+ * Check that the snapshot index lists the revision of the last successful scrape
+ * @param lastSuccess - Last saved or unchanged scrape run, if any
+ */
+async function checkSnapshotIndex(lastSuccess: ScrapeRun | null) {
+  const index = await readLoggedDocument(snapshotIndexLog);
+  const dates = index.snapshots.map(s => s.date).sort().reverse();
+
+  // Runs are dated like ingestion, by the UTC day they started on
+  const expected = lastSuccess?.revision !== undefined
+    ? { date: lastSuccess.startedAt.split('T')[0], revision: lastSuccess.revision }
+    : null;
+  const entry = expected ? index.snapshots.find(s => s.date === expected.date) : undefined;
+  const indexed = !expected || (entry !== undefined && (entry.revision ?? 1) >= expected.revision);
+
+  return {
+    lastSnapshotDate: dates[0] ?? null,
+    indexedDates: dates.length,
+    unindexedRevision: indexed ? null : expected
+  };
+}
+
+/**
+ * Run the health checks for the active source
+ */
+async function getHealth() {
+  try {
+    const source = getActiveSource();
+    const [upstream, { lastSuccess, summary: scrapes }] = await Promise.all([
+      checkUpstream(source.url),
+      checkScrapes()
+    ]);
+    const snapshots = await checkSnapshotIndex(lastSuccess);
+
+    const checks = {
+      upstream: upstream.reachable,
+      scrape: scrapes.lastSuccessAt !== null &&
+        Date.now() - new Date(scrapes.lastSuccessAt).getTime() <= HEALTH_MAX_SCRAPE_AGE,
+      index: snapshots.unindexedRevision === null
+    };
+    const healthy = Object.values(checks).every(Boolean);
+    const status = !healthy ? 'failing' : scrapes.consecutiveQuarantined > 0 ? 'degraded' : 'ok';
+
+    const validatedResponse = safeValidate(
+      HealthResponseSchema,
+      {
+        status,
+        checkedAt: new Date().toISOString(),
+        source: source.id,
+        checks,
+        upstream,
+        scrapes,
+        snapshots
+      },
+      'Health API response'
+    );
+
+    if (!validatedResponse) {
+      throw new Error('Failed to validate health response data');
+    }
+
+    if (!healthy) {
+      console.warn(`⚠️ Health check failing for ${source.id}:`, checks);
+    } else if (status === 'degraded') {
+      console.warn(`⚠️ ${source.id}: ${scrapes.consecutiveQuarantined} scrape(s) quarantined since the last saved run`);
+    }
+
+    return NextResponse.json(validatedResponse, {
+      status: healthy ? 200 : 503,
+      headers: {
+        'Cache-Control': 'no-store, must-revalidate',
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error running health checks:', error);
+    return NextResponse.json(
+      { status: 'failing', error: error instanceof Error ? error.message : 'Unknown error' },
+      {
+        status: 503,
+        headers: {
+          'Cache-Control': 'no-store, must-revalidate',
+        }
+      }
+    );
+  }
+}
+
+/**
+ * GET handler for health checks
+ * Optional ?source=<id> selects the leaderboard source
+ */
+export async function GET(request: Request) {
+  return withRequestSource(request, getHealth);
+}
@@ -1,26 +1,17 @@
 import { NextResponse } from 'next/server';
-import { list } from '@vercel/blob';
-import { HistoricalSnapshotSchema, HistoricalDataResponseSchema, safeValidate } from '@/lib/schemas';
+import { readJsonBlob } from '@/lib/api/blob-store';
+import { getSnapshotPath, parseStoredSnapshot } from '@/lib/api/snapshot-management';
+import { loadPlayerMetadata, withoutHiddenPlayers } from '@/lib/api/player-metadata';
+import { loadPlayerRegistry } from '@/lib/api/player-registry';
+import { withRequestSource } from '@/lib/api/sources';
+import { HistoricalDataResponseSchema, safeValidate } from '@/lib/schemas';
 
-interface PlayerData {
-  rank: number;
-  name: string;
-  evWon: number;
-  evBB100: number;
-  won: number;
-  hands: number;
-}
-
-interface HistoricalSnapshot {
-  date: string;
-  webpageTimestamp: string;
-  players: PlayerData[];
-  capturedAt: string;
-}
-
-export async function GET(
+/**
+ * Load one snapshot of the active source
+ */
+async function getHistoricalSnapshot(
   request: Request,
-  { params }: { params: Promise<{ date: string }> }
+  params: Promise<{ date: string }>
 ) {
   try {
     const { date } = await params;
@@ -33,52 +24,55 @@ export async function GET(
       );
     }
 
-    try {
-      // Find the blob for this specific date
-      const { blobs } = await list({
-        prefix: `snapshots/${date}.json`,
-        limit: 1,
-      });
+    // Optional intraday revision (?revision=N), defaults to the latest revision of the day
+    const revisionParam = new URL(request.url).searchParams.get('revision');
+    if (revisionParam !== null && !/^\d{1,3}$/.test(revisionParam)) {
+      return NextResponse.json(
+        { error: 'Invalid revision. Expected a non-negative integer' },
+        { status: 400 }
+      );
+    }
+    const revision = revisionParam !== null ? parseInt(revisionParam, 10) : undefined;
 
-      if (blobs.length === 0) {
-        return NextResponse.json(
-          { error: 'Snapshot not found for this date' },
-          { status: 404 }
-        );
-      }
+    try {
+      // Load the snapshot for this specific date (and revision)
+      const data = await readJsonBlob(getSnapshotPath(date, revision));
 
-      const response = await fetch(blobs[0].url);
-      if (!response.ok) {
+      if (data === null) {
         return NextResponse.json(
           { error: 'Snapshot not found for this date' },
           { status: 404 }
         );
       }
-
-      const data = await response.json();
       
-      // Validate snapshot data
-      const validatedSnapshot = safeValidate(
-        HistoricalSnapshotSchema,
+      // Upgrade older snapshots and validate
+      const storedSnapshot = parseStoredSnapshot(
         data,
         `Historical snapshot for date ${date}`
       );
       
-      if (!validatedSnapshot) {
+      if (!storedSnapshot) {
         return NextResponse.json(
           { error: 'Invalid snapshot data' },
           { status: 500 }
         );
       }
+
+      // Hidden players are left out of historical tables too
+      const [metadata, registry] = await Promise.all([loadPlayerMetadata(), loadPlayerRegistry()]);
+      const validatedSnapshot = withoutHiddenPlayers(storedSnapshot, metadata, registry);
       
       // Prepare response with all required fields for HistoricalDataResponseSchema
       const responseData = {
         players: validatedSnapshot.players,
         capturedAt: validatedSnapshot.capturedAt,
         webpageTimestamp: validatedSnapshot.webpageTimestamp,
+        webpageUpdatedAt: validatedSnapshot.webpageUpdatedAt,
+        revision: validatedSnapshot.revision,
         isHistorical: true,
         hasPreviousDayData: false,
-        previousDayDate: null
+        previousDayDate: null,
+        deltaCheck: validatedSnapshot.deltaCheck
       };
       
       // Validate the API response
@@ -114,3 +108,14 @@ export async function GET(
     );
   }
 }
+
+/**
+ * GET handler for a historical snapshot
+ * Optional ?revision=N selects an intraday revision, ?source=<id> the leaderboard source
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ date: string }> }
+) {
+  return withRequestSource(request, () => getHistoricalSnapshot(request, params));
+}
@@ -1,14 +1,12 @@
 import { NextResponse } from 'next/server';
-import { list } from '@vercel/blob';
 import { unstable_cache } from 'next/cache';
-import { HistoricalSnapshotMetadataSchema, SnapshotListResponseSchema, safeValidate } from '@/lib/schemas';
-import { loadSnapshotIndex } from '@/lib/api/snapshot-management';
+import { SnapshotListEntrySchema, SnapshotListResponseSchema, ValidatedSnapshotListEntry, safeValidate } from '@/lib/schemas';
+import { loadSnapshotIndex, parseSnapshotPath } from '@/lib/api/snapshot-management';
+import { getBlobStore, readJsonBlob } from '@/lib/api/blob-store';
+import { SNAPSHOTS_BLOB_PREFIX } from '@/lib/api/constants';
+import { getActiveSource, getLeaderboardSource, withLeaderboardSource, withRequestSource } from '@/lib/api/sources';
 
-interface HistoricalSnapshot {
-  date: string;
-  webpageTimestamp: string;
-  capturedAt: string;
-}
+type HistoricalSnapshot = ValidatedSnapshotListEntry;
 
 interface SnapshotListResult {
   snapshots: HistoricalSnapshot[];
@@ -18,98 +16,116 @@ interface SnapshotListResult {
 // OPTIMIZATION: Use snapshot index file instead of expensive list() operation
 // This eliminates 1 advanced operation per request (5x cost reduction)
 // FALLBACK: If index doesn't exist yet, fall back to list() method
-const getCachedSnapshotList = unstable_cache(
-  async (): Promise<SnapshotListResult> => {
-    const index = await loadSnapshotIndex();
+async function loadSnapshotList(): Promise<SnapshotListResult> {
+  const index = await loadSnapshotIndex();
+
+  // If index has snapshots, use it (optimized path)
+  if (index.snapshots.length > 0) {
+    const snapshots: HistoricalSnapshot[] = [];
+
+    for (const snapshot of index.snapshots) {
+      // Validate snapshot metadata
+      const validatedMetadata = safeValidate(
+        SnapshotListEntrySchema,
+        {
+          date: snapshot.date,
+          revision: snapshot.revision,
+          webpageTimestamp: snapshot.webpageTimestamp,
+          webpageUpdatedAt: snapshot.webpageUpdatedAt,
+          capturedAt: snapshot.capturedAt,
+          revisions: snapshot.revisions?.map(r => ({
+            revision: r.revision,
+            webpageTimestamp: r.webpageTimestamp,
+            webpageUpdatedAt: r.webpageUpdatedAt,
+            capturedAt: r.capturedAt
+          }))
+        },
+        `Snapshot metadata for ${snapshot.date}`
+      );
+      
+      if (validatedMetadata) {
+        snapshots.push(validatedMetadata);
+      } else {
+        console.warn(`Skipping invalid snapshot metadata: ${snapshot.date}`);
+      }
+    }
+
+    return {
+      snapshots,
+      count: snapshots.length
+    };
+  }
+
+  // FALLBACK: Index doesn't exist or is empty, use traditional list() method
+  console.log('⚠️ Snapshot index not found or empty, falling back to list() operation');
+  console.log('💡 Run "npx tsx scripts/rebuild-snapshot-index.ts" to create the index and optimize costs');
+  
+  const blobs = await getBlobStore().list(SNAPSHOTS_BLOB_PREFIX);
 
-    // If index has snapshots, use it (optimized path)
-    if (index.snapshots.length > 0) {
-      const snapshots: HistoricalSnapshot[] = [];
+  const snapshots: HistoricalSnapshot[] = [];
 
-      for (const snapshot of index.snapshots) {
+  for (const blob of blobs) {
+    // Daily snapshots only; intraday revisions are listed from the index
+    const parsedPath = parseSnapshotPath(blob.pathname);
+    if (parsedPath && parsedPath.revision === undefined) {
+      try {
+        const data = await readJsonBlob<Partial<HistoricalSnapshot>>(blob.pathname);
+        if (!data) continue;
+        
         // Validate snapshot metadata
         const validatedMetadata = safeValidate(
-          HistoricalSnapshotMetadataSchema,
+          SnapshotListEntrySchema,
           {
-            date: snapshot.date,
-            webpageTimestamp: snapshot.webpageTimestamp,
-            capturedAt: snapshot.capturedAt
+            date: data.date,
+            revision: data.revision,
+            webpageTimestamp: data.webpageTimestamp,
+            webpageUpdatedAt: data.webpageUpdatedAt,
+            capturedAt: data.capturedAt
           },
-          `Snapshot metadata for ${snapshot.date}`
+          `Snapshot metadata for ${blob.pathname}`
         );
         
         if (validatedMetadata) {
           snapshots.push(validatedMetadata);
         } else {
-          console.warn(`Skipping invalid snapshot metadata: ${snapshot.date}`);
+          console.warn(`Skipping invalid snapshot metadata: ${blob.pathname}`);
         }
+      } catch (error) {
+        console.error(`Error reading snapshot ${blob.pathname}:`, error);
       }
-
-      return {
-        snapshots,
-        count: snapshots.length
-      };
     }
+  }
 
-    // FALLBACK: Index doesn't exist or is empty, use traditional list() method
-    console.log('⚠️ Snapshot index not found or empty, falling back to list() operation');
-    console.log('💡 Run "npx tsx scripts/rebuild-snapshot-index.ts" to create the index and optimize costs');
-    
-    const { blobs } = await list({
-      prefix: 'snapshots/',
-    });
+  // Sort by date, most recent first
+  snapshots.sort((a, b) => b.date.localeCompare(a.date));
 
-    const snapshots: HistoricalSnapshot[] = [];
+  return {
+    snapshots,
+    count: snapshots.length
+  };
+}
 
-    for (const blob of blobs) {
-      if (blob.pathname.endsWith('.json') && !blob.pathname.endsWith('index.json')) {
-        try {
-          const response = await fetch(blob.url);
-          if (!response.ok) continue;
-          
-          const data = await response.json();
-          
-          // Validate snapshot metadata
-          const validatedMetadata = safeValidate(
-            HistoricalSnapshotMetadataSchema,
-            {
-              date: data.date,
-              webpageTimestamp: data.webpageTimestamp,
-              capturedAt: data.capturedAt
-            },
-            `Snapshot metadata for ${blob.pathname}`
-          );
-          
-          if (validatedMetadata) {
-            snapshots.push(validatedMetadata);
-          } else {
-            console.warn(`Skipping invalid snapshot metadata: ${blob.pathname}`);
-          }
-        } catch (error) {
-          console.error(`Error reading snapshot ${blob.pathname}:`, error);
-        }
-      }
+// The source id is part of the cache key; the cached callback runs outside the
+// request's source scope, so it re-enters it explicitly
+const getCachedSnapshotList = unstable_cache(
+  async (sourceId: string): Promise<SnapshotListResult> => {
+    const source = getLeaderboardSource(sourceId);
+    if (!source) {
+      throw new Error(`Unknown source "${sourceId}"`);
     }
-
-    // Sort by date, most recent first
-    snapshots.sort((a, b) => b.date.localeCompare(a.date));
-
-    return {
-      snapshots,
-      count: snapshots.length
-    };
+    return withLeaderboardSource(source, loadSnapshotList);
   },
-  ['snapshot-list-v2'], // Cache key - bumped version to force refresh
+  ['snapshot-list-v3'], // Cache key - bumped version to force refresh
   {
     revalidate: 3600, // Cache for 1 hour
     tags: ['snapshot-list'] // Tags for potential on-demand revalidation
   }
 );
 
-export async function GET() {
+async function getSnapshotList() {
   try {
     // Use cached snapshot list
-    const result = await getCachedSnapshotList();
+    const result = await getCachedSnapshotList(getActiveSource().id);
     
     // Validate the response before sending
     const validatedResponse = safeValidate(
@@ -138,3 +154,11 @@ export async function GET() {
     });
   }
 }
+
+/**
+ * GET handler for the snapshot list
+ * Optional ?source=<id> selects the leaderboard source
+ */
+export async function GET(request: Request) {
+  return withRequestSource(request, getSnapshotList);
+}
@@ -0,0 +1,73 @@
+/**
+ * Ingestion API route handler
+ * Triggered on a schedule by Vercel Cron (see vercel.json) to scrape the
+ * leaderboards and write a snapshot revision whenever a source updates,
+ * independent of page visits
+ */
+
+import { NextResponse } from 'next/server';
+import { revalidateTag } from 'next/cache';
+import { runIngestion, IngestionResult } from '@/lib/api/ingestion';
+import { isAuthorizedRequest } from '@/lib/api/auth';
+import { LEADERBOARD_SOURCES, getLeaderboardSource } from '@/lib/api/sources';
+
+/**
+ * GET handler for scheduled ingestion
+ * Ingests every leaderboard source, or only the one given as ?source=<id>
+ * Returns a summary per source
+ */
+export async function GET(request: Request) {
+  if (!isAuthorizedRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const sourceId = new URL(request.url).searchParams.get('source');
+  const requestedSource = sourceId ? getLeaderboardSource(sourceId) : null;
+  if (sourceId && !requestedSource) {
+    return NextResponse.json(
+      { error: `Unknown source "${sourceId}"` },
+      { status: 400 }
+    );
+  }
+
+  const sources = requestedSource ? [requestedSource] : LEADERBOARD_SOURCES;
+  const results: Array<IngestionResult | { source: string; status: 'failed'; error: string }> = [];
+
+  console.log(`🔄 Starting scheduled ingestion of ${sources.length} source(s)...`);
+
+  // One source failing must not block the others
+  for (const source of sources) {
+    try {
+      const result = await runIngestion(source);
+      console.log(`✅ ${source.id}: ${result.status} revision ${result.revision} (${result.playerCount} players, ${result.durationMs}ms)`);
+      results.push(result);
+    } catch (error) {
+      console.error(`❌ ${source.id}: ingestion failed:`, error);
+      results.push({
+        source: source.id,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  if (results.some(result => result.status === 'saved')) {
+    // New revision available, refresh the cached history list
+    revalidateTag('snapshot-list', '/');
+  }
+
+  const success = results.every(result => result.status !== 'failed');
+
+  return NextResponse.json({
+    success,
+    results
+  }, {
+    status: success ? 200 : 500,
+    headers: {
+      'Cache-Control': 'no-store, must-revalidate',
+    }
+  });
+}
@@ -6,17 +6,32 @@
 import { NextResponse } from 'next/server';
 import { MAX_REQUESTS_PER_WINDOW } from '@/lib/api/constants';
 import { checkRateLimit, logRequest } from '@/lib/api/rate-limiting';
-import { getCachedLeaderboardData } from '@/lib/api/data-fetcher';
-import { fetchWebpageTimestamp } from '@/lib/api/data-parsing';
-import { loadPreviousDaySnapshot } from '@/lib/api/snapshot-management';
+import { buildLeaderboardData, getCachedLeaderboardData } from '@/lib/api/data-fetcher';
+import { fetchUpstreamPage } from '@/lib/api/upstream';
+import { loadPreviousDaySnapshot, getTodayDate } from '@/lib/api/snapshot-management';
+import { getActiveSource, withRequestSource } from '@/lib/api/sources';
+import { listDatesBetween } from '@/lib/api/snapshot-gaps';
+import { parseWebpageInstant } from '@/lib/api/webpage-time';
 import { CachedData } from '@/lib/api/types';
 import { LeaderboardResponseSchema, safeValidate } from '@/lib/schemas';
 
 /**
- * GET handler for leaderboard data
- * Returns current leaderboard with player rankings, stats, and change indicators
+ * Check whether the live page was updated after the cached data
+ * Compares instants so a lagging upstream cache serving an older page never
+ * replaces newer data; falls back to text comparison for unrecognized timestamps
  */
-export async function GET(request: Request) {
+function isWebpageNewer(currentWebpageTimestamp: string, cachedData: CachedData): boolean {
+  const currentUpdatedAt = parseWebpageInstant(currentWebpageTimestamp, new Date());
+  if (currentUpdatedAt && cachedData.webpageUpdatedAt) {
+    return currentUpdatedAt > cachedData.webpageUpdatedAt;
+  }
+  return currentWebpageTimestamp !== cachedData.webpageTimestamp;
+}
+
+/**
+ * Load the leaderboard of the active source
+ */
+async function getLeaderboard(request: Request) {
   // Get client IP for rate limiting
   const ip = request.headers.get('x-forwarded-for') ||
              request.headers.get('x-real-ip') ||
@@ -39,41 +54,37 @@ export async function GET(request: Request) {
   }
 
   try {
-    // Try to get cached data first (Next.js will handle cache invalidation)
-    let cachedData: CachedData;
-    let cacheStatus = 'MISS';
-    let cacheReason = 'initial-fetch';
+    const source = getActiveSource();
 
-    try {
-      // Attempt to get cached data
-      cachedData = await getCachedLeaderboardData();
-      
-      // Quick timestamp check to see if webpage has been updated
-      const currentWebpageTimestamp = await fetchWebpageTimestamp();
-      
-      if (currentWebpageTimestamp && currentWebpageTimestamp !== cachedData.webpageTimestamp) {
-        // Webpage has been updated, bypass cache and fetch fresh data
-        // We'll let the cache naturally expire, but fetch fresh data now
-        cacheStatus = 'BYPASS';
-        cacheReason = 'webpage-updated';
-        // Force refetch by throwing an error to trigger the catch block
-        throw new Error('Webpage timestamp changed, fetching fresh data');
-      } else {
-        // Cache is valid
-        cacheStatus = currentWebpageTimestamp ? 'HIT' : 'HIT-NO-TIMESTAMP-CHECK';
-        cacheReason = currentWebpageTimestamp ? 'webpage-unchanged' : 'timestamp-check-failed';
-      }
-    } catch (cacheError) {
-      // If cache miss or timestamp changed, fetch fresh data
-      cacheStatus = 'MISS';
-      cacheReason = cacheError instanceof Error && cacheError.message.includes('timestamp changed')
-        ? 'webpage-updated'
-        : 'cache-miss';
-      cachedData = await getCachedLeaderboardData();
+    // Get cached data first (Next.js will handle cache invalidation)
+    let cachedData = await getCachedLeaderboardData(source.id);
+    let cacheStatus = 'HIT';
+    let cacheReason = 'webpage-unchanged';
+
+    // Quick timestamp check to see if webpage has been updated
+    // The upstream fetcher makes this a conditional request, or no request at all
+    // when the cached data was just fetched
+    const page = await fetchUpstreamPage(source.url).catch(error => {
+      console.error('Error fetching webpage timestamp:', error);
+      return null;
+    });
+    const currentWebpageTimestamp = page ? source.parseTimestamp(page.html) : null;
+
+    if (!page || !currentWebpageTimestamp) {
+      cacheStatus = 'HIT-NO-TIMESTAMP-CHECK';
+      cacheReason = 'timestamp-check-failed';
+    } else if (isWebpageNewer(currentWebpageTimestamp, cachedData)) {
+      // Webpage has been updated: parse the response we already have instead of
+      // downloading again, and let the cache naturally expire
+      cachedData = await buildLeaderboardData(source, page.html);
+      cacheStatus = 'BYPASS';
+      cacheReason = 'webpage-updated';
     }
 
     // Load previous day's snapshot info for response
     const previousSnapshot = await loadPreviousDaySnapshot();
+    // Days without a snapshot between the comparison base and today, so the UI can flag them
+    const skippedDates = previousSnapshot ? listDatesBetween(previousSnapshot.date, getTodayDate()) : [];
 
     logRequest(ip, 'success', `served from cache (${cacheReason})`);
 
@@ -81,8 +92,10 @@ export async function GET(request: Request) {
       players: cachedData.players,
       lastUpdated: cachedData.lastUpdated,
       webpageTimestamp: cachedData.webpageTimestamp,
+      webpageUpdatedAt: cachedData.webpageUpdatedAt,
       hasPreviousDayData: previousSnapshot !== null,
       previousDayDate: previousSnapshot?.date || null,
+      skippedDates,
       isHistorical: false
     };
 
@@ -101,7 +114,8 @@ export async function GET(request: Request) {
       headers: {
         'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=600',
         'X-Cache': cacheStatus,
-        'X-Cache-Reason': cacheReason
+        'X-Cache-Reason': cacheReason,
+        'X-Upstream': page?.status ?? 'failed'
       }
     });
   } catch (error) {
@@ -119,3 +133,12 @@ export async function GET(request: Request) {
     );
   }
 }
+
+/**
+ * GET handler for leaderboard data
+ * Returns current leaderboard with player rankings, stats, and change indicators
+ * Optional ?source=<id> selects the leaderboard source
+ */
+export async function GET(request: Request) {
+  return withRequestSource(request, () => getLeaderboard(request));
+}
@@ -0,0 +1,72 @@
+/**
+ * Player profile API route handler
+ * Serves a player's country, latest stats and full history: /api/players/<name>
+ * Any name of the player works (see lib/api/player-registry.ts)
+ */
+
+import { NextResponse } from 'next/server';
+import { loadPlayerProfile } from '@/lib/api/player-profile';
+import { withRequestSource } from '@/lib/api/sources';
+import { PlayerProfileResponseSchema, safeValidate } from '@/lib/schemas';
+
+/**
+ * Load the profile of a player of the active source
+ */
+async function getPlayerProfile(params: Promise<{ name: string }>) {
+  try {
+    // Next.js has already decoded the route segment
+    const name = (await params).name.trim();
+
+    if (name.length === 0 || name.length > 100) {
+      return NextResponse.json(
+        { error: 'Invalid player name' },
+        { status: 400 }
+      );
+    }
+
+    const profile = await loadPlayerProfile(name);
+    if (!profile) {
+      return NextResponse.json(
+        { error: `No history found for player "${name}"` },
+        { status: 404 }
+      );
+    }
+
+    // Validate the API response
+    const validatedResponse = safeValidate(
+      PlayerProfileResponseSchema,
+      profile,
+      `Player profile API response (${name})`
+    );
+
+    if (!validatedResponse) {
+      return NextResponse.json(
+        { error: 'Failed to validate response data' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(validatedResponse, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=600',
+      }
+    });
+  } catch (error) {
+    console.error('Error loading player profile:', error);
+    return NextResponse.json(
+      { error: 'Failed to load player profile' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET handler for a player profile
+ * Optional ?source=<id> selects the leaderboard source
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  return withRequestSource(request, () => getPlayerProfile(params));
+}
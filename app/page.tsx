@@ -1,20 +1,41 @@
 'use client';
 
-import { useState, useEffect, useMemo } from 'react';
+import { Suspense, useState, useEffect, useMemo, useRef } from 'react';
+import { useSearchParams } from 'next/navigation';
 import { retryWithBackoff } from '@/lib/retry';
-import { Player, SortKey, SortDirection, HistoricalSnapshot, SortConfig } from '@/lib/types';
+import { withSourceParam } from '@/lib/source-url';
+import { formatWebpageTime } from '@/lib/formatters';
+import { SOURCE_STALE_AFTER_HOURS } from '@/lib/api/constants';
+import {
+  Player,
+  SortKey,
+  SortDirection,
+  HistoricalSnapshot,
+  SortConfig,
+  DailyMoversData,
+  CountryLeaderboardEntry
+} from '@/lib/types';
 import ErrorDisplay from '@/components/ErrorDisplay';
 import LeaderboardTable from '@/components/LeaderboardTable';
 import SearchAndFilters from '@/components/SearchAndFilters';
 import HistoricalDateSelector from '@/components/HistoricalDateSelector';
+import DailyMoversPanel from '@/components/DailyMoversPanel';
+import CountryLeaderboardTable from '@/components/CountryLeaderboardTable';
 import {
+  CountryLeaderboardResponseSchema,
   SnapshotListResponseSchema,
   LeaderboardResponseSchema,
   HistoricalDataResponseSchema,
+  DailyMoversResponseSchema,
   safeValidate
 } from '@/lib/schemas';
 
-export default function Home() {
+/**
+ * Leaderboard page of one source (the default source when null)
+ */
+function LeaderboardPage({ source }: { source: string | null }) {
+  // The page is remounted for another source, so the fetches can read it from a ref
+  const sourceRef = useRef(source);
   const [players, setPlayers] = useState<Player[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -24,25 +45,102 @@ export default function Home() {
   const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
   const [lastUpdated, setLastUpdated] = useState<string>('');
   const [webpageTimestamp, setWebpageTimestamp] = useState<string>('');
+  const [webpageUpdatedAt, setWebpageUpdatedAt] = useState<string | null>(null);
   const [hasPreviousDayData, setHasPreviousDayData] = useState(false);
   const [previousDayDate, setPreviousDayDate] = useState<string | null>(null);
+  const [skippedDates, setSkippedDates] = useState<string[]>([]);
   const [showPreviousDayStats, setShowPreviousDayStats] = useState(true);
+  const [dailyMovers, setDailyMovers] = useState<DailyMoversData | null>(null);
+
+  // Country leaderboard tab state
+  const [view, setView] = useState<'players' | 'countries'>('players');
+  const [countries, setCountries] = useState<CountryLeaderboardEntry[] | null>(null);
+  const [countriesError, setCountriesError] = useState<string | null>(null);
   
   // Historical data state
   const [availableDates, setAvailableDates] = useState<HistoricalSnapshot[]>([]);
   const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [selectedRevision, setSelectedRevision] = useState<number | null>(null);
   const [isHistoricalView, setIsHistoricalView] = useState(false);
   const [showTipSection, setShowTipSection] = useState(false);
 
   useEffect(() => {
     fetchData();
     fetchAvailableDates();
+    fetchDailyMovers();
   }, []);
 
+  const fetchDailyMovers = async (date?: string) => {
+    try {
+      const response = await fetch(withSourceParam(date ? `/api/daily-movers?date=${date}` : '/api/daily-movers', sourceRef.current));
+      if (!response.ok) {
+        // 404 means the snapshot has no daily tables, hide the panel
+        setDailyMovers(null);
+        return;
+      }
+
+      // Validate the daily movers response
+      const validatedData = safeValidate(
+        DailyMoversResponseSchema,
+        await response.json(),
+        'Daily movers response from /api/daily-movers'
+      );
+      setDailyMovers(validatedData);
+    } catch (err) {
+      console.error('Failed to fetch daily movers:', err);
+      // Don't set error state for this, it's not critical
+      setDailyMovers(null);
+    }
+  };
+
+  const fetchCountries = async (date?: string, revision?: number | null) => {
+    try {
+      setCountriesError(null);
+      const params = new URLSearchParams();
+      if (date) {
+        params.set('date', date);
+        if (revision !== undefined && revision !== null) {
+          params.set('revision', String(revision));
+        }
+      }
+
+      await retryWithBackoff(async () => {
+        const response = await fetch(withSourceParam(`/api/countries/leaderboard?${params}`, sourceRef.current));
+        if (!response.ok) {
+          throw new Error(`Failed to fetch country leaderboard: ${response.status} ${response.statusText}`);
+        }
+
+        // Validate the country leaderboard response
+        const validatedData = safeValidate(
+          CountryLeaderboardResponseSchema,
+          await response.json(),
+          'Country leaderboard response from /api/countries/leaderboard'
+        );
+
+        if (!validatedData) {
+          throw new Error('Invalid country leaderboard data received from server');
+        }
+
+        setCountries(validatedData.countries);
+      });
+    } catch (err) {
+      console.error('Failed to fetch country leaderboard:', err);
+      setCountries(null);
+      setCountriesError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    }
+  };
+
+  const handleViewChange = (nextView: 'players' | 'countries') => {
+    setView(nextView);
+    if (nextView === 'countries') {
+      fetchCountries(selectedDate || undefined, selectedRevision);
+    }
+  };
+
   const fetchAvailableDates = async () => {
     try {
       await retryWithBackoff(async () => {
-        const response = await fetch('/api/history');
+        const response = await fetch(withSourceParam('/api/history', sourceRef.current));
         if (!response.ok) {
           throw new Error(`Failed to fetch available dates: ${response.status} ${response.statusText}`);
         }
@@ -69,7 +167,7 @@ export default function Home() {
     }
   };
 
-  const fetchData = async (date?: string) => {
+  const fetchData = async (date?: string, revision?: number | null) => {
     try {
       setLoading(true);
       setError(null);
@@ -78,9 +176,11 @@ export default function Home() {
         let url = date ? `/api/history/${date}` : '/api/leaderboard';
         // Add cache busting parameter to avoid stale CDN responses
         if (date) {
-          url += `?v=${Date.now()}`;
+          url += revision !== undefined && revision !== null
+            ? `?revision=${revision}&v=${Date.now()}`
+            : `?v=${Date.now()}`;
         }
-        const response = await fetch(url);
+        const response = await fetch(withSourceParam(url, sourceRef.current));
         
         if (!response.ok) {
           // Provide more specific error messages based on status code
@@ -116,8 +216,10 @@ export default function Home() {
           setPlayers(validatedData.players);
           setLastUpdated(validatedData.capturedAt);
           setWebpageTimestamp(validatedData.webpageTimestamp);
+          setWebpageUpdatedAt(validatedData.webpageUpdatedAt ?? null);
           setHasPreviousDayData(validatedData.hasPreviousDayData);
           setPreviousDayDate(validatedData.previousDayDate || null);
+          setSkippedDates([]);
           setIsHistoricalView(validatedData.isHistorical);
         } else {
           // Current leaderboard data validation
@@ -134,8 +236,10 @@ export default function Home() {
           setPlayers(validatedData.players);
           setLastUpdated(validatedData.lastUpdated);
           setWebpageTimestamp(validatedData.webpageTimestamp);
+          setWebpageUpdatedAt(validatedData.webpageUpdatedAt ?? null);
           setHasPreviousDayData(validatedData.hasPreviousDayData);
           setPreviousDayDate(validatedData.previousDayDate);
+          setSkippedDates(validatedData.skippedDates ?? []);
           setIsHistoricalView(validatedData.isHistorical);
         }
       });
@@ -153,16 +257,21 @@ export default function Home() {
 
   const handleRetry = () => {
     setRetryCount((prev: number) => prev + 1);
-    fetchData(selectedDate || undefined);
+    fetchData(selectedDate || undefined, selectedRevision);
   };
 
-  const handleDateChange = (date: string | null) => {
+  const handleDateChange = (date: string | null, revision: number | null = null) => {
     setSelectedDate(date);
+    setSelectedRevision(date ? revision : null);
     if (date) {
-      fetchData(date);
+      fetchData(date, revision);
     } else {
       fetchData();
     }
+    fetchDailyMovers(date || undefined);
+    if (view === 'countries') {
+      fetchCountries(date || undefined, date ? revision : null);
+    }
   };
 
   const handleSort = (key: SortKey) => {
@@ -175,7 +284,11 @@ export default function Home() {
   };
 
   const handleRefresh = () => {
-    fetchData(selectedDate || undefined);
+    fetchData(selectedDate || undefined, selectedRevision);
+    fetchDailyMovers(selectedDate || undefined);
+    if (view === 'countries') {
+      fetchCountries(selectedDate || undefined, selectedRevision);
+    }
     if (!selectedDate) {
       fetchAvailableDates();
     }
@@ -186,8 +299,10 @@ export default function Home() {
 
     // Filter
     if (searchTerm) {
+      const search = searchTerm.toLowerCase();
       result = result.filter(player =>
-        player.name.toLowerCase().includes(searchTerm.toLowerCase())
+        player.name.toLowerCase().includes(search) ||
+        player.displayName?.toLowerCase().includes(search)
       );
     }
 
@@ -212,6 +327,11 @@ export default function Home() {
     return result;
   }, [players, searchTerm, sortKey, sortDirection]);
 
+  // Hours between the source update and when the data was fetched
+  const sourceAgeHours = webpageUpdatedAt && lastUpdated
+    ? (new Date(lastUpdated).getTime() - new Date(webpageUpdatedAt).getTime()) / (60 * 60 * 1000)
+    : null;
+
   const sortConfig: SortConfig = {
     key: sortKey,
     direction: sortDirection
@@ -284,10 +404,20 @@ export default function Home() {
             )}
           </div>
           {webpageTimestamp && (
-            <p className="text-gray-500 text-xs mt-1">
-              Leaderboard last updated: {webpageTimestamp}
+            <p className="text-gray-500 text-xs mt-1" title={`Source time: ${webpageTimestamp}`}>
+              Leaderboard last updated: {formatWebpageTime(webpageTimestamp, webpageUpdatedAt)}
             </p>
           )}
+          {!isHistoricalView && sourceAgeHours !== null && sourceAgeHours > SOURCE_STALE_AFTER_HOURS && (
+            <div className="mt-3 p-3 bg-red-900/20 border border-red-700/50 rounded-lg">
+              <p className="text-red-400 text-sm font-medium">
+                ⚠️ Source is {Math.floor(sourceAgeHours)} hours stale
+              </p>
+              <p className="text-red-300/70 text-xs mt-1">
+                The source leaderboard has not been updated since {formatWebpageTime(webpageTimestamp, webpageUpdatedAt)}
+              </p>
+            </div>
+          )}
           {lastUpdated && (
             <p className="text-gray-600 text-xs">
               Data fetched: {new Date(lastUpdated).toLocaleString()}
@@ -307,13 +437,20 @@ export default function Home() {
                 })()}
               </p>
               <p className="text-yellow-300/70 text-xs mt-1">
-                You are viewing a snapshot of the leaderboard as it was on this date
+                {selectedRevision !== null
+                  ? `You are viewing update ${selectedRevision} of the leaderboard from this date`
+                  : 'You are viewing a snapshot of the leaderboard as it was on this date'}
               </p>
             </div>
           )}
           {!isHistoricalView && hasPreviousDayData && previousDayDate && showPreviousDayStats && (
             <p className="text-blue-400 text-xs mt-2">
               📊 Showing changes since {previousDayDate}
+              {skippedDates.length > 0 && (
+                <span className="text-yellow-400" title={`No snapshot for ${skippedDates.join(', ')}`}>
+                  {' '}(covers {skippedDates.length + 1} days, no data for {skippedDates.length === 1 ? skippedDates[0] : `${skippedDates.length} days in between`})
+                </span>
+              )}
             </p>
           )}
         </div>
@@ -323,6 +460,7 @@ export default function Home() {
           <HistoricalDateSelector
             availableDates={availableDates}
             selectedDate={selectedDate}
+            selectedRevision={selectedRevision}
             onDateChange={handleDateChange}
             loading={loading}
             isHistoricalView={isHistoricalView}
@@ -353,7 +491,44 @@ export default function Home() {
           </div>
         )}
 
-        {loading && players.length === 0 ? (
+        {dailyMovers && !error && (
+          <DailyMoversPanel movers={dailyMovers} isHistoricalView={isHistoricalView} />
+        )}
+
+        <div className="flex gap-2 mb-4" role="tablist">
+          {([['players', '👤 Players'], ['countries', '🌍 Countries']] as const).map(([tab, label]) => (
+            <button
+              key={tab}
+              role="tab"
+              aria-selected={view === tab}
+              onClick={() => handleViewChange(tab)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                view === tab
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-800/50 text-gray-400 hover:bg-gray-800 hover:text-gray-300'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {view === 'countries' ? (
+          countriesError ? (
+            <ErrorDisplay
+              title="Failed to Load Countries"
+              message={countriesError}
+              onRetry={() => fetchCountries(selectedDate || undefined, selectedRevision)}
+            />
+          ) : countries === null ? (
+            <div className="text-center py-12 text-gray-400">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mb-4"></div>
+              <p>Loading countries...</p>
+            </div>
+          ) : (
+            <CountryLeaderboardTable countries={countries} source={source} />
+          )
+        ) : loading && players.length === 0 ? (
           <div className="text-center py-12 text-gray-400">
             <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mb-4"></div>
             <p>Loading data{retryCount > 0 ? ` (Retry ${retryCount})` : ''}...</p>
@@ -365,11 +540,14 @@ export default function Home() {
             onSort={handleSort}
             showPreviousDay={showPreviousDayStats}
             searchTerm={searchTerm}
+            source={source}
           />
         )}
 
         <div className="mt-6 text-center text-gray-500 text-sm">
-          Showing {filteredAndSortedPlayers.length} of {players.length} players
+          {view === 'countries'
+            ? countries && `${countries.length} countries`
+            : `Showing ${filteredAndSortedPlayers.length} of ${players.length} players`}
         </div>
 
         <div className="mt-8 pt-6 border-t border-gray-800 text-center">
@@ -389,3 +567,20 @@ export default function Home() {
     </div>
   );
 }
+
+/**
+ * Leaderboard page of the source given as ?source=<id>
+ */
+function SourceLeaderboardPage() {
+  const source = useSearchParams().get('source');
+  return <LeaderboardPage key={source ?? ''} source={source} />;
+}
+
+export default function Home() {
+  // useSearchParams needs a Suspense boundary for the page to prerender
+  return (
+    <Suspense>
+      <SourceLeaderboardPage />
+    </Suspense>
+  );
+}
@@ -0,0 +1,264 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useParams, useSearchParams } from 'next/navigation';
+import { retryWithBackoff } from '@/lib/retry';
+import { withSourceParam } from '@/lib/source-url';
+import { formatCurrency, formatNumber, formatSnapshotDate, getRankChangeData } from '@/lib/formatters';
+import { countryCodeToFlag } from '@/lib/flags';
+import { PlayerDayChange, PlayerProfile } from '@/lib/types';
+import ErrorDisplay from '@/components/ErrorDisplay';
+import PlayerHistoryChart from '@/components/PlayerHistoryChart';
+import { PlayerProfileResponseSchema, safeValidate } from '@/lib/schemas';
+
+/**
+ * One headline stat of the player
+ */
+function StatCard({ label, value, color = 'text-gray-100' }: { label: string; value: string; color?: string }) {
+  return (
+    <div className="p-4 bg-gray-900/50 border border-gray-800 rounded-lg">
+      <p className="text-gray-500 text-xs mb-1">{label}</p>
+      <p className={`text-xl font-mono font-semibold ${color}`}>{value}</p>
+    </div>
+  );
+}
+
+/**
+ * Best or worst day of the player
+ */
+function DayCard({ title, day, color }: { title: string; day: PlayerDayChange | null; color: string }) {
+  return (
+    <div className="flex-1 min-w-[240px] p-4 bg-gray-900/50 border border-gray-800 rounded-lg">
+      <h3 className="text-sm font-semibold text-gray-300 mb-2">{title}</h3>
+      {day ? (
+        <>
+          <p className={`text-xl font-mono font-semibold ${color}`}>
+            {day.wonChange > 0 ? '+' : ''}{formatCurrency(day.wonChange)}
+          </p>
+          <p className="text-gray-400 text-xs mt-1">
+            {formatSnapshotDate(day.date)} (since {day.sinceDate})
+          </p>
+          <p className="text-gray-500 text-xs mt-1">
+            EV {day.evWonChange > 0 ? '+' : ''}{formatCurrency(day.evWonChange)}, {formatNumber(day.handsChange)} hands
+          </p>
+        </>
+      ) : (
+        <p className="text-gray-500 text-xs">Not enough history yet</p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Decode the name route segment, keeping names that are not valid escapes as they are
+ */
+function decodeName(name: string): string {
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name;
+  }
+}
+
+export default function PlayerPage() {
+  const params = useParams<{ name: string }>();
+  const name = decodeName(params.name);
+  // Leaderboard source the profile was opened from
+  const source = useSearchParams().get('source');
+
+  const [profile, setProfile] = useState<PlayerProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notFound, setNotFound] = useState(false);
+
+  const fetchProfile = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setNotFound(false);
+
+      await retryWithBackoff(async () => {
+        const response = await fetch(withSourceParam(`/api/players/${encodeURIComponent(name)}`, source));
+
+        // Unknown players are not worth retrying
+        if (response.status === 404) {
+          setNotFound(true);
+          return;
+        }
+        if (!response.ok) {
+          throw new Error(`Failed to fetch player: ${response.status} ${response.statusText}`);
+        }
+
+        // Validate the player profile response
+        const validatedData = safeValidate(
+          PlayerProfileResponseSchema,
+          await response.json(),
+          `Player profile response from /api/players/${name}`
+        );
+
+        if (!validatedData) {
+          throw new Error('Invalid player data received from server');
+        }
+
+        setProfile(validatedData);
+      });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unexpected error occurred';
+      setError(errorMessage);
+      console.error('Error fetching player profile:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [name, source]);
+
+  useEffect(() => {
+    fetchProfile();
+  }, [fetchProfile]);
+
+  const otherNames = profile
+    ? profile.aliases.filter(alias => alias !== (profile.displayName ?? profile.name))
+    : [];
+
+  return (
+    <div className="min-h-screen bg-black text-gray-100 p-4 md:p-8">
+      <div className="max-w-5xl mx-auto">
+        <Link href={withSourceParam('/', source)} className="text-blue-400 hover:text-blue-300 text-sm transition-colors">
+          ← Back to leaderboard
+        </Link>
+
+        {loading && !profile && (
+          <div className="text-center py-12 text-gray-400">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mb-4"></div>
+            <p>Loading player...</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-6">
+            <ErrorDisplay title="Failed to Load Player" message={error} onRetry={fetchProfile} />
+          </div>
+        )}
+
+        {notFound && (
+          <div className="text-center py-12 text-gray-400">
+            <p>No history found for &quot;{name}&quot;</p>
+          </div>
+        )}
+
+        {profile && (
+          <>
+            <div className="mt-6 mb-8 border-b border-gray-800 pb-6">
+              <h1 className="text-3xl md:text-4xl font-bold flex items-center gap-3">
+                <span title={profile.countryCode ?? 'Unknown country'}>{countryCodeToFlag(profile.countryCode)}</span>
+                {profile.displayName ?? profile.name}
+              </h1>
+              {otherNames.length > 0 && (
+                <p className="text-gray-500 text-sm mt-2">Also known as {otherNames.join(', ')}</p>
+              )}
+              {profile.tags && profile.tags.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-3">
+                  {profile.tags.map(tag => (
+                    <span key={tag} className="px-2 py-0.5 rounded bg-gray-800 text-gray-300 text-xs">{tag}</span>
+                  ))}
+                </div>
+              )}
+              {profile.links && profile.links.length > 0 && (
+                <div className="flex flex-wrap gap-3 mt-3 text-sm">
+                  {profile.links.map(link => (
+                    <a
+                      key={link.url}
+                      href={link.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-400 hover:text-blue-300 transition-colors"
+                    >
+                      {link.label} ↗
+                    </a>
+                  ))}
+                </div>
+              )}
+              <p className="text-gray-400 text-sm mt-2">
+                First seen {formatSnapshotDate(profile.firstSeen)} · Last seen {formatSnapshotDate(profile.lastSeen)}
+                {' '}({profile.history.length} day{profile.history.length === 1 ? '' : 's'} on the board)
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-6">
+              <StatCard label="Rank" value={`#${profile.current.rank}`} color="text-yellow-400" />
+              <StatCard
+                label="$ EV Won"
+                value={formatCurrency(profile.current.evWon)}
+                color={profile.current.evWon >= 0 ? 'text-green-400' : 'text-red-400'}
+              />
+              <StatCard
+                label="EV BB/100"
+                value={profile.current.evBB100.toFixed(2)}
+                color={profile.current.evBB100 >= 0 ? 'text-green-400' : 'text-red-400'}
+              />
+              <StatCard
+                label="$ Won"
+                value={formatCurrency(profile.current.won)}
+                color={profile.current.won >= 0 ? 'text-green-400' : 'text-red-400'}
+              />
+              <StatCard label="Hands" value={formatNumber(profile.current.hands)} />
+            </div>
+
+            <div className="flex flex-wrap gap-4 mb-6">
+              <DayCard title="🚀 Best day" day={profile.bestDay} color="text-green-400" />
+              <DayCard title="💀 Worst day" day={profile.worstDay} color="text-red-400" />
+            </div>
+
+            <div className="mb-6">
+              <PlayerHistoryChart history={profile.history} />
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full border-collapse">
+                <thead>
+                  <tr className="border-b border-gray-800 text-sm">
+                    <th className="px-4 py-3 text-left">Date</th>
+                    <th className="px-4 py-3 text-left">Rank</th>
+                    <th className="px-4 py-3 text-right">$ EV Won</th>
+                    <th className="px-4 py-3 text-right">EV BB/100</th>
+                    <th className="px-4 py-3 text-right">$ Won</th>
+                    <th className="px-4 py-3 text-right">Hands</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...profile.history].reverse().map((point, i, newestFirst) => {
+                    const previous = newestFirst[i + 1];
+                    const rankData = previous ? getRankChangeData(previous.rank - point.rank) : null;
+                    return (
+                      <tr key={point.date} className="border-b border-gray-900 hover:bg-gray-900/50 transition-colors">
+                        <td className="px-4 py-2 text-gray-400">{point.date}</td>
+                        <td className="px-4 py-2">
+                          {point.rank}
+                          {rankData && (
+                            <span className={`${rankData.color} text-xs ml-1`} title={rankData.title}>
+                              {rankData.symbol}{rankData.value}
+                            </span>
+                          )}
+                        </td>
+                        <td className={`px-4 py-2 text-right font-mono ${point.evWon >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                          {formatCurrency(point.evWon)}
+                        </td>
+                        <td className={`px-4 py-2 text-right font-mono ${point.evBB100 >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                          {point.evBB100.toFixed(2)}
+                        </td>
+                        <td className={`px-4 py-2 text-right font-mono ${point.won >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                          {formatCurrency(point.won)}
+                        </td>
+                        <td className="px-4 py-2 text-right font-mono text-gray-400">{formatNumber(point.hands)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+'use client';
+
+/**
+ * CountryLeaderboardTable Component
+ * Displays the country leaderboard with sortable columns
+ * Clicking a country expands the list of its players
+ */
+
+import { Fragment, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { CountryLeaderboardEntry, CountrySortKey, SortDirection } from '@/lib/types';
+import { formatCurrency, formatNumber } from '@/lib/formatters';
+import { countryCodeToFlag } from '@/lib/flags';
+import { getCountryName } from '@/lib/countries';
+import { playerProfilePath } from '@/lib/source-url';
+
+interface CountryLeaderboardTableProps {
+  countries: CountryLeaderboardEntry[];
+  source?: string | null;
+}
+
+const COLUMNS: Array<{ key: CountrySortKey; label: string; align: 'left' | 'right' }> = [
+  { key: 'countryCode', label: 'Country', align: 'left' },
+  { key: 'playerCount', label: 'Players', align: 'right' },
+  { key: 'totalEvWon', label: '$ EV Won', align: 'right' },
+  { key: 'evBB100', label: 'EV BB/100', align: 'right' },
+  { key: 'totalWon', label: '$ Won', align: 'right' },
+  { key: 'totalHands', label: 'Hands', align: 'right' }
+];
+
+/**
+ * Name of a country, falling back to its code
+ */
+function countryName(countryCode: string | null): string {
+  if (countryCode === null) {
+    return 'Unknown';
+  }
+  return getCountryName(countryCode) ?? countryCode;
+}
+
+/**
+ * Green for gains, red for losses
+ */
+function moneyColor(value: number): string {
+  return value >= 0 ? 'text-green-400' : 'text-red-400';
+}
+
+/**
+ * Country leaderboard table component
+ */
+export default function CountryLeaderboardTable({ countries, source }: CountryLeaderboardTableProps) {
+  const [sortKey, setSortKey] = useState<CountrySortKey>('totalEvWon');
+  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const handleSort = (key: CountrySortKey) => {
+    if (sortKey === key) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+    } else {
+      // Names read best A to Z, totals highest first
+      setSortKey(key);
+      setSortDirection(key === 'countryCode' ? 'asc' : 'desc');
+    }
+  };
+
+  const sortedCountries = useMemo(() => {
+    const modifier = sortDirection === 'asc' ? 1 : -1;
+    return [...countries].sort((a, b) => {
+      if (sortKey === 'countryCode') {
+        // Unknown country always last
+        if (a.countryCode === null || b.countryCode === null) {
+          return a.countryCode === null ? 1 : -1;
+        }
+        return countryName(a.countryCode).localeCompare(countryName(b.countryCode)) * modifier;
+      }
+      return (a[sortKey] - b[sortKey]) * modifier;
+    });
+  }, [countries, sortKey, sortDirection]);
+
+  if (countries.length === 0) {
+    return <p className="text-center py-12 text-gray-500">No players to group by country</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full border-collapse">
+        <thead>
+          <tr className="border-b border-gray-800">
+            {COLUMNS.map(column => (
+              <th
+                key={column.key}
+                onClick={() => handleSort(column.key)}
+                className={`px-4 py-3 ${column.align === 'right' ? 'text-right' : 'text-left'} cursor-pointer hover:bg-gray-900 transition-colors`}
+              >
+                <div className={`flex items-center gap-2 ${column.align === 'right' ? 'justify-end' : ''}`}>
+                  {column.label}{' '}
+                  {sortKey !== column.key ? (
+                    <span className="text-gray-600">⇅</span>
+                  ) : (
+                    <span className="text-blue-400">{sortDirection === 'asc' ? '↑' : '↓'}</span>
+                  )}
+                </div>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {sortedCountries.map(country => {
+            const key = country.countryCode ?? 'unknown';
+            const isExpanded = expanded === key;
+            return (
+              <Fragment key={key}>
+                <tr
+                  onClick={() => setExpanded(isExpanded ? null : key)}
+                  className="border-b border-gray-900 hover:bg-gray-900/50 transition-colors cursor-pointer"
+                  title={isExpanded ? 'Hide players' : 'Show players'}
+                >
+                  <td className="px-4 py-3 font-medium">
+                    <span className="text-gray-500 text-xs mr-2">{isExpanded ? '▾' : '▸'}</span>
+                    <span className="mr-2">{countryCodeToFlag(country.countryCode)}</span>
+                    {countryName(country.countryCode)}
+                  </td>
+                  <td className="px-4 py-3 text-right font-mono">{formatNumber(country.playerCount)}</td>
+                  <td className={`px-4 py-3 text-right font-mono ${moneyColor(country.totalEvWon)}`}>
+                    {formatCurrency(country.totalEvWon)}
+                  </td>
+                  <td className={`px-4 py-3 text-right font-mono ${moneyColor(country.evBB100)}`}>
+                    {country.evBB100.toFixed(2)}
+                  </td>
+                  <td className={`px-4 py-3 text-right font-mono ${moneyColor(country.totalWon)}`}>
+                    {formatCurrency(country.totalWon)}
+                  </td>
+                  <td className="px-4 py-3 text-right font-mono text-gray-400">{formatNumber(country.totalHands)}</td>
+                </tr>
+                {isExpanded && country.players.map(player => (
+                  <tr key={player.name} className="border-b border-gray-900 bg-gray-900/30 text-sm">
+                    <td className="pl-12 pr-4 py-2">
+                      <span className="text-gray-500 mr-2">#{player.rank}</span>
+                      <Link
+                        href={playerProfilePath(player.name, source)}
+                        className="hover:text-blue-400 hover:underline transition-colors"
+                        title={player.displayName ? player.name : undefined}
+                      >
+                        {player.displayName ?? player.name}
+                      </Link>
+                    </td>
+                    <td className="px-4 py-2"></td>
+                    <td className={`px-4 py-2 text-right font-mono ${moneyColor(player.evWon)}`}>
+                      {formatCurrency(player.evWon)}
+                    </td>
+                    <td className={`px-4 py-2 text-right font-mono ${moneyColor(player.evBB100)}`}>
+                      {player.evBB100.toFixed(2)}
+                    </td>
+                    <td className={`px-4 py-2 text-right font-mono ${moneyColor(player.won)}`}>
+                      {formatCurrency(player.won)}
+                    </td>
+                    <td className="px-4 py-2 text-right font-mono text-gray-400">{formatNumber(player.hands)}</td>
+                  </tr>
+                ))}
+              </Fragment>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+'use client';
+
+/**
+ * DailyMoversPanel Component
+ * Shows the source's daily winners and losers tables side by side
+ */
+
+import { DailyMover, DailyMoversData } from '@/lib/types';
+import { formatCurrency } from '@/lib/formatters';
+
+interface DailyMoversPanelProps {
+  movers: DailyMoversData;
+  isHistoricalView: boolean;
+  limit?: number;
+}
+
+/**
+ * List of daily movers with rank, name and amount
+ */
+function MoverList({ title, entries, amountColor }: { title: string; entries: DailyMover[]; amountColor: string }) {
+  return (
+    <div className="flex-1 min-w-[240px] p-4 bg-gray-900/50 border border-gray-800 rounded-lg">
+      <h3 className="text-sm font-semibold text-gray-300 mb-3">{title}</h3>
+      {entries.length === 0 ? (
+        <p className="text-gray-500 text-xs">No entries</p>
+      ) : (
+        <ol className="space-y-1.5">
+          {entries.map((entry) => (
+            <li key={entry.name} className="flex items-center justify-between gap-3 text-sm">
+              <span className="flex items-center gap-2 min-w-0">
+                <span className="text-gray-500 w-5 text-right">{entry.rank}</span>
+                <span className="font-medium truncate">{entry.name}</span>
+              </span>
+              <span className={`font-mono ${amountColor}`}>{formatCurrency(entry.amount)}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Daily winners/losers panel
+ */
+export default function DailyMoversPanel({ movers, isHistoricalView, limit = 5 }: DailyMoversPanelProps) {
+  const heading = isHistoricalView
+    ? (() => {
+        // Parse date without timezone conversion to avoid day shifts
+        const [year, month, day] = movers.date.split('-').map(Number);
+        const displayDate = new Date(year, month - 1, day).toLocaleDateString('en-US', {
+          month: 'long',
+          day: 'numeric'
+        });
+        return `Biggest winners/losers on ${displayDate}`;
+      })()
+    : "Today's biggest winners/losers";
+
+  return (
+    <section className="mb-6" aria-label={heading}>
+      <h2 className="text-lg font-semibold text-gray-200 mb-3 flex items-center gap-2">
+        <span>🔥</span>
+        <span>{heading}</span>
+      </h2>
+      <div className="flex gap-4 flex-wrap">
+        <MoverList title="📈 Winners" entries={movers.winners.slice(0, limit)} amountColor="text-green-400" />
+        <MoverList title="📉 Losers" entries={movers.losers.slice(0, limit)} amountColor="text-red-400" />
+      </div>
+    </section>
+  );
+}
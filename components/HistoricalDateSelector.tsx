@@ -3,24 +3,35 @@
 /**
  * HistoricalDateSelector Component
  * Provides a dropdown to select and view historical snapshots of the leaderboard
+ * Dates with several intraday revisions list each revision under the date
  */
 
 import { HistoricalSnapshot } from '@/lib/types';
+import { formatWebpageTime } from '@/lib/formatters';
 
 interface HistoricalDateSelectorProps {
   availableDates: HistoricalSnapshot[];
   selectedDate: string | null;
-  onDateChange: (date: string | null) => void;
+  selectedRevision: number | null;
+  onDateChange: (date: string | null, revision?: number | null) => void;
   loading: boolean;
   isHistoricalView: boolean;
 }
 
+/**
+ * Encode a date and optional revision as a single <option> value ("2025-11-10" or "2025-11-10#2")
+ */
+function toOptionValue(date: string, revision?: number | null): string {
+  return revision === undefined || revision === null ? date : `${date}#${revision}`;
+}
+
 /**
  * Historical date selector component
  */
 export default function HistoricalDateSelector({
   availableDates,
   selectedDate,
+  selectedRevision,
   onDateChange,
   loading,
   isHistoricalView
@@ -29,12 +40,21 @@ export default function HistoricalDateSelector({
     return null;
   }
 
+  const handleChange = (value: string) => {
+    if (!value) {
+      onDateChange(null);
+      return;
+    }
+    const [date, revision] = value.split('#');
+    onDateChange(date, revision !== undefined ? parseInt(revision, 10) : null);
+  };
+
   return (
     <div className="flex gap-4 items-center flex-wrap p-4 bg-gray-900 rounded-lg border border-gray-800">
       <label className="text-gray-400 text-sm font-medium">View historical data:</label>
       <select
-        value={selectedDate || ''}
-        onChange={(e) => onDateChange(e.target.value || null)}
+        value={selectedDate ? toOptionValue(selectedDate, selectedRevision) : ''}
+        onChange={(e) => handleChange(e.target.value)}
         className="px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg text-gray-100 focus:outline-none focus:border-blue-500 transition-colors"
         disabled={loading}
       >
@@ -47,10 +67,31 @@ export default function HistoricalDateSelector({
             month: 'long',
             day: 'numeric'
           });
+
+          // Single snapshot for this date: plain option
+          if (!snapshot.revisions || snapshot.revisions.length < 2) {
+            return (
+              <option key={snapshot.date} value={snapshot.date}>
+                {displayDate}
+              </option>
+            );
+          }
+
+          // Several intraday revisions: latest of the day plus one option per revision
           return (
-            <option key={snapshot.date} value={snapshot.date}>
-              {displayDate}
-            </option>
+            <optgroup key={snapshot.date} label={displayDate}>
+              <option value={snapshot.date}>
+                {displayDate} (latest)
+              </option>
+              {[...snapshot.revisions].reverse().map((revision) => (
+                <option
+                  key={`${snapshot.date}#${revision.revision}`}
+                  value={toOptionValue(snapshot.date, revision.revision)}
+                >
+                  Update {revision.revision} · {formatWebpageTime(revision.webpageTimestamp, revision.webpageUpdatedAt)}
+                </option>
+              ))}
+            </optgroup>
           );
         })}
       </select>
@@ -3,11 +3,14 @@
 /**
  * LeaderboardTable Component
  * Displays the main poker leaderboard table with sortable columns
+ * Player names link to their profile page (/players/[name]), keeping the source
  */
 
+import Link from 'next/link';
 import { Player, SortKey, SortConfig } from '@/lib/types';
 import { formatCurrency, formatNumber, formatChangeData, getRankChangeData } from '@/lib/formatters';
 import { countryCodeToFlag } from '@/lib/flags';
+import { playerProfilePath } from '@/lib/source-url';
 
 interface LeaderboardTableProps {
   players: Player[];
@@ -15,6 +18,7 @@ interface LeaderboardTableProps {
   onSort: (key: SortKey) => void;
   showPreviousDay: boolean;
   searchTerm?: string;
+  source?: string | null;
 }
 
 /**
@@ -68,7 +72,8 @@ export default function LeaderboardTable({
   sortConfig,
   onSort,
   showPreviousDay,
-  searchTerm = ''
+  searchTerm = '',
+  source
 }: LeaderboardTableProps) {
   return (
     <>
@@ -151,11 +156,17 @@ export default function LeaderboardTable({
                       {countryCodeToFlag(player.countryCode)}
                     </span>
                   )}
-                  {player.name === 'SeaLlama' ? (
-                    <span className="text-yellow-500 font-bold">🐐 {player.name} 🐐</span>
-                  ) : (
-                    player.name
-                  )}
+                  <Link
+                    href={playerProfilePath(player.name, source)}
+                    className="hover:text-blue-400 hover:underline transition-colors"
+                    title={player.displayName ? player.name : undefined}
+                  >
+                    {player.name === 'SeaLlama' ? (
+                      <span className="text-yellow-500 font-bold">🐐 {player.displayName ?? player.name} 🐐</span>
+                    ) : (
+                      player.displayName ?? player.name
+                    )}
+                  </Link>
                 </td>
                 <td className={`px-4 py-3 text-right font-mono ${
                   player.evWon >= 0 ? 'text-green-400' : 'text-red-400'
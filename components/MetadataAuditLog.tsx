@@ -0,0 +1,73 @@
+'use client';
+
+/**
+ * MetadataAuditLog Component
+ * Lists recent player metadata changes on /admin/players: who changed which
+ * fields of which players, with the values before and after
+ */
+
+import { PlayerMetadata, PlayerMetadataAuditEntry } from '@/lib/types';
+
+interface MetadataAuditLogProps {
+  entries: PlayerMetadataAuditEntry[];
+}
+
+const FIELDS: Array<keyof PlayerMetadata> = ['countryCode', 'displayName', 'tags', 'links', 'notes', 'hidden'];
+
+/**
+ * Format a metadata value for display
+ */
+function formatValue(value: PlayerMetadata[keyof PlayerMetadata]): string {
+  if (value === undefined || value === null) {
+    return '—';
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => typeof item === 'string' ? item : `${item.label} ${item.url}`).join(', ') || '—';
+  }
+  return String(value);
+}
+
+/**
+ * Fields that differ between two versions of a player's metadata
+ */
+function changedFields(before: PlayerMetadata | null, after: PlayerMetadata) {
+  return FIELDS
+    .filter(field => JSON.stringify(before?.[field]) !== JSON.stringify(after[field]))
+    .map(field => ({ field, from: formatValue(before?.[field]), to: formatValue(after[field]) }));
+}
+
+/**
+ * Metadata audit log component
+ */
+export default function MetadataAuditLog({ entries }: MetadataAuditLogProps) {
+  if (entries.length === 0) {
+    return <p className="text-gray-500 text-sm">No changes recorded yet</p>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {entries.map(entry => (
+        <li key={entry.id} className="p-3 bg-gray-900/50 border border-gray-800 rounded-lg text-sm">
+          <p className="text-gray-400 text-xs mb-2">
+            <span className="text-gray-200 font-medium">{entry.changedBy}</span>
+            {' · '}
+            {new Date(entry.changedAt).toLocaleString()}
+          </p>
+          {Object.entries(entry.changes).map(([name, { before, after }]) => (
+            <div key={name} className="mb-1">
+              <span className="text-gray-200">{name}</span>
+              {!before && <span className="text-gray-500 text-xs ml-2">(new)</span>}
+              <ul className="ml-4 text-xs text-gray-400">
+                {changedFields(before, after).map(({ field, from, to }) => (
+                  <li key={field}>
+                    {field}: <span className="text-red-400">{from}</span> → <span className="text-green-400">{to}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </li>
+      ))}
+    </ul>
+  );
+}
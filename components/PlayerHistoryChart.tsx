@@ -0,0 +1,106 @@
+'use client';
+
+/**
+ * PlayerHistoryChart Component
+ * Line chart of one stat of a player's history, with a selector for the stat
+ */
+
+import { useState } from 'react';
+import { PlayerHistoryPoint } from '@/lib/types';
+import { formatCurrency, formatNumber } from '@/lib/formatters';
+
+type ChartMetric = 'rank' | 'evWon' | 'won' | 'hands';
+
+interface PlayerHistoryChartProps {
+  history: PlayerHistoryPoint[];
+}
+
+const METRICS: Array<{ key: ChartMetric; label: string; format: (value: number) => string }> = [
+  { key: 'rank', label: 'Rank', format: value => `#${value}` },
+  { key: 'evWon', label: '$ EV Won', format: formatCurrency },
+  { key: 'won', label: '$ Won', format: formatCurrency },
+  { key: 'hands', label: 'Hands', format: formatNumber }
+];
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = 8;
+
+/**
+ * Player history chart component
+ */
+export default function PlayerHistoryChart({ history }: PlayerHistoryChartProps) {
+  const [metric, setMetric] = useState<ChartMetric>('rank');
+  const { label, format } = METRICS.find(m => m.key === metric) ?? METRICS[0];
+
+  const values = history.map(point => point[metric]);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+
+  // Rank 1 is best, so the rank axis is drawn upside down
+  const toY = (value: number) => {
+    const ratio = (value - min) / range;
+    return PADDING + (metric === 'rank' ? ratio : 1 - ratio) * (HEIGHT - 2 * PADDING);
+  };
+  const toX = (index: number) => history.length === 1
+    ? WIDTH / 2
+    : PADDING + (index / (history.length - 1)) * (WIDTH - 2 * PADDING);
+  const points = values.map((value, i) => `${toX(i)},${toY(value)}`).join(' ');
+
+  return (
+    <div className="p-4 bg-gray-900/50 border border-gray-800 rounded-lg">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <h3 className="text-sm font-semibold text-gray-300">{label} over time</h3>
+        <div className="flex gap-1">
+          {METRICS.map(m => (
+            <button
+              key={m.key}
+              onClick={() => setMetric(m.key)}
+              className={`px-2 py-1 rounded text-xs transition-colors ${
+                m.key === metric
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+              }`}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <div className="flex flex-col justify-between text-[10px] text-gray-500 font-mono text-right min-w-[64px]">
+          <span>{format(metric === 'rank' ? min : max)}</span>
+          <span>{format(metric === 'rank' ? max : min)}</span>
+        </div>
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-48"
+          preserveAspectRatio="none"
+          role="img"
+          aria-label={`${label} from ${history[0].date} to ${history[history.length - 1].date}`}
+        >
+          <polyline
+            points={points}
+            fill="none"
+            stroke="currentColor"
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+            className="text-blue-400"
+          />
+          {history.map((point, i) => (
+            <circle key={point.date} cx={toX(i)} cy={toY(values[i])} r={3} className="fill-blue-400">
+              <title>{`${point.date}: ${format(values[i])}`}</title>
+            </circle>
+          ))}
+        </svg>
+      </div>
+
+      <div className="flex justify-between text-[10px] text-gray-500 mt-1 pl-[72px]">
+        <span>{history[0].date}</span>
+        <span>{history[history.length - 1].date}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+'use client';
+
+/**
+ * PlayerMetadataEditor Component
+ * Edits the metadata of the players selected on /admin/players. With one
+ * player selected the form shows their current values and an emptied field is
+ * cleared; with several selected only the fields that are filled in are changed.
+ * Render it with a key per selection, so the form starts over when the selection changes
+ */
+
+import { useState } from 'react';
+import { AdminPlayer, PlayerLink, PlayerMetadataPatch } from '@/lib/types';
+import { findCountry } from '@/lib/countries';
+
+interface PlayerMetadataEditorProps {
+  players: AdminPlayer[];
+  saving: boolean;
+  onSave: (changes: Record<string, PlayerMetadataPatch>) => void;
+  onCancel: () => void;
+}
+
+type HiddenChoice = 'keep' | 'hidden' | 'visible';
+
+interface EditorForm {
+  countryCode: string;
+  displayName: string;
+  tags: string;
+  links: string;
+  notes: string;
+  hidden: HiddenChoice;
+}
+
+const EMPTY_FORM: EditorForm = { countryCode: '', displayName: '', tags: '', links: '', notes: '', hidden: 'keep' };
+
+const INPUT_CLASS = 'w-full px-3 py-2 bg-gray-900 border border-gray-800 rounded-lg text-gray-100 placeholder-gray-500 focus:outline-none focus:border-blue-500 transition-colors text-sm';
+
+/**
+ * Form values showing the current metadata of one player
+ */
+function formFromPlayer(player: AdminPlayer): EditorForm {
+  const { metadata } = player;
+  return {
+    countryCode: metadata.countryCode ?? '',
+    displayName: metadata.displayName ?? '',
+    tags: (metadata.tags ?? []).join(', '),
+    links: (metadata.links ?? []).map(link => `${link.label} ${link.url}`).join('\n'),
+    notes: metadata.notes ?? '',
+    hidden: metadata.hidden ? 'hidden' : 'visible'
+  };
+}
+
+/**
+ * Parse comma separated tags
+ */
+function parseTags(value: string): string[] {
+  return value.split(',').map(tag => tag.trim()).filter(Boolean);
+}
+
+/**
+ * Parse one link per line as "<label> <url>"
+ * @throws Error for a line without a label or URL
+ */
+function parseLinks(value: string): PlayerLink[] {
+  return value.split('\n').map(line => line.trim()).filter(Boolean).map(line => {
+    const separator = line.lastIndexOf(' ');
+    if (separator <= 0) {
+      throw new Error(`Link "${line}" needs a label and a URL`);
+    }
+    return { label: line.slice(0, separator).trim(), url: line.slice(separator + 1) };
+  });
+}
+
+/**
+ * Resolve the country field to an ISO 3166-1 code; accepts codes and names ("germany" → DE)
+ * @throws Error if no country matches
+ */
+function parseCountry(value: string): string {
+  const country = findCountry(value);
+  if (!country) {
+    throw new Error(`Unknown country "${value.trim()}", enter a country code or name`);
+  }
+  return country.code;
+}
+
+/**
+ * Build the patch of one field: unchanged fields are omitted, emptied fields cleared
+ */
+function fieldPatch<T>(value: T | null, current: string, edited: string): T | null | undefined {
+  if (edited.trim() === current.trim()) {
+    return undefined;
+  }
+  return edited.trim() === '' ? null : value;
+}
+
+/**
+ * Build the changes for the selected players from the form
+ * @throws Error if a value is invalid
+ */
+function buildChanges(players: AdminPlayer[], form: EditorForm): Record<string, PlayerMetadataPatch> {
+  const countryInput = form.countryCode.trim();
+
+  if (players.length === 1) {
+    const [player] = players;
+    const current = formFromPlayer(player);
+    const patch: PlayerMetadataPatch = {
+      // Resolved only when edited, so a code stored before validation does not block other changes
+      countryCode: countryInput === current.countryCode
+        ? undefined
+        : countryInput ? parseCountry(countryInput) : null,
+      displayName: fieldPatch(form.displayName.trim(), current.displayName, form.displayName),
+      tags: fieldPatch(parseTags(form.tags), current.tags, form.tags),
+      links: fieldPatch(parseLinks(form.links), current.links, form.links),
+      notes: fieldPatch(form.notes.trim(), current.notes, form.notes),
+      hidden: form.hidden === current.hidden ? undefined : form.hidden === 'hidden' ? true : null
+    };
+    const changed = Object.fromEntries(Object.entries(patch).filter(([, value]) => value !== undefined));
+    return Object.keys(changed).length > 0 ? { [player.name]: changed } : {};
+  }
+
+  // Several players: only filled-in fields are changed
+  const patch: PlayerMetadataPatch = {};
+  if (countryInput) {
+    patch.countryCode = parseCountry(countryInput);
+  }
+  if (form.tags.trim()) {
+    patch.tags = parseTags(form.tags);
+  }
+  if (form.notes.trim()) {
+    patch.notes = form.notes.trim();
+  }
+  if (form.hidden !== 'keep') {
+    patch.hidden = form.hidden === 'hidden' ? true : null;
+  }
+  if (Object.keys(patch).length === 0) {
+    return {};
+  }
+  return Object.fromEntries(players.map(player => [player.name, patch]));
+}
+
+/**
+ * Player metadata editor component
+ */
+export default function PlayerMetadataEditor({ players, saving, onSave, onCancel }: PlayerMetadataEditorProps) {
+  const single = players.length === 1 ? players[0] : null;
+  const [form, setForm] = useState<EditorForm>(single ? formFromPlayer(single) : EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (field: keyof EditorForm) => (
+    event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
+  ) => setForm({ ...form, [field]: event.target.value });
+
+  const handleSave = () => {
+    try {
+      const changes = buildChanges(players, form);
+      if (Object.keys(changes).length === 0) {
+        setError('Nothing to change');
+        return;
+      }
+      setError(null);
+      onSave(changes);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid input');
+    }
+  };
+
+  return (
+    <div className="p-4 bg-gray-900/50 border border-gray-800 rounded-lg">
+      <h2 className="text-sm font-semibold text-gray-300 mb-1">
+        {single ? `Edit ${single.name}` : `Edit ${players.length} players`}
+      </h2>
+      <p className="text-gray-500 text-xs mb-4">
+        {single
+          ? 'Empty a field to clear it.'
+          : 'Only filled-in fields are changed; they replace the values of every selected player.'}
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <label className="text-xs text-gray-400">
+          Country (code or name)
+          <input
+            type="text"
+            placeholder={single ? 'Unknown' : 'Keep'}
+            value={form.countryCode}
+            onChange={update('countryCode')}
+            className={`${INPUT_CLASS} mt-1`}
+          />
+        </label>
+        <label className="text-xs text-gray-400">
+          Visibility
+          <select value={form.hidden} onChange={update('hidden')} className={`${INPUT_CLASS} mt-1`}>
+            {!single && <option value="keep">Keep</option>}
+            <option value="visible">Shown on the leaderboard</option>
+            <option value="hidden">Hidden from the leaderboard</option>
+          </select>
+        </label>
+        {single && (
+          <label className="text-xs text-gray-400">
+            Display name
+            <input
+              type="text"
+              placeholder={single.name}
+              value={form.displayName}
+              onChange={update('displayName')}
+              className={`${INPUT_CLASS} mt-1`}
+            />
+          </label>
+        )}
+        <label className="text-xs text-gray-400">
+          Tags (comma separated)
+          <input
+            type="text"
+            placeholder={single ? 'e.g. reg, streamer' : 'Keep'}
+            value={form.tags}
+            onChange={update('tags')}
+            className={`${INPUT_CLASS} mt-1`}
+          />
+        </label>
+        {single && (
+          <label className="text-xs text-gray-400 md:col-span-2">
+            Links (one per line: label and URL)
+            <textarea
+              rows={2}
+              placeholder="Twitch https://twitch.tv/..."
+              value={form.links}
+              onChange={update('links')}
+              className={`${INPUT_CLASS} mt-1 font-mono`}
+            />
+          </label>
+        )}
+        <label className="text-xs text-gray-400 md:col-span-2">
+          Notes
+          <textarea
+            rows={2}
+            placeholder={single ? '' : 'Keep'}
+            value={form.notes}
+            onChange={update('notes')}
+            className={`${INPUT_CLASS} mt-1`}
+          />
+        </label>
+      </div>
+
+      {error && <p className="text-red-400 text-xs mt-3">{error}</p>}
+
+      <div className="flex gap-3 mt-4">
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors font-medium text-sm disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+        <button
+          onClick={onCancel}
+          disabled={saving}
+          className="px-4 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg transition-colors text-sm"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+/**
+ * Operator alerts
+ * Logged with a 🚨 prefix and, when ALERT_WEBHOOK_URL is set, posted to a
+ * Slack-compatible webhook. Sending an alert never throws.
+ */
+
+import { ALERT_TIMEOUT } from './constants';
+
+/**
+ * Raise an alert for an operator
+ * @param title - Short summary
+ * @param details - Additional lines (optional)
+ */
+export async function sendAlert(title: string, details: string[] = []): Promise<void> {
+  const text = [`🚨 ${title}`, ...details].join('\n');
+  console.error(text);
+
+  const webhookUrl = process.env.ALERT_WEBHOOK_URL;
+  if (!webhookUrl) {
+    return;
+  }
+
+  try {
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text }),
+      signal: AbortSignal.timeout(ALERT_TIMEOUT)
+    });
+
+    if (!response.ok) {
+      console.error(`Alert webhook responded with status ${response.status}`);
+    }
+  } catch (error) {
+    console.error('Error sending alert:', error);
+  }
+}
@@ -0,0 +1,346 @@
+/**
+ * Full-history backup archives
+ * Exports every snapshot, the snapshot index, the player metadata, the
+ * player registry, the known missing dates and the archived pages as a single
+ * NDJSON archive, and restores such an archive into the configured
+ * storage backend after validating every record. Version 1 archives, which hold
+ * country mappings instead of player metadata, can still be imported, as can
+ * version 2 archives, which have no pages or known missing dates
+ */
+
+import {
+  ARCHIVE_FORMAT,
+  ARCHIVE_FORMAT_VERSION,
+  KNOWN_MISSING_BLOB_PATH,
+  SNAPSHOTS_BLOB_PREFIX,
+  SNAPSHOT_SCHEMA_VERSION
+} from './constants';
+import { getBlobStore, readJsonBlob, writeJsonBlob } from './blob-store';
+import { readLoggedDocument, replaceLoggedDocument } from './document-log';
+import { migrateSnapshotPayload } from './snapshot-migrations';
+import {
+  parseSnapshotPath,
+  parseStoredSnapshot,
+  snapshotIndexLog,
+  rebuildSnapshotIndex
+} from './snapshot-management';
+import { migrateCountryMappings, playerMetadataLog } from './player-metadata';
+import { playerRegistryLog } from './player-registry';
+import { rebuildPlayerSeries } from './player-series';
+import { parsePageArchivePath, readStoredPage } from './page-archive';
+import {
+  ArchiveRecord,
+  HistoricalSnapshot,
+  KnownMissingDates,
+  PlayerMetadataDocument,
+  PlayerRegistry,
+  SnapshotIndex,
+  StoredPage
+} from './types';
+import { ArchiveRecordSchema, HistoricalSnapshotSchema, validateOrThrow } from '@/lib/schemas';
+
+/**
+ * Result of importing (or dry-running the import of) an archive
+ */
+export interface ArchiveImportReport {
+  snapshots: number; // Valid snapshot records
+  index: boolean; // Archive contains a valid snapshot index
+  metadata: boolean; // Archive contains valid player metadata (or v1 country mappings)
+  players: boolean; // Archive contains a valid player registry
+  knownMissing: boolean; // Archive contains the known missing dates
+  pages: number; // Valid archived page records
+  existingSnapshotsNotInArchive: number; // Stored snapshots the import leaves untouched
+  skippedAtExport: string[]; // Invalid snapshots and pages the export left out
+  errors: Array<{ line: number; message: string }>;
+  written: boolean; // False for dry runs and archives with errors
+}
+
+/**
+ * Serialize an archive record as one NDJSON line
+ * @param record - Archive record
+ * @returns JSON followed by a newline
+ */
+export function toArchiveLine(record: ArchiveRecord): string {
+  return `${JSON.stringify(record)}\n`;
+}
+
+/**
+ * Produce the records of a full-history archive, in archive order
+ * Snapshots are upgraded to the current schema version; snapshots and pages
+ * that fail validation are left out and listed in the footer. Pages are kept
+ * in their stored (compressed) form
+ * @returns Async iterator of archive records (header first, footer last)
+ */
+export async function* exportArchive(): AsyncGenerator<ArchiveRecord> {
+  let recordCount = 0;
+  const skipped: string[] = [];
+
+  yield {
+    type: 'header',
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    snapshotSchemaVersion: SNAPSHOT_SCHEMA_VERSION
+  };
+  recordCount++;
+
+  // Read uncached documents with pending log entries applied
+  yield { type: 'index', index: await readLoggedDocument(snapshotIndexLog) };
+  recordCount++;
+
+  yield { type: 'metadata', players: await readLoggedDocument(playerMetadataLog) };
+  recordCount++;
+
+  yield { type: 'players', registry: await readLoggedDocument(playerRegistryLog) };
+  recordCount++;
+
+  yield { type: 'known-missing', knownMissing: await readJsonBlob<KnownMissingDates>(KNOWN_MISSING_BLOB_PATH) ?? { dates: {} } };
+  recordCount++;
+
+  const blobs = await getBlobStore().list(SNAPSHOTS_BLOB_PREFIX);
+  for (const blob of blobs) {
+    if (parsePageArchivePath(blob.pathname) !== null) {
+      const page = await readStoredPage(blob.pathname);
+      if (!page) {
+        skipped.push(blob.pathname);
+        continue;
+      }
+
+      yield { type: 'page', pathname: blob.pathname, page };
+      recordCount++;
+      continue;
+    }
+
+    if (parseSnapshotPath(blob.pathname) === null) {
+      continue;
+    }
+
+    const snapshot = parseStoredSnapshot(
+      await readJsonBlob(blob.pathname),
+      `Snapshot export for ${blob.pathname}`
+    );
+    if (!snapshot) {
+      skipped.push(blob.pathname);
+      continue;
+    }
+
+    yield { type: 'snapshot', pathname: blob.pathname, snapshot };
+    recordCount++;
+  }
+
+  yield { type: 'footer', recordCount, skipped };
+}
+
+/**
+ * Validate a snapshot record against its pathname and the snapshot schema
+ * @returns Validated snapshot (upgraded to the current schema version)
+ * @throws Error describing the first problem found
+ */
+function validateSnapshotRecord(pathname: string, payload: unknown, context: string): HistoricalSnapshot {
+  const snapshot = validateOrThrow(
+    HistoricalSnapshotSchema,
+    migrateSnapshotPayload(payload).payload,
+    context
+  );
+
+  // Daily paths hold any revision of their date, revision paths exactly one
+  const location = parseSnapshotPath(pathname);
+  if (
+    !location ||
+    location.date !== snapshot.date ||
+    (location.revision !== undefined && location.revision !== snapshot.revision)
+  ) {
+    throw new Error(`${context} - Snapshot ${snapshot.date} revision ${snapshot.revision ?? 'none'} does not match ${pathname}`);
+  }
+
+  return snapshot;
+}
+
+/**
+ * Validate an archive and restore it into the configured storage backend
+ * Nothing is written unless every record is valid and the archive is complete.
+ * Snapshots and pages in the archive overwrite stored ones at the same path, the
+ * index, player metadata, player registry and known missing dates replace the
+ * stored documents. Stored snapshots and pages that are not in the archive are kept.
+ * @param lines - Archive lines (NDJSON)
+ * @param options - dryRun validates and reports without writing
+ * @returns Import report
+ */
+export async function importArchive(
+  lines: AsyncIterable<string> | Iterable<string>,
+  options: { dryRun?: boolean } = {}
+): Promise<ArchiveImportReport> {
+  const errors: ArchiveImportReport['errors'] = [];
+  const snapshots = new Map<string, HistoricalSnapshot>();
+  const pages = new Map<string, StoredPage>();
+  let index: SnapshotIndex | null = null;
+  let metadata: PlayerMetadataDocument | null = null;
+  let registry: PlayerRegistry | null = null;
+  let knownMissing: KnownMissingDates | null = null;
+  let skippedAtExport: string[] = [];
+  let recordCount = 0;
+  let sawHeader = false;
+  let sawFooter = false;
+  let lineNumber = 0;
+
+  for await (const line of lines) {
+    lineNumber++;
+    if (line.trim() === '') {
+      continue;
+    }
+
+    const context = `Line ${lineNumber}`;
+    try {
+      if (sawFooter) {
+        throw new Error(`${context} - Unexpected record after the footer`);
+      }
+
+      const record = validateOrThrow(ArchiveRecordSchema, JSON.parse(line), context);
+
+      if (!sawHeader && record.type !== 'header') {
+        throw new Error(`${context} - Archive must start with a header record`);
+      }
+
+      switch (record.type) {
+        case 'header':
+          if (sawHeader) {
+            throw new Error(`${context} - Duplicate header record`);
+          }
+          if (record.format !== ARCHIVE_FORMAT || record.version > ARCHIVE_FORMAT_VERSION) {
+            throw new Error(`${context} - Unsupported archive format ${record.format} v${record.version}`);
+          }
+          sawHeader = true;
+          break;
+        case 'snapshot':
+          if (snapshots.has(record.pathname)) {
+            throw new Error(`${context} - Duplicate snapshot ${record.pathname}`);
+          }
+          snapshots.set(record.pathname, validateSnapshotRecord(record.pathname, record.snapshot, context));
+          break;
+        case 'index':
+          if (index) {
+            throw new Error(`${context} - Duplicate index record`);
+          }
+          index = record.index;
+          break;
+        case 'metadata':
+        case 'countries':
+          if (metadata) {
+            throw new Error(`${context} - Duplicate ${record.type} record`);
+          }
+          // Version 1 archives hold country mappings only
+          metadata = record.type === 'metadata'
+            ? record.players
+            : migrateCountryMappings(record.mappings);
+          break;
+        case 'players':
+          if (registry) {
+            throw new Error(`${context} - Duplicate players record`);
+          }
+          registry = record.registry;
+          break;
+        case 'known-missing':
+          if (knownMissing) {
+            throw new Error(`${context} - Duplicate known-missing record`);
+          }
+          knownMissing = record.knownMissing;
+          break;
+        case 'page':
+          if (pages.has(record.pathname)) {
+            throw new Error(`${context} - Duplicate page ${record.pathname}`);
+          }
+          pages.set(record.pathname, record.page);
+          break;
+        case 'footer':
+          if (record.recordCount !== recordCount) {
+            throw new Error(`${context} - Footer expects ${record.recordCount} records, found ${recordCount}`);
+          }
+          skippedAtExport = record.skipped;
+          sawFooter = true;
+          break;
+      }
+    } catch (error) {
+      errors.push({
+        line: lineNumber,
+        message: error instanceof SyntaxError
+          ? `${context} - Invalid JSON: ${error.message}`
+          : error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    if (!sawFooter) {
+      recordCount++;
+    }
+  }
+
+  if (!sawHeader) {
+    errors.push({ line: 0, message: 'Archive has no header record' });
+  } else if (!sawFooter) {
+    errors.push({ line: lineNumber, message: 'Archive has no footer record (truncated?)' });
+  }
+
+  const storedSnapshots = (await getBlobStore().list(SNAPSHOTS_BLOB_PREFIX))
+    .filter(blob => parseSnapshotPath(blob.pathname) !== null);
+  const existingSnapshotsNotInArchive = storedSnapshots
+    .filter(blob => !snapshots.has(blob.pathname)).length;
+
+  const report: ArchiveImportReport = {
+    snapshots: snapshots.size,
+    index: index !== null,
+    metadata: metadata !== null,
+    players: registry !== null,
+    knownMissing: knownMissing !== null,
+    pages: pages.size,
+    existingSnapshotsNotInArchive,
+    skippedAtExport,
+    errors,
+    written: false
+  };
+
+  if (options.dryRun || errors.length > 0) {
+    return report;
+  }
+
+  for (const [pathname, snapshot] of snapshots) {
+    await writeJsonBlob(pathname, snapshot);
+  }
+  console.log(`Restored ${snapshots.size} snapshot(s)`);
+
+  for (const [pathname, page] of pages) {
+    await writeJsonBlob(pathname, page);
+  }
+  if (pages.size > 0) {
+    console.log(`Restored ${pages.size} archived page(s)`);
+  }
+
+  if (knownMissing) {
+    await writeJsonBlob(KNOWN_MISSING_BLOB_PATH, knownMissing, { cacheControlMaxAge: 0 });
+    console.log(`Restored ${Object.keys(knownMissing.dates).length} known missing date(s)`);
+  }
+
+  if (metadata) {
+    await replaceLoggedDocument(playerMetadataLog, metadata);
+    console.log(`Restored player metadata for ${Object.keys(metadata).length} player(s)`);
+  }
+
+  if (registry) {
+    await replaceLoggedDocument(playerRegistryLog, registry);
+    console.log(`Restored player registry with ${Object.keys(registry).length} identities`);
+  }
+
+  if (index && existingSnapshotsNotInArchive === 0) {
+    await replaceLoggedDocument(snapshotIndexLog, index);
+    console.log(`Restored snapshot index with ${index.snapshots.length} date(s)`);
+  } else {
+    // The archived index would not describe every stored snapshot
+    await rebuildSnapshotIndex();
+    console.log('Rebuilt snapshot index from stored snapshots');
+  }
+
+  // Restored snapshots bypass saveSnapshot, so derive the player series afresh
+  await rebuildPlayerSeries();
+  console.log('Rebuilt player series from stored snapshots');
+
+  report.written = true;
+  return report;
+}
@@ -0,0 +1,58 @@
+/**
+ * Authorization for cron and admin API routes and the admin UI
+ */
+
+/**
+ * Check the secret sent as "Authorization: Bearer <CRON_SECRET>"
+ * Vercel Cron sends it automatically; admin tools must send it explicitly.
+ * When CRON_SECRET is not configured (local development) every request is allowed
+ * @param request - Incoming request
+ * @returns true if the request may run admin operations
+ */
+export function isAuthorizedRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return process.env.NODE_ENV !== 'production';
+  }
+  return request.headers.get('authorization') === `Bearer ${secret}`;
+}
+
+/**
+ * Moderator tokens configured as ADMIN_TOKENS="name:token,name:token"
+ * @returns Map of token to moderator name
+ */
+function getModeratorTokens(): Map<string, string> {
+  const tokens = new Map<string, string>();
+  for (const pair of (process.env.ADMIN_TOKENS ?? '').split(',')) {
+    const separator = pair.indexOf(':');
+    if (separator > 0 && separator < pair.length - 1) {
+      tokens.set(pair.slice(separator + 1).trim(), pair.slice(0, separator).trim());
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Identify the user of an admin UI request
+ * Moderators send their own token from ADMIN_TOKENS, so changes can be
+ * attributed to them; CRON_SECRET is accepted as the user "admin".
+ * Without either configured (local development) every request is "local"
+ * @param request - Incoming request
+ * @returns Name of the user, or null if the request is not authorized
+ */
+export function getAdminUser(request: Request): string | null {
+  const tokens = getModeratorTokens();
+  const authorization = request.headers.get('authorization') ?? '';
+  const token = authorization.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : null;
+
+  if (token && tokens.has(token)) {
+    return tokens.get(token) ?? null;
+  }
+  if (tokens.size === 0 && !process.env.CRON_SECRET) {
+    return process.env.NODE_ENV !== 'production' ? 'local' : null;
+  }
+  if (process.env.CRON_SECRET && token === process.env.CRON_SECRET) {
+    return 'admin';
+  }
+  return null;
+}
@@ -0,0 +1,308 @@
+/**
+ * Storage backend abstraction for snapshots, the snapshot index and player metadata
+ * Provides a Vercel Blob implementation and a local filesystem implementation
+ * so the app and scripts can run without a Blob token.
+ * Pathnames are scoped to the storage namespace of the active leaderboard source.
+ */
+
+import { put, list, del } from '@vercel/blob';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DEFAULT_LOCAL_BLOB_DIR } from './constants';
+import { getActiveSource } from './sources';
+
+/**
+ * Metadata for a single stored object
+ */
+export interface StoredBlob {
+  pathname: string; // e.g. "snapshots/2025-11-10.json"
+  size: number;
+  uploadedAt: Date;
+}
+
+/**
+ * Options for reading an object
+ */
+export interface BlobReadOptions {
+  revalidate?: number; // Next.js fetch cache lifetime in seconds (Vercel backend only)
+}
+
+/**
+ * Options for writing an object
+ */
+export interface BlobWriteOptions {
+  contentType?: string;
+  cacheControlMaxAge?: number; // CDN cache lifetime in seconds (Vercel backend only)
+}
+
+/**
+ * Minimal object storage interface used by every module that persists data
+ * Pathnames are always "/"-separated and relative to the store root
+ */
+export interface BlobStore {
+  readonly name: 'vercel' | 'local';
+  list(prefix: string): Promise<StoredBlob[]>;
+  get(pathname: string, options?: BlobReadOptions): Promise<string | null>;
+  put(pathname: string, body: string, options?: BlobWriteOptions): Promise<void>;
+  delete(pathnames: string[]): Promise<void>;
+}
+
+/**
+ * Create a store backed by Vercel Blob (requires BLOB_READ_WRITE_TOKEN)
+ * @returns BlobStore using @vercel/blob list/put/del
+ */
+export function createVercelBlobStore(): BlobStore {
+  // Look up the public URL of a single blob by its exact pathname
+  async function findBlobUrl(pathname: string): Promise<string | null> {
+    const { blobs } = await list({
+      prefix: pathname,
+      limit: 1,
+    });
+    const blob = blobs.find(b => b.pathname === pathname);
+    return blob ? blob.url : null;
+  }
+
+  return {
+    name: 'vercel',
+
+    async list(prefix) {
+      // Handle pagination for large blob lists (>1000 items)
+      const allBlobs: StoredBlob[] = [];
+      let cursor: string | undefined;
+
+      do {
+        const { blobs, cursor: nextCursor } = await list({
+          prefix,
+          limit: 1000,
+          cursor,
+        });
+
+        allBlobs.push(...blobs.map(blob => ({
+          pathname: blob.pathname,
+          size: blob.size,
+          uploadedAt: blob.uploadedAt,
+        })));
+        cursor = nextCursor;
+      } while (cursor);
+
+      return allBlobs;
+    },
+
+    async get(pathname, options = {}) {
+      const url = await findBlobUrl(pathname);
+      if (!url) {
+        return null;
+      }
+
+      const response = options.revalidate !== undefined
+        ? await fetch(url, { next: { revalidate: options.revalidate } })
+        : await fetch(url, { cache: 'no-store' });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch ${pathname}: ${response.statusText}`);
+      }
+
+      return await response.text();
+    },
+
+    async put(pathname, body, options = {}) {
+      await put(pathname, body, {
+        access: 'public',
+        addRandomSuffix: false,
+        contentType: options.contentType ?? 'application/json',
+        cacheControlMaxAge: options.cacheControlMaxAge,
+        allowOverwrite: true,
+      });
+    },
+
+    async delete(pathnames) {
+      if (pathnames.length === 0) {
+        return;
+      }
+      await del(pathnames);
+    },
+  };
+}
+
+/**
+ * Create a store backed by a directory on the local disk
+ * Used for offline development, tests and self-hosted scraping
+ * @param rootDir - Directory that holds the stored objects
+ * @returns BlobStore reading and writing plain files under rootDir
+ */
+export function createLocalBlobStore(rootDir: string): BlobStore {
+  const resolvePath = (pathname: string): string => {
+    const resolved = path.resolve(rootDir, pathname);
+    // Refuse pathnames that escape the store root (e.g. "../secrets")
+    if (resolved !== path.resolve(rootDir) && !resolved.startsWith(path.resolve(rootDir) + path.sep)) {
+      throw new Error(`Invalid pathname outside of store root: ${pathname}`);
+    }
+    return resolved;
+  };
+
+  // Recursively collect every file below dir as store pathnames
+  async function walk(dir: string): Promise<StoredBlob[]> {
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const results: StoredBlob[] = [];
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        results.push(...await walk(fullPath));
+      } else if (entry.isFile() && !entry.name.endsWith('.tmp')) {
+        const stats = await fs.stat(fullPath);
+        results.push({
+          pathname: path.relative(rootDir, fullPath).split(path.sep).join('/'),
+          size: stats.size,
+          uploadedAt: stats.mtime,
+        });
+      }
+    }
+    return results;
+  }
+
+  return {
+    name: 'local',
+
+    async list(prefix) {
+      const blobs = await walk(rootDir);
+      return blobs
+        .filter(blob => blob.pathname.startsWith(prefix))
+        .sort((a, b) => a.pathname.localeCompare(b.pathname));
+    },
+
+    async get(pathname) {
+      try {
+        return await fs.readFile(resolvePath(pathname), 'utf-8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async put(pathname, body) {
+      const filePath = resolvePath(pathname);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      // Write to a temp file and rename so readers never see a partial file
+      const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+      await fs.writeFile(tempPath, body, 'utf-8');
+      await fs.rename(tempPath, filePath);
+    },
+
+    async delete(pathnames) {
+      for (const pathname of pathnames) {
+        await fs.rm(resolvePath(pathname), { force: true });
+      }
+    },
+  };
+}
+
+/**
+ * Scope a store to a pathname prefix
+ * @param store - Underlying store
+ * @param prefix - Prefix added to every pathname, e.g. "sources/hscgwp2026/"
+ * @returns BlobStore whose pathnames are relative to the prefix
+ */
+export function createPrefixedBlobStore(store: BlobStore, prefix: string): BlobStore {
+  return {
+    name: store.name,
+
+    async list(listPrefix) {
+      const blobs = await store.list(`${prefix}${listPrefix}`);
+      return blobs.map(blob => ({ ...blob, pathname: blob.pathname.slice(prefix.length) }));
+    },
+
+    get: (pathname, options) => store.get(`${prefix}${pathname}`, options),
+    put: (pathname, body, options) => store.put(`${prefix}${pathname}`, body, options),
+    delete: pathnames => store.delete(pathnames.map(pathname => `${prefix}${pathname}`)),
+  };
+}
+
+let blobStore: BlobStore | null = null;
+const prefixedStores = new Map<string, BlobStore>();
+
+/**
+ * Get the configured storage backend, scoped to the active leaderboard source
+ * @returns Shared BlobStore instance
+ */
+export function getBlobStore(): BlobStore {
+  const { storagePrefix } = getActiveSource();
+  if (!storagePrefix) {
+    return getRootBlobStore();
+  }
+
+  let store = prefixedStores.get(storagePrefix);
+  if (!store) {
+    store = createPrefixedBlobStore(getRootBlobStore(), storagePrefix);
+    prefixedStores.set(storagePrefix, store);
+  }
+  return store;
+}
+
+/**
+ * Get the configured storage backend without source scoping
+ * BLOB_STORE_BACKEND selects "vercel" or "local"; when unset, Vercel Blob is used
+ * if BLOB_READ_WRITE_TOKEN is present and the local filesystem otherwise
+ * @returns Shared BlobStore instance
+ */
+export function getRootBlobStore(): BlobStore {
+  if (blobStore) {
+    return blobStore;
+  }
+
+  // Read at call time so scripts can load .env.local before the first access
+  const backend = process.env.BLOB_STORE_BACKEND
+    || (process.env.BLOB_READ_WRITE_TOKEN ? 'vercel' : 'local');
+
+  if (backend === 'vercel') {
+    blobStore = createVercelBlobStore();
+  } else if (backend === 'local') {
+    const rootDir = process.env.LOCAL_BLOB_DIR || DEFAULT_LOCAL_BLOB_DIR;
+    blobStore = createLocalBlobStore(path.resolve(process.cwd(), rootDir));
+  } else {
+    throw new Error(`Unknown BLOB_STORE_BACKEND "${backend}" (expected "vercel" or "local")`);
+  }
+
+  return blobStore;
+}
+
+/**
+ * Read and parse a JSON object from the configured store
+ * @param pathname - Object pathname
+ * @param options - Read options (cache lifetime)
+ * @returns Parsed JSON or null if the object does not exist
+ */
+export async function readJsonBlob<T = unknown>(
+  pathname: string,
+  options?: BlobReadOptions
+): Promise<T | null> {
+  const text = await getBlobStore().get(pathname, options);
+  return text === null ? null : JSON.parse(text) as T;
+}
+
+/**
+ * Serialize and write a JSON object to the configured store
+ * @param pathname - Object pathname
+ * @param data - Data to serialize
+ * @param options - Write options (CDN cache lifetime)
+ */
+export async function writeJsonBlob(
+  pathname: string,
+  data: unknown,
+  options: Omit<BlobWriteOptions, 'contentType'> = {}
+): Promise<void> {
+  await getBlobStore().put(pathname, JSON.stringify(data, null, 2), {
+    ...options,
+    contentType: 'application/json',
+  });
+}
@@ -24,18 +24,104 @@ export const MAX_REQUESTS_PER_WINDOW = 10;
 export const CACHE_DURATION = 60 * 5; // 5 minutes in seconds
 
 /**
- * Vercel Blob storage paths
+ * Blob storage paths (relative to the configured storage backend)
  */
-export const COUNTRIES_BLOB_PATH = 'countries.json';
+export const COUNTRIES_BLOB_PATH = 'countries.json'; // Legacy country mappings, replaced by PLAYER_METADATA_BLOB_PATH
 export const SNAPSHOTS_BLOB_PREFIX = 'snapshots/';
+export const SNAPSHOT_INDEX_BLOB_PATH = 'snapshots/index.json';
+export const DOCUMENT_LOGS_BLOB_PREFIX = 'logs/';
+export const PLAYER_SERIES_BLOB_PREFIX = 'players/series/';
+export const PLAYER_REGISTRY_BLOB_PATH = 'players/registry.json'; // Player identities and aliases (see player-registry.ts)
+export const PLAYER_METADATA_BLOB_PATH = 'players/metadata.json'; // Country, display name, tags, links (see player-metadata.ts)
+export const PLAYER_METADATA_AUDIT_BLOB_PATH = 'players/metadata-audit.json'; // Who changed player metadata (see player-admin.ts)
+export const KNOWN_MISSING_BLOB_PATH = 'snapshots/known-missing.json';
+export const SOURCES_BLOB_PREFIX = 'sources/'; // Namespaces of additional leaderboard sources
+export const TABLE_LAYOUT_BLOB_PATH = 'table-layout.json'; // Accepted leaderboard table layout (see table-layout.ts)
+export const TABLE_LAYOUT_ALERT_BLOB_PATH = 'table-layout-alert.json'; // Last layout drift alert (see table-layout.ts)
+export const SCRAPE_RUNS_BLOB_PATH = 'scrape-runs.json'; // Rolling scrape history (see scrape-log.ts)
+export const QUARANTINE_BLOB_PREFIX = 'quarantine/'; // Suspicious scrapes awaiting review (see quarantine.ts)
 
 /**
- * External data source
+ * Player time-series store (see player-series.ts)
+ * Each shard holds the series of every player whose name hashes to it, so a
+ * snapshot save costs one write per shard instead of one per player.
+ * Changing the shard count requires running scripts/rebuild-player-series.ts
+ */
+export const PLAYER_SERIES_SHARD_COUNT = 32;
+
+/**
+ * Schema version written to every stored snapshot
+ * Bump this and register a migration in snapshot-migrations.ts whenever the
+ * stored snapshot shape changes (snapshots without a version are version 1)
+ */
+export const SNAPSHOT_SCHEMA_VERSION = 4;
+
+/**
+ * Scrape history and health checks (see scrape-log.ts and /api/health)
+ * Ingestion runs hourly, so three missed runs mark the scraper unhealthy
+ */
+export const SCRAPE_LOG_MAX_RUNS = 500;
+export const HEALTH_MAX_SCRAPE_AGE = 3 * 60 * 60 * 1000; // 3 hours in milliseconds
+
+/**
+ * Player metadata admin (see player-admin.ts and /admin/players)
+ */
+export const PLAYER_METADATA_AUDIT_MAX_ENTRIES = 1000;
+export const ADMIN_PLAYERS_MAX_RESULTS = 500; // Players returned per search
+
+/**
+ * Sanity rules applied before a snapshot is saved (see quarantine.ts)
+ * Compared with the latest stored snapshot; a violated rule quarantines the scrape
+ */
+export const ANOMALY_MAX_PLAYER_DROP = 0.1; // Fraction of players that may disappear
+export const ANOMALY_MAX_TOTAL_HANDS_GROWTH = 0.5; // Fraction the sum of hands may grow by
+
+/**
+ * Backup archive format (see archive.ts)
+ */
+export const ARCHIVE_FORMAT = 'poker-table-archive';
+export const ARCHIVE_FORMAT_VERSION = 3; // Version 2 replaced the countries record with player metadata, version 3 added archived pages and known-missing dates
+
+/**
+ * Append-only log compaction
+ * Log entries are kept for at least this long after a compaction has folded them in,
+ * which must exceed the maximum duration of a single compaction run
+ */
+export const LOG_COMPACTION_GRACE_PERIOD = 10 * 60 * 1000; // 10 minutes in milliseconds
+
+/**
+ * Storage backend selection
+ * Set BLOB_STORE_BACKEND to "vercel" or "local" (defaults to "vercel" when a Blob token is set)
+ * Set LOCAL_BLOB_DIR to override where the local filesystem backend keeps its files
+ */
+export const DEFAULT_LOCAL_BLOB_DIR = '.cache/blob';
+
+/**
+ * External data source (the default leaderboard source, see sources.ts)
  */
 export const LEADERBOARD_URL = 'https://www.pokerstrategy.com/HSCGWP2025/';
 
+/**
+ * Operator alerts (see alerts.ts)
+ * Set ALERT_WEBHOOK_URL to post alerts to a Slack-compatible webhook ({ "text": "..." })
+ */
+export const ALERT_TIMEOUT = 5000; // 5 seconds, alerts must not hold up ingestion
+export const TABLE_LAYOUT_REALERT_HOURS = 24; // An unaccepted layout change is alerted again after this
+
+/**
+ * Source freshness (see webpage-time.ts)
+ * The source normally updates several times a day; older than this is reported as stale
+ */
+export const SOURCE_STALE_AFTER_HOURS = 24;
+
 /**
  * Request timeout configurations
  */
-export const TIMESTAMP_FETCH_TIMEOUT = 10000; // 10 seconds for lightweight timestamp check
 export const DATA_FETCH_TIMEOUT = 30000; // 30 seconds for full data fetch (increased for slow network conditions)
+
+/**
+ * Upstream page reuse (see upstream.ts)
+ * A page fetched this recently is served to further callers without a new request,
+ * so a timestamp check and the parse that follows it share one download
+ */
+export const UPSTREAM_REUSE_WINDOW = 10 * 1000; // 10 seconds in milliseconds
@@ -0,0 +1,85 @@
+/**
+ * Country leaderboard
+ * Groups the players of the current leaderboard or of a stored snapshot by
+ * country code and totals their stats. Snapshots get today's player metadata,
+ * so countries assigned after a snapshot was taken count for that date too
+ */
+
+import { getCachedLeaderboardData } from './data-fetcher';
+import { applyPlayerMetadata, loadPlayerMetadata } from './player-metadata';
+import { loadPlayerRegistry } from './player-registry';
+import { loadSnapshot } from './snapshot-management';
+import { getActiveSource } from './sources';
+import { CountryLeaderboard, CountryLeaderboardEntry, PlayerData } from './types';
+
+/**
+ * Total the stats of players per country
+ * Hidden players are left out, like in the player table
+ * @param players - Players with country codes merged in
+ * @returns One entry per country (unknown countries grouped under null), by total EV won, highest first
+ */
+export function aggregateCountries(players: PlayerData[]): CountryLeaderboardEntry[] {
+  const groups = new Map<string | null, PlayerData[]>();
+  for (const player of players) {
+    if (player.hidden) {
+      continue;
+    }
+    const countryCode = player.countryCode ?? null;
+    groups.set(countryCode, [...(groups.get(countryCode) ?? []), player]);
+  }
+
+  return [...groups.entries()]
+    .map(([countryCode, members]) => {
+      const totalHands = members.reduce((sum, player) => sum + player.hands, 0);
+      const weightedEvBB100 = members.reduce((sum, player) => sum + player.evBB100 * player.hands, 0);
+
+      return {
+        countryCode,
+        playerCount: members.length,
+        totalEvWon: members.reduce((sum, player) => sum + player.evWon, 0),
+        totalWon: members.reduce((sum, player) => sum + player.won, 0),
+        totalHands,
+        evBB100: totalHands > 0 ? weightedEvBB100 / totalHands : 0,
+        players: [...members]
+          .sort((a, b) => a.rank - b.rank)
+          .map(({ rank, name, displayName, evWon, evBB100, won, hands }) => ({
+            rank,
+            name,
+            ...(displayName && { displayName }),
+            evWon,
+            evBB100,
+            won,
+            hands
+          }))
+      };
+    })
+    .sort((a, b) => b.totalEvWon - a.totalEvWon);
+}
+
+/**
+ * Load the country leaderboard of the active source
+ * @param date - Snapshot date (YYYY-MM-DD), or undefined for the current leaderboard
+ * @param revision - Intraday revision of the snapshot, defaults to the latest of the day
+ * @returns Country leaderboard, or null if the snapshot does not exist
+ */
+export async function loadCountryLeaderboard(date?: string, revision?: number): Promise<CountryLeaderboard | null> {
+  if (!date) {
+    const { players } = await getCachedLeaderboardData(getActiveSource().id);
+    return { date: null, countries: aggregateCountries(players) };
+  }
+
+  const [snapshot, metadata, registry] = await Promise.all([
+    loadSnapshot(date, revision),
+    loadPlayerMetadata(),
+    loadPlayerRegistry()
+  ]);
+  if (!snapshot) {
+    return null;
+  }
+
+  return {
+    date: snapshot.date,
+    ...(snapshot.revision !== undefined && { revision: snapshot.revision }),
+    countries: aggregateCountries(applyPlayerMetadata(snapshot.players, metadata, registry))
+  };
+}
@@ -4,7 +4,16 @@
  */
 
 import * as cheerio from 'cheerio';
-import { LEADERBOARD_URL, TIMESTAMP_FETCH_TIMEOUT } from './constants';
+import { fetchUpstreamPage } from './upstream';
+import {
+  DailyMoverEntry,
+  DailyMovers,
+  LeaderboardColumnHeaders,
+  LeaderboardTableLayout,
+  ParsedLeaderboardTable,
+  PlayerData
+} from './types';
+import { DailyMoverEntrySchema, PlayerSchema } from '@/lib/schemas';
 
 /**
  * Parse the "Leaderboard last updated" timestamp from the webpage HTML
@@ -28,33 +37,6 @@ export function parseWebpageTimestamp(html: string): string | null {
   }
 }
 
-/**
- * Fetch only the timestamp from the webpage (lightweight check)
- * This is NOT cached to allow quick checks for content updates
- * @returns Webpage timestamp or null if fetch fails
- */
-export async function fetchWebpageTimestamp(): Promise<string | null> {
-  try {
-    const response = await fetch(LEADERBOARD_URL, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-      },
-      signal: AbortSignal.timeout(TIMESTAMP_FETCH_TIMEOUT),
-      cache: 'no-store' // Ensure we always get fresh timestamp
-    });
-
-    if (!response.ok) {
-      return null;
-    }
-
-    const html = await response.text();
-    return parseWebpageTimestamp(html);
-  } catch (error) {
-    console.error('Error fetching webpage timestamp:', error);
-    return null;
-  }
-}
-
 /**
  * Sanitize string input to prevent XSS and injection attacks
  * @param input - Raw string input
@@ -79,4 +61,342 @@ export function sanitizeNumber(input: string, isInteger = false): number {
   const cleaned = input.replace(/[^0-9.-]/g, '');
   const num = isInteger ? parseInt(cleaned) : parseFloat(cleaned);
   return isNaN(num) ? 0 : num;
-}
\ No newline at end of file
+}
+
+/**
+ * Fetch the full leaderboard page HTML from the source webpage
+ * @param url - Leaderboard page URL
+ * @returns Raw HTML content (see upstream.ts for request sharing)
+ * @throws Error if the request fails or the response is not a plausible page
+ */
+export async function fetchLeaderboardHtml(url: string): Promise<string> {
+  return (await fetchUpstreamPage(url)).html;
+}
+
+/**
+ * Normalize a table header label for matching and fingerprinting
+ * Lowercase, punctuation and currency symbols removed, whitespace collapsed
+ * @param label - Raw header text
+ * @returns Normalized label (e.g. "EV Won ($)" becomes "ev won")
+ */
+export function normalizeHeaderLabel(label: string): string {
+  return label
+    .toLowerCase()
+    .replace(/[^a-z0-9#%/ ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Find the header row of a table
+ * This is the first row with <th> cells. Tables without one may use <td> cells
+ * for their header: the first row counts as the header if one of its cells is
+ * an accepted label, otherwise the table has no header row
+ * @param $ - Loaded page
+ * @param table - Table element
+ * @param labelsByField - Accepted header labels per field
+ * @returns Header row, or null if the table has none
+ */
+function findHeaderRow<F extends string>(
+  $: cheerio.CheerioAPI,
+  table: Parameters<cheerio.CheerioAPI>[0],
+  labelsByField: Record<F, string[]>
+) {
+  const rows = $(table).find('tr');
+  const thRow = rows.filter((_, row) => $(row).find('th').length > 0).first();
+  if (thRow.length > 0) {
+    return thRow;
+  }
+
+  const accepted = new Set(Object.values<string[]>(labelsByField).flat().map(normalizeHeaderLabel));
+  const firstRow = rows.first();
+  const labels = firstRow.find('td').map((_, cell) => normalizeHeaderLabel($(cell).text())).get();
+  return labels.some(label => accepted.has(label)) ? firstRow : null;
+}
+
+/**
+ * Read the normalized header labels of a header row
+ * @param $ - Loaded page
+ * @param headerRow - Header row from findHeaderRow
+ * @returns Header labels in page order (empty without a header row)
+ */
+function readHeaderLabels($: cheerio.CheerioAPI, headerRow: ReturnType<typeof findHeaderRow>): string[] {
+  if (!headerRow) {
+    return [];
+  }
+  return headerRow
+    .find('th, td')
+    .map((_, cell) => normalizeHeaderLabel($(cell).text()))
+    .get();
+}
+
+/**
+ * Read the normalized header labels of a source's leaderboard table
+ * Unlike parseLeaderboardTable this never fails on renamed or removed columns,
+ * so layout drift can be detected before the columns are mapped
+ * @param html - Raw HTML content from the webpage
+ * @param layout - Table selector of the leaderboard source
+ * @returns Header labels in page order (empty if the table is missing)
+ */
+export function readLeaderboardHeaders(html: string, layout: LeaderboardTableLayout): string[] {
+  const $ = cheerio.load(html);
+  return readHeaderLabels($, findHeaderRow($, $(layout.tableSelector).first(), layout.headers));
+}
+
+/**
+ * Map each field to its cell index using the table header
+ * @param headers - Normalized header labels in page order
+ * @param labelsByField - Accepted header labels per field
+ * @param tableName - Table description for the error message
+ * @returns Cell index per field
+ * @throws Error if a field has no matching header
+ */
+function mapColumns<F extends string>(
+  headers: string[],
+  labelsByField: Record<F, string[]>,
+  tableName: string
+): Record<F, number> {
+  const fields = Object.keys(labelsByField) as F[];
+  const missing: string[] = [];
+  const columns = {} as Record<F, number>;
+
+  for (const field of fields) {
+    const labels = labelsByField[field].map(normalizeHeaderLabel);
+    const index = headers.findIndex(header => labels.includes(header));
+    if (index < 0) {
+      missing.push(field);
+    }
+    columns[field] = index;
+  }
+
+  if (missing.length > 0) {
+    throw new Error(`${tableName} has no column for ${missing.join(', ')} (headers: ${headers.join(' | ') || 'none'})`);
+  }
+  return columns;
+}
+
+/**
+ * Map each field to its cell index by position, for tables without a header row
+ * @param columnOrder - Field of each cell, in page order
+ * @returns Cell index per field
+ */
+function mapColumnsByPosition<F extends string>(columnOrder: F[]): Record<F, number> {
+  const columns = {} as Record<F, number>;
+  columnOrder.forEach((field, index) => {
+    columns[field] = index;
+  });
+  return columns;
+}
+
+/**
+ * Parse player rows from a leaderboard table
+ * Columns are located by their header labels, so reordered or added columns
+ * are handled; the rank is read from the rank cell (tied players share a rank).
+ * A table without a header row is read by the layout's column order
+ * @param html - Raw HTML content from the webpage
+ * @param layout - Table selector and header labels of the leaderboard source
+ * @returns Normalized header labels, validated player data (without country codes or change indicators),
+ *          the number of rows rejected by validation and the ranks of all skipped rows
+ * @throws Error if a column is missing or no player rows could be parsed
+ */
+export function parseLeaderboardTable(html: string, layout: LeaderboardTableLayout): ParsedLeaderboardTable {
+  const $ = cheerio.load(html);
+
+  // Find the table and parse rows
+  // We use .first() to ensure we only get the main leaderboard table,
+  // avoiding other tables (like daily winners/losers) that use the same class
+  const table = $(layout.tableSelector).first();
+  const headerRow = findHeaderRow($, table, layout.headers);
+  const headers = readHeaderLabels($, headerRow);
+
+  let columns: Record<keyof LeaderboardColumnHeaders, number>;
+  if (!headerRow && layout.columnOrder) {
+    console.warn('Leaderboard table has no header row, mapping columns by position');
+    columns = mapColumnsByPosition(layout.columnOrder);
+  } else {
+    columns = mapColumns(headers, layout.headers, 'Leaderboard table');
+  }
+  const minCells = Math.max(...Object.values(columns)) + 1;
+
+  const players: PlayerData[] = [];
+  let previousRank = 0;
+  let rejectedRows = 0;
+  const skippedRanks: number[] = [];
+
+  // Split a cell into its value and the daily change the source shows next to it,
+  // either as a superscript or as plain text appended to the value
+  const readValueAndDelta = (cell: Parameters<typeof $>[0]) => {
+    const parts = $(cell).clone().find('sup').remove().end().text().trim().split(/\s+/);
+    const deltaText = $(cell).find('sup').text().trim() || parts[1] || '';
+    return {
+      value: parts[0],
+      delta: /\d/.test(deltaText) ? deltaText : null
+    };
+  };
+
+  // A header row of <td> cells sits in the body with the players
+  table.find('tbody tr').filter((_, row) => row !== headerRow?.get(0)).each((index, element) => {
+    const cells = $(element).find('td');
+    if (cells.length >= minCells) {
+      const nameRaw = $(cells[columns.name]).text().trim();
+
+      // Extract values, keeping the daily changes of EV Won and Hands separately
+      const rankText = $(cells[columns.rank]).clone().find('sup').remove().end().text().trim();
+      const evWonCell = readValueAndDelta(cells[columns.evWon]);
+      const evBB100Text = $(cells[columns.evBB100]).text().trim();
+      const wonText = $(cells[columns.won]).text().trim();
+      const handsCell = readValueAndDelta(cells[columns.hands]);
+
+      // Sanitize and validate inputs
+      const name = sanitizeString(nameRaw);
+
+      // An empty rank cell continues a tie with the row above
+      const rank = sanitizeNumber(rankText, true) || previousRank;
+      
+      // Skip if essential fields are empty or invalid
+      if (!name || name.length < 1) {
+        skippedRanks.push(rank);
+        return; // continue to next iteration
+      }
+
+      const evWon = sanitizeNumber(evWonCell.value);
+      const evBB100 = sanitizeNumber(evBB100Text);
+      const won = sanitizeNumber(wonText);
+      const hands = sanitizeNumber(handsCell.value, true);
+
+      // Additional validation
+      if (hands < 0 || hands > 1000000000) {
+        rejectedRows++;
+        skippedRanks.push(rank);
+        return; // Skip invalid hand counts
+      }
+
+      const playerData = {
+        rank: rank,
+        name: name,
+        evWon: evWon,
+        evBB100: evBB100,
+        won: won,
+        hands: hands,
+        ...(evWonCell.delta !== null && { sourceEvWonChange: sanitizeNumber(evWonCell.delta) }),
+        ...(handsCell.delta !== null && { sourceHandsChange: sanitizeNumber(handsCell.delta, true) })
+      };
+
+      // Validate player data before adding
+      const validatedPlayer = PlayerSchema.safeParse(playerData);
+      if (validatedPlayer.success) {
+        players.push(validatedPlayer.data);
+        previousRank = validatedPlayer.data.rank;
+      } else {
+        rejectedRows++;
+        skippedRanks.push(rank);
+        console.warn(`Skipping invalid player data in row ${index + 1}:`, validatedPlayer.error.issues);
+      }
+    }
+  });
+
+  // Validate we got reasonable data
+  if (players.length === 0) {
+    throw new Error('No player data found in response');
+  }
+
+  return { headers, players, rejectedRows, skippedRanks };
+}
+
+/**
+ * Decide whether a daily table lists winners or losers
+ * Checks the caption, the nearest preceding heading and the header row, in that order
+ * @param $ - Loaded page
+ * @param table - Table element
+ * @returns "winners", "losers" or null if the table cannot be classified
+ */
+function classifyDailyTable(
+  $: cheerio.CheerioAPI,
+  table: Parameters<cheerio.CheerioAPI>[0]
+): keyof DailyMovers | null {
+  const headings = 'h1, h2, h3, h4, h5, h6';
+  const candidates = [
+    $(table).find('caption').text(),
+    $(table).prevAll(headings).first().text(),
+    $(table).parent().prevAll(headings).first().text(),
+    $(table).find('tr').first().text()
+  ];
+
+  for (const text of candidates) {
+    if (/winner/i.test(text)) return 'winners';
+    if (/loser/i.test(text)) return 'losers';
+  }
+  return null;
+}
+
+/**
+ * Parse the daily winners/losers tables that follow the main leaderboard table
+ * These tables are informational: unreadable ones are skipped with a warning
+ * @param html - Raw HTML content from the webpage
+ * @param layout - Table layout of the leaderboard source
+ * @returns Daily winners and losers, or null if the page has no such tables
+ */
+export function parseDailyMovers(html: string, layout: LeaderboardTableLayout): DailyMovers | null {
+  const dailyLayout = layout.dailyMovers;
+  if (!dailyLayout) {
+    return null;
+  }
+
+  const $ = cheerio.load(html);
+  const mainTable = $(layout.tableSelector).get(0);
+  const movers: DailyMovers = { winners: [], losers: [] };
+  let found = false;
+
+  $(dailyLayout.tableSelector).each((_, table) => {
+    if (table === mainTable) {
+      return;
+    }
+
+    const kind = classifyDailyTable($, table);
+    if (!kind) {
+      return; // Some other table
+    }
+
+    const headerRow = findHeaderRow($, table, dailyLayout.headers);
+    let columns: Record<keyof DailyMoverEntry, number>;
+    try {
+      columns = mapColumns(readHeaderLabels($, headerRow), dailyLayout.headers, `Daily ${kind} table`);
+    } catch (error) {
+      console.warn('Skipping daily table:', error instanceof Error ? error.message : error);
+      return;
+    }
+
+    found = true;
+    const minCells = Math.max(...Object.values(columns)) + 1;
+    let previousRank = 0;
+
+    $(table).find('tbody tr').filter((_, row) => row !== headerRow?.get(0)).each((index, row) => {
+      const cells = $(row).find('td');
+      if (cells.length < minCells) {
+        return;
+      }
+
+      const name = sanitizeString($(cells[columns.name]).text());
+      if (!name) {
+        return;
+      }
+
+      // Amounts may carry a superscript or appended delta like the main table
+      const amountText = $(cells[columns.amount]).clone().find('sup').remove().end().text().trim().split(/\s+/)[0];
+      const entry = DailyMoverEntrySchema.safeParse({
+        rank: sanitizeNumber($(cells[columns.rank]).text(), true) || previousRank || index + 1,
+        name,
+        amount: sanitizeNumber(amountText)
+      });
+
+      if (entry.success) {
+        movers[kind].push(entry.data);
+        previousRank = entry.data.rank;
+      } else {
+        console.warn(`Skipping invalid daily ${kind} row ${index + 1}:`, entry.error.issues);
+      }
+    });
+  });
+
+  return found ? movers : null;
+}
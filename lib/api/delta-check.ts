@@ -0,0 +1,67 @@
+/**
+ * Cross-check of the source's own daily changes
+ * The leaderboard shows each player's daily EV Won and Hands change as a
+ * superscript. Comparing them with our own difference to the previous stored
+ * snapshot reveals missed or misdated snapshots: if the comparison snapshot is
+ * not really the source's previous day, most players disagree.
+ */
+
+import { calculateChanges } from './snapshot-management';
+import { DeltaCheck, DeltaDiscrepancy, HistoricalSnapshot, PlayerData, PlayerRegistry } from './types';
+
+// EV Won is shown with two decimals, anything below a cent is rounding
+const EV_WON_TOLERANCE = 0.01;
+
+/**
+ * Compare source-reported daily changes with the changes since a stored snapshot
+ * @param players - Players with source-reported changes (as parsed)
+ * @param previousSnapshot - Comparison snapshot (usually the previous day)
+ * @param registry - Player registry for matching renamed players
+ * @returns Number of players checked and every disagreeing change
+ */
+export function crossCheckDeltas(
+  players: PlayerData[],
+  previousSnapshot: HistoricalSnapshot | null,
+  registry: PlayerRegistry | null = null
+): DeltaCheck {
+  const discrepancies: DeltaDiscrepancy[] = [];
+  let checkedPlayers = 0;
+
+  for (const player of calculateChanges(players, previousSnapshot, registry)) {
+    let checked = false;
+
+    if (player.sourceEvWonChange !== undefined && player.evWonChange !== undefined) {
+      checked = true;
+      if (Math.abs(player.sourceEvWonChange - player.evWonChange) >= EV_WON_TOLERANCE) {
+        discrepancies.push({
+          name: player.name,
+          field: 'evWon',
+          sourceChange: player.sourceEvWonChange,
+          calculatedChange: Math.round(player.evWonChange * 100) / 100
+        });
+      }
+    }
+
+    if (player.sourceHandsChange !== undefined && player.handsChange !== undefined) {
+      checked = true;
+      if (player.sourceHandsChange !== player.handsChange) {
+        discrepancies.push({
+          name: player.name,
+          field: 'hands',
+          sourceChange: player.sourceHandsChange,
+          calculatedChange: player.handsChange
+        });
+      }
+    }
+
+    if (checked) {
+      checkedPlayers++;
+    }
+  }
+
+  return {
+    comparedWith: previousSnapshot?.date ?? null,
+    checkedPlayers,
+    discrepancies
+  };
+}
@@ -0,0 +1,184 @@
+/**
+ * Append-only change logs for shared JSON documents
+ * Used for the snapshot index, player registry and player metadata, which are updated by
+ * concurrent serverless invocations. Blob storage has no conditional writes,
+ * so instead of read-modify-write of a single blob every change is written as
+ * its own uniquely named log entry and later compacted into the document.
+ *
+ * Readers see the compacted document with all pending entries replayed on top,
+ * so no entry is lost even when two writers or two compactions race.
+ */
+
+import { randomUUID } from 'crypto';
+import { getBlobStore, readJsonBlob, writeJsonBlob, BlobReadOptions } from './blob-store';
+import { DOCUMENT_LOGS_BLOB_PREFIX, LOG_COMPACTION_GRACE_PERIOD } from './constants';
+
+/**
+ * Definition of a log-backed JSON document
+ * applyEntry is replayed in log order and must be deterministic; replaying an
+ * entry that is already reflected in the document must not change the result
+ */
+export interface DocumentLog<TDocument, TEntry> {
+  name: string; // Log directory name, e.g. "snapshot-index"
+  documentPath: string; // Compacted document, e.g. "snapshots/index.json"
+  emptyDocument: () => TDocument;
+  applyEntry: (document: TDocument, entry: TEntry) => TDocument;
+}
+
+/**
+ * A single stored log entry
+ */
+interface LogEntryRecord<TEntry> {
+  pathname: string;
+  writtenAt: number; // Milliseconds since epoch, encoded in the pathname
+  entry: TEntry;
+}
+
+/**
+ * Compaction bookkeeping stored next to the log
+ */
+interface CompactionState {
+  compactedThrough: number; // Listing time of the last compaction (ms since epoch)
+}
+
+const getLogPrefix = (logName: string) => `${DOCUMENT_LOGS_BLOB_PREFIX}${logName}/`;
+const getStatePath = (logName: string) => `${DOCUMENT_LOGS_BLOB_PREFIX}${logName}.compaction.json`;
+
+/**
+ * Parse the write time out of a log entry pathname ("<ms>-<random>.json")
+ */
+function parseWrittenAt(pathname: string): number | null {
+  const match = pathname.match(/\/(\d{13,})-[0-9a-f]+\.json$/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * List all pending log entries, oldest first (without reading their content)
+ */
+async function listLogEntries<TDocument, TEntry>(
+  log: DocumentLog<TDocument, TEntry>
+): Promise<Array<{ pathname: string; writtenAt: number }>> {
+  const blobs = await getBlobStore().list(getLogPrefix(log.name));
+
+  return blobs
+    .map(blob => ({ pathname: blob.pathname, writtenAt: parseWrittenAt(blob.pathname) }))
+    .filter((entry): entry is { pathname: string; writtenAt: number } => entry.writtenAt !== null)
+    .sort((a, b) => a.pathname.localeCompare(b.pathname));
+}
+
+/**
+ * Read the content of pending log entries, skipping entries that vanished
+ * (deleted by a concurrent compaction after they were listed)
+ */
+async function readLogEntries<TEntry>(
+  listed: Array<{ pathname: string; writtenAt: number }>,
+  options?: BlobReadOptions
+): Promise<LogEntryRecord<TEntry>[]> {
+  const records: LogEntryRecord<TEntry>[] = [];
+  for (const { pathname, writtenAt } of listed) {
+    const entry = await readJsonBlob<TEntry>(pathname, options);
+    if (entry !== null) {
+      records.push({ pathname, writtenAt, entry });
+    }
+  }
+  return records;
+}
+
+/**
+ * Append a change to a document log
+ * Every entry gets a unique pathname, so concurrent writers never overwrite each other
+ * @param log - Document log definition
+ * @param entry - Change to record
+ */
+export async function appendLogEntry<TDocument, TEntry>(
+  log: DocumentLog<TDocument, TEntry>,
+  entry: TEntry
+): Promise<void> {
+  const writtenAt = Date.now().toString().padStart(13, '0');
+  const pathname = `${getLogPrefix(log.name)}${writtenAt}-${randomUUID().replace(/-/g, '').slice(0, 12)}.json`;
+  await writeJsonBlob(pathname, entry, { cacheControlMaxAge: 0 });
+}
+
+/**
+ * Read a document with all pending log entries applied
+ * @param log - Document log definition
+ * @param options - Read options for the compacted document (log entries are immutable)
+ * @returns The up-to-date document
+ * @throws Error if the document or a log entry cannot be read
+ */
+export async function readLoggedDocument<TDocument, TEntry>(
+  log: DocumentLog<TDocument, TEntry>,
+  options?: BlobReadOptions
+): Promise<TDocument> {
+  const base = await readJsonBlob<TDocument>(log.documentPath, options) ?? log.emptyDocument();
+  const records = await readLogEntries<TEntry>(await listLogEntries(log), options);
+
+  return records.reduce((document, record) => log.applyEntry(document, record.entry), base);
+}
+
+/**
+ * Fold pending log entries into the compacted document
+ *
+ * Entries are only deleted once they are older than the previous compaction's
+ * listing time minus LOG_COMPACTION_GRACE_PERIOD. Any compaction still in flight
+ * listed its entries after that point, so even if it overwrites the document
+ * with an older view, everything it missed is still in the log.
+ * Assumes a single compaction finishes within the grace period.
+ *
+ * @param log - Document log definition
+ * @returns Number of entries applied and deleted
+ */
+export async function compactDocumentLog<TDocument, TEntry>(
+  log: DocumentLog<TDocument, TEntry>
+): Promise<{ applied: number; deleted: number }> {
+  const statePath = getStatePath(log.name);
+  const previousState = await readJsonBlob<CompactionState>(statePath);
+
+  const listedAt = Date.now();
+  const listed = await listLogEntries(log);
+  if (listed.length === 0) {
+    return { applied: 0, deleted: 0 };
+  }
+
+  const base = await readJsonBlob<TDocument>(log.documentPath) ?? log.emptyDocument();
+  const records = await readLogEntries<TEntry>(listed);
+  const document = records.reduce((current, record) => log.applyEntry(current, record.entry), base);
+
+  // Document first, then the watermark describing it
+  await writeJsonBlob(log.documentPath, document, { cacheControlMaxAge: 0 });
+  await writeJsonBlob(statePath, { compactedThrough: listedAt } satisfies CompactionState, { cacheControlMaxAge: 0 });
+
+  const deletable = previousState
+    ? listed.filter(entry => entry.writtenAt <= previousState.compactedThrough - LOG_COMPACTION_GRACE_PERIOD)
+    : [];
+  await getBlobStore().delete(deletable.map(entry => entry.pathname));
+
+  console.log(`Compacted ${log.name}: applied ${records.length} entries, deleted ${deletable.length}`);
+  return { applied: records.length, deleted: deletable.length };
+}
+
+/**
+ * Replace a document wholesale, discarding all pending log entries
+ * Used when restoring a backup; changes appended while this runs may be lost
+ * @param log - Document log definition
+ * @param document - New compacted document
+ */
+export async function replaceLoggedDocument<TDocument, TEntry>(
+  log: DocumentLog<TDocument, TEntry>,
+  document: TDocument
+): Promise<void> {
+  const listed = await listLogEntries(log);
+  await writeJsonBlob(log.documentPath, document, { cacheControlMaxAge: 0 });
+  await getBlobStore().delete([...listed.map(entry => entry.pathname), getStatePath(log.name)]);
+}
+
+/**
+ * Count pending (not yet deleted) log entries, for diagnostics
+ * @param log - Document log definition
+ * @returns Number of entries in the log
+ */
+export async function countLogEntries<TDocument, TEntry>(
+  log: DocumentLog<TDocument, TEntry>
+): Promise<number> {
+  return (await listLogEntries(log)).length;
+}
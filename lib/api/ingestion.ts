@@ -0,0 +1,173 @@
+/**
+ * Scheduled ingestion for the leaderboard
+ * Scrapes the source page, registers new players and writes a snapshot revision/index
+ * whenever the source webpage timestamp changes. Nothing is written while the
+ * table layout differs from the accepted one (see table-layout.ts).
+ * Every attempt, including failed ones, is recorded in the scrape history (see scrape-log.ts).
+ * Runs from the cron route (/api/ingest) and the CLI (scripts/ingest.ts),
+ * so it must not depend on Next.js request-time APIs.
+ */
+
+import { fetchUpstreamPage, getLastHttpStatus } from './upstream';
+import { mergeCountryCodes, compactPlayerMetadata } from './player-metadata';
+import { registerPlayerNames, compactPlayerRegistry } from './player-registry';
+import { getTodayDate, loadPreviousDaySnapshot, recordSnapshotRevision, compactSnapshotIndex } from './snapshot-management';
+import { crossCheckDeltas } from './delta-check';
+import { LeaderboardSource, getActiveSource, withLeaderboardSource } from './sources';
+import { acceptLayout, checkTableLayout, claimLayoutAlert } from './table-layout';
+import { sendAlert } from './alerts';
+import { getSourceAgeHours, isSourceStale, parseWebpageInstant } from './webpage-time';
+import { recordScrapeRun } from './scrape-log';
+import { ScrapeRun } from './types';
+
+/**
+ * What an ingestion run learned before it finished or failed, for the scrape history
+ */
+type ScrapeProgress = Pick<ScrapeRun, 'httpStatus' | 'playerCount' | 'rejectedRows'>;
+
+/**
+ * Result of a single ingestion run
+ */
+export interface IngestionResult {
+  source: string; // Leaderboard source id
+  status: 'saved' | 'unchanged' | 'quarantined' | 'failed';
+  date: string; // YYYY-MM-DD (UTC)
+  revision: number; // Revision written, or the latest stored revision when unchanged or quarantined
+  quarantineId?: string; // Set when the scrape failed the sanity rules (see quarantine.ts)
+  webpageTimestamp: string;
+  webpageUpdatedAt: string | null; // webpageTimestamp as an ISO instant (null if not recognized)
+  sourceAgeHours: number | null; // Hours since the source was updated
+  playerCount: number;
+  rejectedRows: number; // Table rows skipped by validation
+  newPlayers: string[];
+  deltaDiscrepancies: number; // Source-reported daily changes that disagree with the previous snapshot
+  durationMs: number;
+}
+
+/**
+ * Scrape a leaderboard and persist a new snapshot revision if the source was updated
+ * @param source - Leaderboard source, defaults to the active source
+ * @returns Summary of what was written
+ * @throws Error if the source page cannot be fetched or parsed, or its table layout changed
+ */
+export async function runIngestion(source: LeaderboardSource = getActiveSource()): Promise<IngestionResult> {
+  return withLeaderboardSource(source, async () => {
+    const startedAt = new Date();
+    const progress: ScrapeProgress = { httpStatus: null, playerCount: 0, rejectedRows: 0 };
+
+    try {
+      const result = await ingestSource(source, progress);
+      await recordScrapeRun({
+        startedAt: startedAt.toISOString(),
+        durationMs: result.durationMs,
+        status: result.status,
+        revision: result.revision,
+        ...progress
+      });
+      return result;
+    } catch (error) {
+      await recordScrapeRun({
+        startedAt: startedAt.toISOString(),
+        durationMs: Date.now() - startedAt.getTime(),
+        status: 'failed',
+        ...progress,
+        httpStatus: progress.httpStatus ?? getLastHttpStatus(source.url),
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  });
+}
+
+/**
+ * Ingest one source; storage access is scoped to it by runIngestion
+ * @param progress - Filled in as the run proceeds, so failed runs are recorded with what was known
+ */
+async function ingestSource(source: LeaderboardSource, progress: ScrapeProgress): Promise<IngestionResult> {
+  const startedAt = Date.now();
+
+  const page = await fetchUpstreamPage(source.url);
+  progress.httpStatus = page.httpStatus;
+
+  const html = page.html;
+  const parsedTimestamp = source.parseTimestamp(html);
+  const webpageTimestamp = parsedTimestamp || new Date().toISOString();
+
+  // Without a recognized page timestamp, freshness and ordering are unknown
+  const webpageUpdatedAt = parsedTimestamp ? parseWebpageInstant(parsedTimestamp, new Date()) : null;
+  const sourceAgeHours = getSourceAgeHours(webpageUpdatedAt);
+  if (!webpageUpdatedAt) {
+    console.warn(`⚠️ ${source.id}: webpage timestamp "${parsedTimestamp ?? ''}" not recognized, revisions are compared by text`);
+  } else if (isSourceStale(sourceAgeHours)) {
+    console.warn(`⚠️ ${source.id}: source is ${sourceAgeHours} hours stale (last updated ${webpageUpdatedAt})`);
+  }
+
+  // Refuse to store rows from a table whose header set changed. Checked on the
+  // header labels before columns are mapped, since mapping fails on renamed columns
+  const headers = source.readTableHeaders(html);
+  const layoutCheck = await checkTableLayout(headers);
+  if (layoutCheck.status === 'changed') {
+    if (await claimLayoutAlert(layoutCheck)) {
+      await sendAlert(`Leaderboard table layout changed for ${source.id}, snapshot not saved`, [
+        `Accepted: ${layoutCheck.accepted?.fingerprint} (${layoutCheck.accepted?.headers.join(' | ')})`,
+        `Current: ${layoutCheck.fingerprint} (${headers.join(' | ')})`,
+        `Added: ${layoutCheck.added.join(', ') || 'none'}; removed: ${layoutCheck.removed.join(', ') || 'none'}`,
+        'Check the column mapping, then run: npx tsx scripts/table-layout.ts accept'
+      ]);
+    }
+    throw new Error(`Table layout changed (${layoutCheck.accepted?.fingerprint} -> ${layoutCheck.fingerprint})`);
+  }
+
+  const { players, rejectedRows, skippedRanks } = source.parseTable(html);
+  progress.playerCount = players.length;
+  progress.rejectedRows = rejectedRows;
+
+  // The first layout is recorded once its columns are known to map
+  if (layoutCheck.status === 'unrecorded') {
+    await acceptLayout(headers);
+    console.log(`📐 Recorded table layout ${layoutCheck.fingerprint} for ${source.id}`);
+  }
+
+  // Register new names in the player registry and player metadata before snapshotting
+  const { registry } = await registerPlayerNames(players.map(p => p.name));
+  const { newPlayers } = await mergeCountryCodes(players, registry);
+
+  // Compare the source's own daily changes with the previous stored day
+  const deltaCheck = crossCheckDeltas(players, await loadPreviousDaySnapshot(), registry);
+  if (deltaCheck.discrepancies.length > 0) {
+    console.warn(`⚠️ ${source.id}: ${deltaCheck.discrepancies.length} source-reported change(s) disagree with the snapshot of ${deltaCheck.comparedWith} (${deltaCheck.checkedPlayers} players checked)`);
+    deltaCheck.discrepancies.slice(0, 10).forEach(d => {
+      console.warn(`   ${d.name} ${d.field}: source ${d.sourceChange}, calculated ${d.calculatedChange}`);
+    });
+  }
+
+  const dailyMovers = source.parseDailyMovers(html);
+
+  const { status, revision, quarantineId } = await recordSnapshotRevision(players, webpageTimestamp, {
+    webpageUpdatedAt,
+    skippedRanks,
+    ...(deltaCheck.checkedPlayers > 0 && { deltaCheck }),
+    ...(dailyMovers && { dailyMovers })
+  }, { url: source.url, html });
+
+  // Fold the index, player metadata and player registry change logs into their JSON documents
+  await compactSnapshotIndex();
+  await compactPlayerMetadata();
+  await compactPlayerRegistry();
+
+  return {
+    source: source.id,
+    status,
+    date: getTodayDate(),
+    revision,
+    ...(quarantineId && { quarantineId }),
+    webpageTimestamp,
+    webpageUpdatedAt,
+    sourceAgeHours,
+    playerCount: players.length,
+    rejectedRows,
+    newPlayers,
+    deltaDiscrepancies: deltaCheck.discrepancies.length,
+    durationMs: Date.now() - startedAt
+  };
+}
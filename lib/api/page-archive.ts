@@ -0,0 +1,117 @@
+/**
+ * Raw page archive
+ * Every page a snapshot revision was parsed from is kept next to it as
+ * snapshots/YYYY-MM-DD/NNN.page.json (gzip-compressed, base64-encoded HTML),
+ * so history can be re-parsed after a parser fix (see reprocess.ts).
+ * The pathname does not match parseSnapshotPath, so snapshot listings skip it.
+ */
+
+import { gunzipSync, gzipSync } from 'zlib';
+import { SNAPSHOTS_BLOB_PREFIX } from './constants';
+import { getBlobStore, readJsonBlob, writeJsonBlob } from './blob-store';
+import { ArchivedPage, StoredPage } from './types';
+import { StoredPageSchema, safeValidate } from '@/lib/schemas';
+
+/**
+ * Get the archive pathname of the page of a snapshot revision
+ * @param date - Date string in YYYY-MM-DD format
+ * @param revision - Intraday revision number
+ * @returns Blob pathname, e.g. "snapshots/2025-11-10/003.page.json"
+ */
+export function getPageArchivePath(date: string, revision: number): string {
+  return `${SNAPSHOTS_BLOB_PREFIX}${date}/${String(revision).padStart(3, '0')}.page.json`;
+}
+
+/**
+ * Parse a page archive pathname back into its date and revision
+ * @param pathname - Blob pathname
+ * @returns Date and revision, or null if the pathname is not a page archive
+ */
+export function parsePageArchivePath(pathname: string): { date: string; revision: number } | null {
+  const match = pathname.match(/^snapshots\/(\d{4}-\d{2}-\d{2})\/(\d+)\.page\.json$/);
+  return match ? { date: match[1], revision: parseInt(match[2], 10) } : null;
+}
+
+/**
+ * Compress and write a page
+ * @param pathname - Blob pathname
+ * @param page - Page to store
+ */
+export async function writePage(pathname: string, page: ArchivedPage): Promise<void> {
+  const stored: StoredPage = {
+    url: page.url,
+    capturedAt: page.capturedAt,
+    encoding: 'gzip-base64',
+    content: gzipSync(page.html).toString('base64')
+  };
+  await writeJsonBlob(pathname, stored);
+}
+
+/**
+ * Read a page in its stored (compressed) form
+ * @param pathname - Blob pathname
+ * @returns The stored page, or null if it does not exist or is invalid
+ */
+export async function readStoredPage(pathname: string): Promise<StoredPage | null> {
+  const data = await readJsonBlob(pathname);
+  return data === null ? null : safeValidate(StoredPageSchema, data, `Page archive ${pathname}`);
+}
+
+/**
+ * Read and decompress a page
+ * @param pathname - Blob pathname
+ * @returns The page, or null if it does not exist or is invalid
+ */
+export async function readPage(pathname: string): Promise<ArchivedPage | null> {
+  const stored = await readStoredPage(pathname);
+  if (!stored) {
+    return null;
+  }
+
+  return {
+    url: stored.url,
+    capturedAt: stored.capturedAt,
+    html: gunzipSync(Buffer.from(stored.content, 'base64')).toString('utf-8')
+  };
+}
+
+/**
+ * Archive the page a snapshot revision was parsed from
+ * Failing to archive must not fail the save, so errors are only logged
+ * @param date - Snapshot date
+ * @param revision - Snapshot revision
+ * @param page - Downloaded page
+ */
+export async function archivePage(date: string, revision: number, page: ArchivedPage): Promise<void> {
+  try {
+    await writePage(getPageArchivePath(date, revision), page);
+  } catch (error) {
+    console.error(`Error archiving page of ${date} revision ${revision}:`, error);
+  }
+}
+
+/**
+ * Load the archived page of a snapshot revision
+ * @param date - Snapshot date
+ * @param revision - Snapshot revision
+ * @returns The page, or null if none was archived
+ */
+export async function loadArchivedPage(date: string, revision: number): Promise<ArchivedPage | null> {
+  return readPage(getPageArchivePath(date, revision));
+}
+
+/**
+ * List the archived pages of the active source
+ * @param from - First date (inclusive), omit for no lower bound
+ * @param to - Last date (inclusive), omit for no upper bound
+ * @returns Date and revision of every archived page, oldest first
+ */
+export async function listArchivedPages(from?: string, to?: string): Promise<Array<{ date: string; revision: number }>> {
+  const blobs = await getBlobStore().list(SNAPSHOTS_BLOB_PREFIX);
+
+  return blobs
+    .map(blob => parsePageArchivePath(blob.pathname))
+    .filter((page): page is { date: string; revision: number } => page !== null)
+    .filter(page => (!from || page.date >= from) && (!to || page.date <= to))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.revision - b.revision);
+}
@@ -0,0 +1,155 @@
+/**
+ * Player metadata administration
+ * Backs the /admin/players page: searches player metadata and applies edits
+ * on behalf of a moderator. Every edit is recorded with its author and the
+ * metadata before and after in a rolling audit trail (players/metadata-audit.json)
+ * that keeps the most recent PLAYER_METADATA_AUDIT_MAX_ENTRIES changes.
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  ADMIN_PLAYERS_MAX_RESULTS,
+  PLAYER_METADATA_AUDIT_BLOB_PATH,
+  PLAYER_METADATA_AUDIT_MAX_ENTRIES
+} from './constants';
+import { DocumentLog, appendLogEntry, compactDocumentLog, readLoggedDocument } from './document-log';
+import {
+  applyPlayerMetadataPatch,
+  compactPlayerMetadata,
+  lookupPlayerMetadata,
+  playerMetadataLog,
+  updatePlayerMetadata
+} from './player-metadata';
+import { buildPlayerNameIndex, normalizePlayerName, playerRegistryLog, resolvePlayerId } from './player-registry';
+import {
+  AdminPlayer,
+  PlayerMetadataAudit,
+  PlayerMetadataAuditEntry,
+  PlayerMetadataPatch
+} from './types';
+
+/**
+ * Add one change to the audit trail
+ * Changes are keyed by id, so replaying a change is harmless
+ * @param audit - Current audit trail
+ * @param entry - Recorded change
+ * @returns Audit trail sorted newest first, trimmed to PLAYER_METADATA_AUDIT_MAX_ENTRIES
+ */
+function applyAuditEntry(audit: PlayerMetadataAudit, entry: PlayerMetadataAuditEntry): PlayerMetadataAudit {
+  const entries = [...audit.entries.filter(e => e.id !== entry.id), entry]
+    .sort((a, b) => b.changedAt.localeCompare(a.changedAt))
+    .slice(0, PLAYER_METADATA_AUDIT_MAX_ENTRIES);
+
+  return { entries };
+}
+
+/**
+ * Audit trail stored as an append-only log compacted into players/metadata-audit.json
+ */
+export const playerMetadataAuditLog: DocumentLog<PlayerMetadataAudit, PlayerMetadataAuditEntry> = {
+  name: 'player-metadata-audit',
+  documentPath: PLAYER_METADATA_AUDIT_BLOB_PATH,
+  emptyDocument: () => ({ entries: [] }),
+  applyEntry: applyAuditEntry
+};
+
+/**
+ * Change player metadata and record who changed what
+ * Patches that would not change a player's stored metadata are dropped
+ * @param changes - Record mapping player names to metadata patches
+ * @param changedBy - Moderator (or script user) making the change
+ * @returns The recorded audit entry, or null if nothing changed
+ * @throws Error if a resulting entry is invalid or the change cannot be stored
+ */
+export async function editPlayerMetadata(
+  changes: Record<string, PlayerMetadataPatch>,
+  changedBy: string
+): Promise<PlayerMetadataAuditEntry | null> {
+  // Read uncached, so the recorded "before" is what the change actually replaces
+  const metadata = await readLoggedDocument(playerMetadataLog);
+
+  const effective: Record<string, PlayerMetadataPatch> = {};
+  const recorded: PlayerMetadataAuditEntry['changes'] = {};
+  for (const [name, patch] of Object.entries(changes)) {
+    const before = metadata[name] ?? null;
+    const after = applyPlayerMetadataPatch(metadata[name], patch);
+    if (JSON.stringify(before) !== JSON.stringify(after)) {
+      effective[name] = patch;
+      recorded[name] = { before, after };
+    }
+  }
+
+  if (Object.keys(effective).length === 0) {
+    return null;
+  }
+
+  await updatePlayerMetadata(effective);
+
+  const entry: PlayerMetadataAuditEntry = {
+    id: randomUUID(),
+    changedAt: new Date().toISOString(),
+    changedBy,
+    changes: recorded
+  };
+  await appendLogEntry(playerMetadataAuditLog, entry);
+
+  await Promise.all([compactPlayerMetadata(), compactDocumentLog(playerMetadataAuditLog)]);
+  console.log(`${changedBy} changed player metadata of ${Object.keys(recorded).length} player(s)`);
+
+  return entry;
+}
+
+/**
+ * Load the audit trail of the active source
+ * @param options - Only changes to this player name, and at most limit changes
+ * @returns Recorded changes, newest first
+ */
+export async function loadPlayerMetadataAudit(
+  options: { name?: string; limit?: number } = {}
+): Promise<PlayerMetadataAuditEntry[]> {
+  const { entries } = await readLoggedDocument(playerMetadataAuditLog);
+  const name = options.name;
+  return entries
+    .filter(entry => !name || name in entry.changes)
+    .slice(0, options.limit ?? entries.length);
+}
+
+/**
+ * Search the player metadata of the active source
+ * Names match on the leaderboard name, the other names of the player and the display name
+ * @param options - search text, unknownCountry for players without a country on any of their names
+ * @returns Matching players sorted by name (at most ADMIN_PLAYERS_MAX_RESULTS) and the number of matches
+ */
+export async function searchPlayerMetadata(
+  options: { search?: string; unknownCountry?: boolean } = {}
+): Promise<{ players: AdminPlayer[]; total: number }> {
+  const [metadata, registry] = await Promise.all([
+    readLoggedDocument(playerMetadataLog),
+    readLoggedDocument(playerRegistryLog)
+  ]);
+  const lookup = { players: registry, index: buildPlayerNameIndex(registry) };
+  const search = options.search ? normalizePlayerName(options.search) : '';
+
+  const matches = Object.entries(metadata)
+    .map(([name, entry]): AdminPlayer => {
+      const playerId = resolvePlayerId(lookup.index, name);
+      return {
+        name,
+        metadata: entry,
+        playerId,
+        otherNames: playerId ? registry[playerId].aliases.filter(alias => alias !== name) : []
+      };
+    })
+    .filter(player =>
+      !search ||
+      [player.name, ...player.otherNames, player.metadata.displayName ?? '']
+        .some(name => normalizePlayerName(name).includes(search)))
+    .filter(player =>
+      !options.unknownCountry || lookupPlayerMetadata(player.name, metadata, lookup).countryCode === null)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return {
+    players: matches.slice(0, ADMIN_PLAYERS_MAX_RESULTS),
+    total: matches.length
+  };
+}
@@ -0,0 +1,419 @@
+/**
+ * Player metadata for the leaderboard API
+ * Handles loading, saving, and merging operator-maintained player metadata:
+ * country code, display name, tags, social/stream links, notes and a hidden flag.
+ * Metadata is stored per leaderboard name; fields a name does not have are
+ * taken from other names of the same player (see ./player-registry.ts)
+ *
+ * Replaces the country-only countries.json, which scripts/migrate-player-metadata.ts
+ * converts once. Country codes are checked against the ISO 3166-1 catalogue in
+ * lib/countries.ts on every write; codes stored before that check are reported
+ * by findInvalidCountryCodes and ignored on read.
+ */
+
+import { COUNTRIES_BLOB_PATH, PLAYER_METADATA_BLOB_PATH } from './constants';
+import { DocumentLog, appendLogEntry, readLoggedDocument, compactDocumentLog } from './document-log';
+import { buildPlayerNameIndex, PlayerNameIndex, resolvePlayerId } from './player-registry';
+import {
+  CountryMappingsLogEntry,
+  HistoricalSnapshot,
+  InvalidCountryCode,
+  PlayerData,
+  PlayerMetadata,
+  PlayerMetadataDocument,
+  PlayerMetadataLogEntry,
+  PlayerMetadataPatch,
+  PlayerRegistry
+} from './types';
+import { PlayerMetadataDocumentSchema, PlayerMetadataSchema, validateOrThrow } from '@/lib/schemas';
+import { findCountry, isCountryCode } from '@/lib/countries';
+
+const OPTIONAL_FIELDS = ['displayName', 'tags', 'links', 'notes', 'hidden'] as const;
+
+/**
+ * Apply a patch to the metadata of one player
+ * @param current - Current metadata (undefined for a new player)
+ * @param patch - Fields to change; null clears an optional field
+ * @returns Updated metadata
+ */
+export function applyPlayerMetadataPatch(current: PlayerMetadata | undefined, patch: PlayerMetadataPatch): PlayerMetadata {
+  const updated: PlayerMetadata = { ...(current ?? { countryCode: null }) };
+
+  if (patch.countryCode !== undefined) {
+    updated.countryCode = patch.countryCode;
+  }
+  for (const field of OPTIONAL_FIELDS) {
+    const value = patch[field];
+    if (value === null) {
+      delete updated[field];
+    } else if (value !== undefined) {
+      Object.assign(updated, { [field]: value });
+    }
+  }
+
+  return updated;
+}
+
+/**
+ * Apply one player metadata log entry
+ * "add" registers players with an unknown (null) country without touching known ones,
+ * "set" patches metadata fields (last write wins per field when replayed in log order)
+ * @param document - Current metadata document
+ * @param entry - Change to apply
+ * @returns Updated document
+ */
+function applyPlayerMetadataEntry(
+  document: PlayerMetadataDocument,
+  entry: PlayerMetadataLogEntry
+): PlayerMetadataDocument {
+  const updated = { ...document };
+  if (entry.type === 'add') {
+    for (const name of entry.names) {
+      if (!(name in updated)) {
+        updated[name] = { countryCode: null };
+      }
+    }
+  } else {
+    for (const [name, patch] of Object.entries(entry.changes)) {
+      updated[name] = applyPlayerMetadataPatch(updated[name], patch);
+    }
+  }
+  return updated;
+}
+
+/**
+ * Player metadata stored as an append-only log of changes
+ * compacted into players/metadata.json (see ./document-log.ts)
+ */
+export const playerMetadataLog: DocumentLog<PlayerMetadataDocument, PlayerMetadataLogEntry> = {
+  name: 'player-metadata',
+  documentPath: PLAYER_METADATA_BLOB_PATH,
+  emptyDocument: () => ({}),
+  applyEntry: applyPlayerMetadataEntry
+};
+
+/**
+ * Legacy country mappings (countries.json and its "countries" log), read only
+ * by the one-time migration to player metadata
+ */
+export const legacyCountryMappingsLog: DocumentLog<Record<string, string | null>, CountryMappingsLogEntry> = {
+  name: 'countries',
+  documentPath: COUNTRIES_BLOB_PATH,
+  emptyDocument: () => ({}),
+  applyEntry: (mappings, entry) => {
+    const updated = { ...mappings };
+    if (entry.type === 'add') {
+      entry.names.filter(name => !(name in updated)).forEach(name => { updated[name] = null; });
+    } else {
+      Object.assign(updated, entry.mappings);
+    }
+    return updated;
+  }
+};
+
+/**
+ * Convert legacy country mappings to a player metadata document
+ * Codes are resolved against the country catalogue ("uk" becomes GB);
+ * codes that match no country are stored as unknown (null)
+ * @param mappings - Record mapping player names to country codes (null for unknown)
+ * @returns Metadata document holding only country codes
+ */
+export function migrateCountryMappings(mappings: Record<string, string | null>): PlayerMetadataDocument {
+  const document: PlayerMetadataDocument = Object.fromEntries(
+    Object.entries(mappings).map(([name, code]) => {
+      const countryCode = code === null ? null : findCountry(code)?.code ?? null;
+      if (code !== null && countryCode === null) {
+        console.warn(`Dropping unknown country code "${code}" of ${name}`);
+      }
+      return [name, { countryCode }];
+    })
+  );
+  return validateOrThrow(PlayerMetadataDocumentSchema, document, 'Migrated country mappings');
+}
+
+/**
+ * Copy the legacy country mappings into the player metadata document
+ * Only names without metadata or without a known country are written, so
+ * running it again (or after metadata was edited) changes nothing else.
+ * countries.json itself is left in place
+ * @param options - dryRun reports what would be copied without writing
+ * @returns Names copied with and without a country code, and names left unchanged
+ * @throws Error if either document cannot be read
+ */
+export async function migrateLegacyCountryMappings(
+  options: { dryRun?: boolean } = {}
+): Promise<{ withCountry: string[]; withoutCountry: string[]; unchanged: number }> {
+  const [mappings, metadata] = await Promise.all([
+    readLoggedDocument(legacyCountryMappingsLog),
+    readLoggedDocument(playerMetadataLog)
+  ]);
+
+  const migrated = migrateCountryMappings(mappings);
+  const changes = Object.fromEntries(
+    Object.entries(migrated).filter(([name, entry]) =>
+      !(name in metadata) || (metadata[name].countryCode === null && entry.countryCode !== null))
+  );
+
+  if (!options.dryRun && Object.keys(changes).length > 0) {
+    await updatePlayerMetadata(changes);
+    await compactPlayerMetadata();
+  }
+
+  const names = Object.keys(changes);
+  return {
+    withCountry: names.filter(name => changes[name].countryCode !== null),
+    withoutCountry: names.filter(name => changes[name].countryCode === null),
+    unchanged: Object.keys(mappings).length - names.length
+  };
+}
+
+/**
+ * Load player metadata from blob storage
+ * @returns Record mapping player names to metadata
+ */
+export async function loadPlayerMetadata(): Promise<PlayerMetadataDocument> {
+  try {
+    // Cache for 5 minutes to leverage CDN
+    const metadata = await readLoggedDocument(playerMetadataLog, { revalidate: 300 });
+
+    if (Object.keys(metadata).length === 0) {
+      console.log('No players/metadata.json found in Blob storage');
+    }
+
+    return metadata;
+  } catch (error) {
+    console.error('Error loading player metadata from Blob:', error);
+    return {};
+  }
+}
+
+/**
+ * Change the metadata of players
+ * Only the given fields of the given players are changed; concurrent changes
+ * to other players and fields are kept
+ * @param changes - Record mapping player names to metadata patches
+ * @throws Error if a resulting entry is invalid (including a country code that
+ *   is not in the ISO 3166-1 catalogue) or the change cannot be stored
+ */
+export async function updatePlayerMetadata(changes: Record<string, PlayerMetadataPatch>): Promise<void> {
+  if (Object.keys(changes).length === 0) {
+    return;
+  }
+
+  // Validate the patched entries, so an invalid change is refused before it is logged
+  for (const [name, patch] of Object.entries(changes)) {
+    validateOrThrow(PlayerMetadataSchema, applyPlayerMetadataPatch(undefined, patch), `Metadata change for ${name}`);
+  }
+
+  await appendLogEntry(playerMetadataLog, { type: 'set', changes });
+  console.log(`Player metadata updated for ${Object.keys(changes).length} player(s)`);
+}
+
+/**
+ * Assign country codes to players
+ * @param changes - Record mapping player names to country codes (null for unknown)
+ * @throws Error if the change cannot be stored
+ */
+export async function setCountryCodes(changes: Record<string, string | null>): Promise<void> {
+  await updatePlayerMetadata(Object.fromEntries(
+    Object.entries(changes).map(([name, countryCode]) => [name, { countryCode }])
+  ));
+}
+
+/**
+ * Register players with an unknown country code if they are not known yet
+ * @param names - Player names to register
+ * @throws Error if the change cannot be stored
+ */
+export async function registerPlayers(names: string[]): Promise<void> {
+  if (names.length === 0) {
+    return;
+  }
+  await appendLogEntry(playerMetadataLog, { type: 'add', names });
+}
+
+/**
+ * Fold pending player metadata changes into players/metadata.json
+ * Called after ingestion and by the management scripts; safe to run concurrently
+ */
+export async function compactPlayerMetadata(): Promise<void> {
+  await compactDocumentLog(playerMetadataLog);
+}
+
+/**
+ * Find stored country codes that are not in the ISO 3166-1 catalogue
+ * Such codes were saved before codes were validated; they are ignored on read
+ * @param metadata - Record mapping player names to metadata
+ * @returns Invalid codes by player name, with the catalogue code the value
+ *   most likely meant ("UK" suggests GB), sorted by name
+ */
+export function findInvalidCountryCodes(metadata: PlayerMetadataDocument): InvalidCountryCode[] {
+  return Object.entries(metadata)
+    .filter(([, entry]) => entry.countryCode !== null && !isCountryCode(entry.countryCode))
+    .map(([name, entry]) => ({
+      name,
+      countryCode: entry.countryCode as string,
+      suggestion: findCountry(entry.countryCode as string)?.code ?? null
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Look up the metadata of a player name
+ * Each field comes from the name itself, or else from the other names of the
+ * player's identity, newest first. Country codes not in the catalogue are skipped
+ * @param name - Player name
+ * @param metadata - Record mapping player names to metadata
+ * @param registry - Player registry and its name index
+ * @returns Merged metadata (country null if no name of the player has one)
+ */
+export function lookupPlayerMetadata(
+  name: string,
+  metadata: PlayerMetadataDocument,
+  registry: { players: PlayerRegistry; index: PlayerNameIndex }
+): PlayerMetadata {
+  const id = resolvePlayerId(registry.index, name);
+  const aliases = id ? [...registry.players[id].aliases].reverse() : [];
+  const entries = [name, ...aliases]
+    .map(alias => metadata[alias])
+    .filter((entry): entry is PlayerMetadata => entry !== undefined);
+
+  const merged: PlayerMetadata = {
+    countryCode: entries
+      .map(entry => entry.countryCode)
+      .find((code): code is string => code !== null && isCountryCode(code)) ?? null
+  };
+  for (const field of OPTIONAL_FIELDS) {
+    const entry = entries.find(e => e[field] !== undefined);
+    if (entry) {
+      Object.assign(merged, { [field]: entry[field] });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Merge player metadata into player data without modifying stored metadata
+ * @param players - Array of player data without metadata
+ * @param metadata - Record mapping player names to metadata
+ * @param registry - Player registry, so renamed players keep their metadata
+ * @returns Array of player data with country codes and metadata merged in
+ */
+export function applyPlayerMetadata(
+  players: PlayerData[],
+  metadata: PlayerMetadataDocument,
+  registry: PlayerRegistry = {}
+): PlayerData[] {
+  const lookup = { players: registry, index: buildPlayerNameIndex(registry) };
+
+  // Note: null country codes are preserved so they can be shown as "?" emoji
+  return players.map(player => ({
+    ...player,
+    ...lookupPlayerMetadata(player.name, metadata, lookup)
+  }));
+}
+
+/**
+ * Merge player metadata into player data for a public response
+ * Hidden players are dropped, and the operator-only fields (notes and the hidden
+ * flag) are left out; only the admin API serves them
+ * @param players - Array of player data without metadata
+ * @param metadata - Record mapping player names to metadata
+ * @param registry - Player registry, so renamed players keep their metadata
+ * @returns Visible players with their public metadata merged in
+ */
+export function applyPublicPlayerMetadata(
+  players: PlayerData[],
+  metadata: PlayerMetadataDocument,
+  registry: PlayerRegistry = {}
+): PlayerData[] {
+  return applyPlayerMetadata(players, metadata, registry)
+    .filter(player => !player.hidden)
+    .map(player => {
+      const publicPlayer = { ...player };
+      delete publicPlayer.notes;
+      delete publicPlayer.hidden;
+      return publicPlayer;
+    });
+}
+
+/**
+ * Remove hidden players from a stored snapshot for a public response
+ * They are dropped from the players, the delta check discrepancies and the
+ * daily winners/losers; the ranks of the other players are kept
+ * @param snapshot - Stored snapshot
+ * @param metadata - Record mapping player names to metadata
+ * @param registry - Player registry, so every name of a hidden player is dropped
+ * @returns Snapshot without hidden players
+ */
+export function withoutHiddenPlayers(
+  snapshot: HistoricalSnapshot,
+  metadata: PlayerMetadataDocument,
+  registry: PlayerRegistry = {}
+): HistoricalSnapshot {
+  const lookup = { players: registry, index: buildPlayerNameIndex(registry) };
+  const isVisible = ({ name }: { name: string }) => !lookupPlayerMetadata(name, metadata, lookup).hidden;
+
+  return {
+    ...snapshot,
+    players: snapshot.players.filter(isVisible),
+    ...(snapshot.deltaCheck && {
+      deltaCheck: { ...snapshot.deltaCheck, discrepancies: snapshot.deltaCheck.discrepancies.filter(isVisible) }
+    }),
+    ...(snapshot.dailyMovers && {
+      dailyMovers: {
+        winners: snapshot.dailyMovers.winners.filter(isVisible),
+        losers: snapshot.dailyMovers.losers.filter(isVisible)
+      }
+    })
+  };
+}
+
+/**
+ * Merge player metadata into player data and register new players
+ * Used by the ingestion job; the read path uses applyPlayerMetadata instead.
+ * A new spelling of a known player is stored with the player's country code
+ * and is not reported as a new player
+ * @param players - Array of player data without metadata
+ * @param registry - Player registry including the current names
+ * @returns Array of player data with metadata merged in and the names of newly added players
+ */
+export async function mergeCountryCodes(
+  players: PlayerData[],
+  registry: PlayerRegistry = {}
+): Promise<{ players: PlayerData[]; newPlayers: string[] }> {
+  // Read uncached and let errors propagate, so a failed read is never
+  // mistaken for "every player is new"
+  const metadata = await readLoggedDocument(playerMetadataLog);
+  const lookup = { players: registry, index: buildPlayerNameIndex(registry) };
+  const newPlayers: string[] = [];
+  const inherited: Record<string, string | null> = {};
+
+  // Check for new names: inherit the code of another name of the player,
+  // otherwise add them to metadata with null country code
+  for (const player of players) {
+    if (!(player.name in metadata)) {
+      const { countryCode } = lookupPlayerMetadata(player.name, metadata, lookup);
+      metadata[player.name] = { countryCode };
+      if (countryCode) {
+        inherited[player.name] = countryCode;
+      } else {
+        newPlayers.push(player.name);
+      }
+    }
+  }
+
+  // Record new players if any were found
+  if (newPlayers.length > 0) {
+    await registerPlayers(newPlayers);
+    console.log(`Added ${newPlayers.length} new player(s) to player metadata:`, newPlayers);
+  }
+  if (Object.keys(inherited).length > 0) {
+    await setCountryCodes(inherited);
+  }
+
+  return {
+    players: applyPlayerMetadata(players, metadata, registry),
+    newPlayers
+  };
+}
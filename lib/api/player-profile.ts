@@ -0,0 +1,80 @@
+/**
+ * Player profiles
+ * Combines a player's time series (see player-series.ts) with the registry and
+ * the player metadata into the data shown on /players/[name]
+ */
+
+import { applyPlayerMetadata, loadPlayerMetadata } from './player-metadata';
+import { findPlayerIdentity, loadPlayerRegistry } from './player-registry';
+import { loadPlayerSeries } from './player-series';
+import { PlayerDayChange, PlayerProfile, PlayerSeriesPoint } from './types';
+
+/**
+ * Changes between consecutive points of a series
+ * @param history - Series points, oldest first
+ * @returns One change per point after the first
+ */
+export function getPlayerDayChanges(history: PlayerSeriesPoint[]): PlayerDayChange[] {
+  return history.slice(1).map((point, i) => {
+    const previous = history[i];
+    return {
+      date: point.date,
+      sinceDate: previous.date,
+      rankChange: previous.rank - point.rank,
+      evWonChange: point.evWon - previous.evWon,
+      wonChange: point.won - previous.won,
+      handsChange: point.hands - previous.hands
+    };
+  });
+}
+
+/**
+ * Load the profile of a player
+ * @param name - Any name of the player (matched like the registry matches names)
+ * @returns The profile, or null if no snapshot contains the player or the player is hidden
+ */
+export async function loadPlayerProfile(name: string): Promise<PlayerProfile | null> {
+  const [history, registry, metadata] = await Promise.all([
+    loadPlayerSeries(name),
+    loadPlayerRegistry(),
+    loadPlayerMetadata()
+  ]);
+  if (!history || history.length === 0) {
+    return null;
+  }
+
+  const identity = findPlayerIdentity(registry, name);
+  const displayName = identity?.canonicalName ?? name;
+  const current = history[history.length - 1];
+  const [player] = applyPlayerMetadata([{ ...current, name: displayName }], metadata, registry);
+  if (player.hidden) {
+    return null;
+  }
+
+  // Best and worst days by money won; days without a win or loss do not count
+  const days = getPlayerDayChanges(history);
+  const bestDay = days.reduce<PlayerDayChange | null>(
+    (best, day) => day.wonChange > 0 && (!best || day.wonChange > best.wonChange) ? day : best,
+    null
+  );
+  const worstDay = days.reduce<PlayerDayChange | null>(
+    (worst, day) => day.wonChange < 0 && (!worst || day.wonChange < worst.wonChange) ? day : worst,
+    null
+  );
+
+  return {
+    id: identity?.id ?? null,
+    name: displayName,
+    aliases: identity?.aliases ?? [name],
+    countryCode: player.countryCode ?? null,
+    ...(player.displayName && { displayName: player.displayName }),
+    ...(player.tags && { tags: player.tags }),
+    ...(player.links && { links: player.links }),
+    current,
+    firstSeen: history[0].date,
+    lastSeen: current.date,
+    history,
+    bestDay,
+    worstDay
+  };
+}
@@ -0,0 +1,303 @@
+/**
+ * Player identity registry
+ * Leaderboard rows only carry a display name, so a renamed player or a spelling
+ * variant ("Foo Bar" vs "foo  bar") would look like a brand-new player. The
+ * registry gives every player a stable id with the list of names seen for it.
+ * Names are matched exactly first and then after Unicode normalization; renames
+ * that normalization cannot detect are joined by an operator with
+ * scripts/players.ts merge, and wrongly joined names are separated with split.
+ *
+ * Stored as an append-only log compacted into players/registry.json (see ./document-log.ts)
+ */
+
+import { randomUUID } from 'crypto';
+import { PLAYER_REGISTRY_BLOB_PATH } from './constants';
+import { DocumentLog, appendLogEntry, readLoggedDocument, compactDocumentLog } from './document-log';
+import { PlayerIdentity, PlayerRegistry, PlayerRegistryLogEntry } from './types';
+
+/**
+ * Name lookup tables of a registry
+ * A normalized name shared by names of different identities maps to null
+ * (ambiguous), so only an exact match can resolve it
+ */
+export interface PlayerNameIndex {
+  exact: Map<string, string>; // Exact name to identity id
+  normalized: Map<string, string | null>; // Normalized name to identity id
+}
+
+/**
+ * Generate a new identity id
+ */
+function createPlayerId(): string {
+  return `p_${randomUUID().replace(/-/g, '').slice(0, 12)}`;
+}
+
+/**
+ * Normalize a player name for matching
+ * Applies Unicode compatibility normalization (NFKC), drops invisible format
+ * characters, collapses whitespace and ignores case
+ * @param name - Player name as shown on the leaderboard
+ * @returns Normalized name
+ */
+export function normalizePlayerName(name: string): string {
+  return name
+    .normalize('NFKC')
+    .replace(/\p{Cf}/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Add one name of an identity to a name index in place
+ */
+function addToIndex(index: PlayerNameIndex, id: string, name: string): void {
+  index.exact.set(name, id);
+
+  const normalized = normalizePlayerName(name);
+  const existing = index.normalized.get(normalized);
+  if (existing === undefined) {
+    index.normalized.set(normalized, id);
+  } else if (existing !== id) {
+    index.normalized.set(normalized, null);
+  }
+}
+
+/**
+ * Build the name lookup tables of a registry
+ * @param registry - Player registry
+ * @returns Exact and normalized name index
+ */
+export function buildPlayerNameIndex(registry: PlayerRegistry): PlayerNameIndex {
+  const index: PlayerNameIndex = { exact: new Map(), normalized: new Map() };
+  for (const identity of Object.values(registry)) {
+    identity.aliases.forEach(name => addToIndex(index, identity.id, name));
+  }
+  return index;
+}
+
+/**
+ * Resolve a player name to an identity id
+ * @param index - Name index of the registry
+ * @param name - Player name
+ * @returns Identity id, or null if the name is unknown or ambiguous
+ */
+export function resolvePlayerId(index: PlayerNameIndex, name: string): string | null {
+  return index.exact.get(name) ?? index.normalized.get(normalizePlayerName(name)) ?? null;
+}
+
+/**
+ * Find the identity of a player name
+ * @param registry - Player registry
+ * @param name - Player name (any alias, matched exactly or normalized)
+ * @returns The identity, or null if the name is unknown or ambiguous
+ */
+export function findPlayerIdentity(registry: PlayerRegistry, name: string): PlayerIdentity | null {
+  const id = resolvePlayerId(buildPlayerNameIndex(registry), name);
+  return id ? registry[id] : null;
+}
+
+/**
+ * Create a function that maps player names to comparison keys
+ * Names of the same identity share a key; unregistered names fall back to
+ * their normalized form, so spelling variants still match without a registry
+ * @param registry - Player registry, or null to match by normalized name only
+ * @returns Function returning the key of a name
+ */
+export function createPlayerMatcher(registry: PlayerRegistry | null): (name: string) => string {
+  const index = buildPlayerNameIndex(registry ?? {});
+  return name => {
+    const id = resolvePlayerId(index, name);
+    return id ?? `name:${normalizePlayerName(name)}`;
+  };
+}
+
+/**
+ * Apply one player registry log entry
+ * Every entry is a no-op when replayed on a registry that already reflects it:
+ * a registered name is always an alias of some identity, merges need both
+ * identities and splits need the new id to be unused
+ * @param registry - Current registry
+ * @param entry - Change to apply
+ * @returns Updated registry
+ */
+function applyPlayerRegistryEntry(registry: PlayerRegistry, entry: PlayerRegistryLogEntry): PlayerRegistry {
+  const updated = { ...registry };
+
+  switch (entry.type) {
+    case 'register': {
+      const index = buildPlayerNameIndex(updated);
+      for (const { id, name } of entry.players) {
+        if (index.exact.has(name)) {
+          continue;
+        }
+
+        // A spelling variant of a known player becomes its newest alias
+        const knownId = index.normalized.get(normalizePlayerName(name)) ?? (id in updated ? id : null);
+        if (knownId) {
+          const identity = updated[knownId];
+          updated[knownId] = { ...identity, canonicalName: name, aliases: [...identity.aliases, name] };
+          addToIndex(index, knownId, name);
+        } else {
+          updated[id] = { id, canonicalName: name, aliases: [name] };
+          addToIndex(index, id, name);
+        }
+      }
+      break;
+    }
+
+    case 'merge': {
+      const from = updated[entry.fromId];
+      const into = updated[entry.intoId];
+      if (!from || !into || from.id === into.id) {
+        break;
+      }
+      updated[into.id] = {
+        ...into,
+        aliases: [...into.aliases, ...from.aliases.filter(name => !into.aliases.includes(name))]
+      };
+      delete updated[from.id];
+      break;
+    }
+
+    case 'split': {
+      const identity = updated[entry.id];
+      if (!identity || entry.newId in updated || !identity.aliases.includes(entry.name) || identity.aliases.length < 2) {
+        break;
+      }
+      const aliases = identity.aliases.filter(name => name !== entry.name);
+      updated[identity.id] = {
+        ...identity,
+        canonicalName: identity.canonicalName === entry.name ? aliases[aliases.length - 1] : identity.canonicalName,
+        aliases
+      };
+      updated[entry.newId] = { id: entry.newId, canonicalName: entry.name, aliases: [entry.name] };
+      break;
+    }
+  }
+
+  return updated;
+}
+
+/**
+ * Player registry stored as an append-only log of changes
+ * compacted into players/registry.json (see ./document-log.ts)
+ */
+export const playerRegistryLog: DocumentLog<PlayerRegistry, PlayerRegistryLogEntry> = {
+  name: 'player-registry',
+  documentPath: PLAYER_REGISTRY_BLOB_PATH,
+  emptyDocument: () => ({}),
+  applyEntry: applyPlayerRegistryEntry
+};
+
+/**
+ * Load the player registry for the read path
+ * @returns Registry keyed by identity id (empty if it cannot be read)
+ */
+export async function loadPlayerRegistry(): Promise<PlayerRegistry> {
+  try {
+    // Cache for 5 minutes to leverage CDN
+    return await readLoggedDocument(playerRegistryLog, { revalidate: 300 });
+  } catch (error) {
+    console.error('Error loading player registry:', error);
+    return {};
+  }
+}
+
+/**
+ * Register the names on the leaderboard
+ * Unknown names become new identities, or a new alias of an identity whose
+ * name they match after normalization. Used by the ingestion job
+ * @param names - Player names as parsed
+ * @returns The updated registry and the names that were new identities or new aliases
+ * @throws Error if the registry cannot be read or the change cannot be stored
+ */
+export async function registerPlayerNames(
+  names: string[]
+): Promise<{ registry: PlayerRegistry; created: string[]; aliased: string[] }> {
+  // Read uncached and let errors propagate, so a failed read is never
+  // mistaken for "every player is new"
+  const registry = await readLoggedDocument(playerRegistryLog);
+  const index = buildPlayerNameIndex(registry);
+
+  const unknown = [...new Set(names)].filter(name => !index.exact.has(name));
+  if (unknown.length === 0) {
+    return { registry, created: [], aliased: [] };
+  }
+
+  const entry: PlayerRegistryLogEntry = {
+    type: 'register',
+    players: unknown.map(name => ({ id: createPlayerId(), name }))
+  };
+  await appendLogEntry(playerRegistryLog, entry);
+
+  const updated = applyPlayerRegistryEntry(registry, entry);
+  const created = entry.players.filter(p => p.id in updated).map(p => p.name);
+  const aliased = unknown.filter(name => !created.includes(name));
+  if (aliased.length > 0) {
+    console.log(`Recorded ${aliased.length} new spelling(s) of known players:`, aliased);
+  }
+
+  return { registry: updated, created, aliased };
+}
+
+/**
+ * Look up a name in the uncached registry for a management command
+ * @throws Error if the name is unknown or ambiguous
+ */
+async function requireIdentity(name: string): Promise<{ registry: PlayerRegistry; identity: PlayerIdentity }> {
+  const registry = await readLoggedDocument(playerRegistryLog);
+  const identity = findPlayerIdentity(registry, name);
+  if (!identity) {
+    throw new Error(`No registered player matches "${name}"`);
+  }
+  return { registry, identity };
+}
+
+/**
+ * Join two identities, e.g. after a rename
+ * The merged identity keeps the id and display name of the target
+ * @param fromName - Any name of the identity to merge away (usually the old name)
+ * @param intoName - Any name of the identity to keep (usually the current name)
+ * @returns The merged identity
+ * @throws Error if a name is unknown or both names already share an identity
+ */
+export async function mergePlayerIdentities(fromName: string, intoName: string): Promise<PlayerIdentity> {
+  const { identity: from } = await requireIdentity(fromName);
+  const { registry, identity: into } = await requireIdentity(intoName);
+  if (from.id === into.id) {
+    throw new Error(`"${fromName}" and "${intoName}" are already the same player (${into.id})`);
+  }
+
+  const entry: PlayerRegistryLogEntry = { type: 'merge', fromId: from.id, intoId: into.id };
+  await appendLogEntry(playerRegistryLog, entry);
+  return applyPlayerRegistryEntry(registry, entry)[into.id];
+}
+
+/**
+ * Move one name out of its identity into a new identity of its own
+ * @param name - Exact alias to split off
+ * @returns The new identity
+ * @throws Error if the name is not an exact alias or is the identity's only name
+ */
+export async function splitPlayerName(name: string): Promise<PlayerIdentity> {
+  const { registry, identity } = await requireIdentity(name);
+  if (!identity.aliases.includes(name)) {
+    throw new Error(`"${name}" is not an exact alias of ${identity.id} (aliases: ${identity.aliases.join(', ')})`);
+  }
+  if (identity.aliases.length < 2) {
+    throw new Error(`"${name}" is the only name of ${identity.id}, nothing to split`);
+  }
+
+  const entry: PlayerRegistryLogEntry = { type: 'split', id: identity.id, name, newId: createPlayerId() };
+  await appendLogEntry(playerRegistryLog, entry);
+  return applyPlayerRegistryEntry(registry, entry)[entry.newId];
+}
+
+/**
+ * Fold pending player registry changes into players/registry.json
+ * Called after ingestion and by the management script; safe to run concurrently
+ */
+export async function compactPlayerRegistry(): Promise<void> {
+  await compactDocumentLog(playerRegistryLog);
+}
@@ -0,0 +1,238 @@
+/**
+ * Per-player time series derived from snapshots
+ * Keeps rank, evWon, evBB100, won and hands per date for every player, so a
+ * player's history costs a single read instead of loading every snapshot.
+ *
+ * The store is updated incrementally by saveSnapshot and can be rebuilt from
+ * the daily snapshots at any time. Each date holds the player's stats from the
+ * latest revision of that date.
+ */
+
+import { PLAYER_SERIES_BLOB_PREFIX, PLAYER_SERIES_SHARD_COUNT } from './constants';
+import { getBlobStore, readJsonBlob, writeJsonBlob } from './blob-store';
+import { getAvailableSnapshots, loadSnapshot } from './snapshot-management';
+import { findPlayerIdentity, loadPlayerRegistry } from './player-registry';
+import { HistoricalSnapshot, PlayerData, PlayerSeriesPoint, PlayerSeriesShard } from './types';
+
+/**
+ * Get the storage path of a series shard
+ * @param shard - Shard number (0 to PLAYER_SERIES_SHARD_COUNT - 1)
+ * @returns Blob pathname, e.g. "players/series/07.json"
+ */
+function getShardPath(shard: number): string {
+  return `${PLAYER_SERIES_BLOB_PREFIX}${String(shard).padStart(2, '0')}.json`;
+}
+
+/**
+ * Pick the shard of a player (32-bit FNV-1a hash of the name)
+ * @param name - Player name
+ * @returns Shard number
+ */
+function getShardForPlayer(name: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < name.length; i++) {
+    hash ^= name.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % PLAYER_SERIES_SHARD_COUNT;
+}
+
+/**
+ * Build a series point from a player's snapshot entry
+ */
+function toSeriesPoint(player: PlayerData, date: string, revision?: number): PlayerSeriesPoint {
+  return {
+    date,
+    ...(revision !== undefined && { revision }),
+    rank: player.rank,
+    evWon: player.evWon,
+    evBB100: player.evBB100,
+    won: player.won,
+    hands: player.hands
+  };
+}
+
+/**
+ * Check whether two series points hold the same data
+ */
+function isSamePoint(a: PlayerSeriesPoint, b: PlayerSeriesPoint): boolean {
+  return a.date === b.date &&
+    a.revision === b.revision &&
+    a.rank === b.rank &&
+    a.evWon === b.evWon &&
+    a.evBB100 === b.evBB100 &&
+    a.won === b.won &&
+    a.hands === b.hands;
+}
+
+/**
+ * Apply a snapshot to one shard in place
+ * Points from an older revision of the same date are replaced, and dropped for
+ * players that are no longer in the snapshot; newer revisions are never overwritten
+ * @param shard - Shard document (modified in place)
+ * @param snapshot - Snapshot being saved
+ * @param players - Snapshot players belonging to this shard
+ * @returns true if the shard changed
+ */
+function applySnapshotToShard(
+  shard: PlayerSeriesShard,
+  snapshot: HistoricalSnapshot,
+  players: PlayerData[]
+): boolean {
+  const revision = snapshot.revision ?? -1;
+  const inSnapshot = new Set(players.map(p => p.name));
+  let changed = false;
+
+  for (const player of players) {
+    const series = shard.players[player.name] ?? [];
+    const point = toSeriesPoint(player, snapshot.date, snapshot.revision);
+    const existingIndex = series.findIndex(p => p.date === snapshot.date);
+
+    if (existingIndex >= 0) {
+      const existing = series[existingIndex];
+      if ((existing.revision ?? -1) > revision || isSamePoint(existing, point)) {
+        continue;
+      }
+      series[existingIndex] = point;
+    } else {
+      series.push(point);
+      series.sort((a, b) => a.date.localeCompare(b.date));
+    }
+
+    shard.players[player.name] = series;
+    changed = true;
+  }
+
+  // Players that dropped off the leaderboard in a later revision of this date
+  for (const [name, series] of Object.entries(shard.players)) {
+    if (inSnapshot.has(name)) {
+      continue;
+    }
+    const remaining = series.filter(p => p.date !== snapshot.date || (p.revision ?? -1) >= revision);
+    if (remaining.length !== series.length) {
+      changed = true;
+      if (remaining.length > 0) {
+        shard.players[name] = remaining;
+      } else {
+        delete shard.players[name];
+      }
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Group snapshot players by series shard
+ */
+function groupPlayersByShard(players: PlayerData[]): PlayerData[][] {
+  const groups: PlayerData[][] = Array.from({ length: PLAYER_SERIES_SHARD_COUNT }, () => []);
+  for (const player of players) {
+    groups[getShardForPlayer(player.name)].push(player);
+  }
+  return groups;
+}
+
+/**
+ * Update the player series with a newly saved snapshot
+ * Called by saveSnapshot; only shards whose content changed are written.
+ * Concurrent saves of the same date may race, scripts/rebuild-player-series.ts
+ * repairs the store from the snapshots
+ * @param snapshot - Snapshot that was just saved
+ */
+export async function updatePlayerSeries(snapshot: HistoricalSnapshot): Promise<void> {
+  const groups = groupPlayersByShard(snapshot.players);
+  let written = 0;
+
+  for (let shardNumber = 0; shardNumber < PLAYER_SERIES_SHARD_COUNT; shardNumber++) {
+    const path = getShardPath(shardNumber);
+    // Read uncached so the update is based on the latest stored shard
+    const shard = await readJsonBlob<PlayerSeriesShard>(path) ?? { players: {}, updatedAt: '' };
+
+    if (applySnapshotToShard(shard, snapshot, groups[shardNumber])) {
+      shard.updatedAt = new Date().toISOString();
+      await writeJsonBlob(path, shard, { cacheControlMaxAge: 0 });
+      written++;
+    }
+  }
+
+  console.log(`Player series updated with ${snapshot.date} (${written} shard(s) written)`);
+}
+
+/**
+ * Load the time series of a single player
+ * The series is stored per name, so the series of every name of the player's
+ * identity are joined (for a date on several names, the latest revision wins)
+ * @param name - Player name (any name of the player, see player-registry.ts)
+ * @returns Points sorted by date (oldest first), or null if the player has none
+ */
+export async function loadPlayerSeries(name: string): Promise<PlayerSeriesPoint[] | null> {
+  try {
+    const identity = findPlayerIdentity(await loadPlayerRegistry(), name);
+    const names = identity?.aliases ?? [name];
+
+    // Cache for 5 minutes, the series changes at most once per ingestion run
+    const byDate = new Map<string, PlayerSeriesPoint>();
+    for (const shardNumber of new Set(names.map(getShardForPlayer))) {
+      const shard = await readJsonBlob<PlayerSeriesShard>(getShardPath(shardNumber), { revalidate: 300 });
+      for (const point of names.flatMap(alias => shard?.players[alias] ?? [])) {
+        const existing = byDate.get(point.date);
+        if (!existing || (point.revision ?? -1) > (existing.revision ?? -1)) {
+          byDate.set(point.date, point);
+        }
+      }
+    }
+
+    return byDate.size > 0
+      ? [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date))
+      : null;
+  } catch (error) {
+    console.error(`Error loading player series for ${name}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Rebuild the whole player series store from the daily snapshots
+ * Every shard is rewritten, so stale players and points are removed
+ * @returns Number of dates processed and players in the store
+ */
+export async function rebuildPlayerSeries(): Promise<{ dateCount: number; playerCount: number }> {
+  const dates = (await getAvailableSnapshots()).reverse(); // Oldest first
+  const shards: PlayerSeriesShard[] = Array.from(
+    { length: PLAYER_SERIES_SHARD_COUNT },
+    () => ({ players: {}, updatedAt: '' })
+  );
+
+  console.log(`📸 Processing ${dates.length} daily snapshot(s)...`);
+
+  let dateCount = 0;
+  for (const date of dates) {
+    const snapshot = await loadSnapshot(date);
+    if (!snapshot) {
+      console.warn(`⚠️  Could not load snapshot for ${date}, skipping`);
+      continue;
+    }
+
+    const groups = groupPlayersByShard(snapshot.players);
+    shards.forEach((shard, shardNumber) => applySnapshotToShard(shard, snapshot, groups[shardNumber]));
+    dateCount++;
+  }
+
+  const updatedAt = new Date().toISOString();
+  for (let shardNumber = 0; shardNumber < PLAYER_SERIES_SHARD_COUNT; shardNumber++) {
+    await writeJsonBlob(getShardPath(shardNumber), { ...shards[shardNumber], updatedAt }, { cacheControlMaxAge: 0 });
+  }
+
+  // Remove shards left over from a larger shard count
+  const staleShards = (await getBlobStore().list(PLAYER_SERIES_BLOB_PREFIX))
+    .map(blob => blob.pathname)
+    .filter(pathname => {
+      const match = pathname.match(/\/(\d+)\.json$/);
+      return !match || parseInt(match[1], 10) >= PLAYER_SERIES_SHARD_COUNT;
+    });
+  await getBlobStore().delete(staleShards);
+
+  const playerCount = shards.reduce((total, shard) => total + Object.keys(shard.players).length, 0);
+  return { dateCount, playerCount };
+}
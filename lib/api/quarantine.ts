@@ -0,0 +1,268 @@
+/**
+ * Anomaly quarantine for scraped snapshots
+ * A partially rendered page can parse into a valid-looking but wrong player
+ * list. Before a revision is saved, the scrape is checked against the latest
+ * stored snapshot with a few sanity rules; a scrape that violates any of them
+ * is written to quarantine/ instead of snapshots/ and an alert is raised.
+ * An operator then approves (saves it as the next revision) or discards it
+ * with scripts/quarantine.ts.
+ */
+
+import {
+  ANOMALY_MAX_PLAYER_DROP,
+  ANOMALY_MAX_TOTAL_HANDS_GROWTH,
+  QUARANTINE_BLOB_PREFIX,
+  SNAPSHOT_SCHEMA_VERSION
+} from './constants';
+import { getBlobStore, readJsonBlob, writeJsonBlob } from './blob-store';
+import { loadSnapshot, parseStoredSnapshot, saveSnapshot } from './snapshot-management';
+import { sendAlert } from './alerts';
+import { archivePage, readPage, writePage } from './page-archive';
+import { getActiveSource } from './sources';
+import { HistoricalSnapshot, PlayerData, QuarantinedSnapshot, SnapshotAnomaly } from './types';
+import { QuarantinedSnapshotSchema, safeValidate } from '@/lib/schemas';
+
+const MAX_LISTED_PLAYERS = 10;
+
+const getQuarantinePath = (id: string) => `${QUARANTINE_BLOB_PREFIX}${id}.json`;
+const getQuarantinedPagePath = (id: string) => `${QUARANTINE_BLOB_PREFIX}${id}.page.json`;
+
+/**
+ * Quarantine id of a snapshot, derived from its capture time
+ * @param capturedAt - ISO capture timestamp
+ * @returns Id like "2025-11-10T140512Z"
+ */
+function toQuarantineId(capturedAt: string): string {
+  return capturedAt.replace(/\.\d+/, '').replace(/:/g, '');
+}
+
+/**
+ * Describe the players involved in an anomaly, truncated for alerts and logs
+ */
+function listPlayers(names: string[]): string {
+  const shown = names.slice(0, MAX_LISTED_PLAYERS).join(', ');
+  return names.length > MAX_LISTED_PLAYERS ? `${shown} and ${names.length - MAX_LISTED_PLAYERS} more` : shown;
+}
+
+/**
+ * Run the sanity rules on a scraped player list
+ * Duplicate names and rank gaps are checked on the list alone; the other rules
+ * need a previous snapshot and are skipped without one
+ * @param players - Scraped players in page order
+ * @param previous - Latest stored snapshot, or null for the first snapshot
+ * @param skippedRanks - Ranks of table rows the parser skipped, which are not rank gaps
+ * @returns Violated rules (empty if the scrape looks plausible)
+ */
+export function findSnapshotAnomalies(
+  players: PlayerData[],
+  previous: HistoricalSnapshot | null,
+  skippedRanks: number[] = []
+): SnapshotAnomaly[] {
+  const anomalies: SnapshotAnomaly[] = [];
+
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const player of players) {
+    if (seen.has(player.name)) {
+      duplicates.add(player.name);
+    }
+    seen.add(player.name);
+  }
+  if (duplicates.size > 0) {
+    anomalies.push({
+      rule: 'duplicate-names',
+      message: `${duplicates.size} player(s) listed more than once: ${listPlayers([...duplicates])}`,
+      players: [...duplicates]
+    });
+  }
+
+  // Ranks count rows: a row either ties with the row above or has its position as rank,
+  // counting the rows the parser skipped before it
+  const outOfSequence = players.filter((player, index) => {
+    const tied = index > 0 && player.rank === players[index - 1].rank;
+    const skippedBefore = skippedRanks.filter(rank => rank < player.rank).length;
+    return !tied && player.rank !== index + 1 + skippedBefore;
+  });
+  if (outOfSequence.length > 0) {
+    anomalies.push({
+      rule: 'rank-gaps',
+      message: `${outOfSequence.length} row(s) out of rank sequence: ${listPlayers(outOfSequence.map(p => `${p.name} (rank ${p.rank} in row ${players.indexOf(p) + 1})`))}`,
+      players: outOfSequence.map(p => p.name)
+    });
+  }
+
+  if (!previous) {
+    return anomalies;
+  }
+
+  const comparedWith = `${previous.date}${previous.revision !== undefined ? ` revision ${previous.revision}` : ''}`;
+
+  const drop = (previous.players.length - players.length) / previous.players.length;
+  if (drop > ANOMALY_MAX_PLAYER_DROP) {
+    anomalies.push({
+      rule: 'player-count-drop',
+      message: `Player count dropped from ${previous.players.length} to ${players.length} (${Math.round(drop * 100)}%) since ${comparedWith}`
+    });
+  }
+
+  const previousHands = new Map(previous.players.map(p => [p.name, p.hands]));
+  const decreased = players.filter(p => p.hands < (previousHands.get(p.name) ?? 0));
+  if (decreased.length > 0) {
+    anomalies.push({
+      rule: 'hands-decreased',
+      message: `${decreased.length} player(s) have fewer hands than in ${comparedWith}: ${listPlayers(decreased.map(p => `${p.name} (${previousHands.get(p.name)} -> ${p.hands})`))}`,
+      players: decreased.map(p => p.name)
+    });
+  }
+
+  const totalHands = players.reduce((sum, p) => sum + p.hands, 0);
+  const previousTotalHands = previous.players.reduce((sum, p) => sum + p.hands, 0);
+  if (previousTotalHands > 0 && (totalHands - previousTotalHands) / previousTotalHands > ANOMALY_MAX_TOTAL_HANDS_GROWTH) {
+    anomalies.push({
+      rule: 'totals-jump',
+      message: `Total hands jumped from ${previousTotalHands} to ${totalHands} since ${comparedWith}`
+    });
+  }
+
+  return anomalies;
+}
+
+/**
+ * Hold back a snapshot that violated sanity rules and alert an operator
+ * A page already quarantined with the same webpage timestamp is not stored or
+ * alerted again, so an unchanged broken page does not raise an alert every run
+ * @param snapshot - Snapshot that would have been saved (its revision is dropped)
+ * @param anomalies - Violated rules
+ * @param previous - Snapshot the rules compared against
+ * @param page - Page the snapshot was parsed from, kept with it and archived on approval
+ * @returns The stored (or previously stored) quarantine record
+ */
+export async function quarantineSnapshot(
+  snapshot: HistoricalSnapshot,
+  anomalies: SnapshotAnomaly[],
+  previous: HistoricalSnapshot | null,
+  page?: { url: string; html: string }
+): Promise<QuarantinedSnapshot> {
+  const existing = (await listQuarantinedSnapshots())
+    .find(record => record.snapshot.date === snapshot.date && record.snapshot.webpageTimestamp === snapshot.webpageTimestamp);
+  if (existing) {
+    console.warn(`⚠️ Page "${snapshot.webpageTimestamp}" is already quarantined as ${existing.id}`);
+    return existing;
+  }
+
+  // Stored like a snapshot, so it can be upgraded by migrations before approval
+  const unnumbered: HistoricalSnapshot = { ...snapshot, schemaVersion: SNAPSHOT_SCHEMA_VERSION };
+  delete unnumbered.revision;
+
+  const record: QuarantinedSnapshot = {
+    id: toQuarantineId(snapshot.capturedAt),
+    quarantinedAt: new Date().toISOString(),
+    comparedWith: previous ? `${previous.date}#${previous.revision ?? 0}` : null,
+    anomalies,
+    snapshot: unnumbered
+  };
+  await writeJsonBlob(getQuarantinePath(record.id), record, { cacheControlMaxAge: 0 });
+  if (page) {
+    await writePage(getQuarantinedPagePath(record.id), { ...page, capturedAt: snapshot.capturedAt });
+  }
+
+  await sendAlert(`Suspicious scrape of ${getActiveSource().id} quarantined as ${record.id}, snapshot not saved`, [
+    ...anomalies.map(anomaly => `${anomaly.rule}: ${anomaly.message}`),
+    `Review, then run: npx tsx scripts/quarantine.ts approve ${record.id} (or discard ${record.id})`
+  ]);
+
+  return record;
+}
+
+/**
+ * Load a quarantined snapshot of the active source
+ * @param id - Quarantine id
+ * @returns The record, or null if it does not exist or is invalid
+ */
+export async function loadQuarantinedSnapshot(id: string): Promise<QuarantinedSnapshot | null> {
+  const data = await readJsonBlob(getQuarantinePath(id));
+  if (data === null) {
+    return null;
+  }
+
+  const record = safeValidate(QuarantinedSnapshotSchema, data, `Quarantined snapshot ${id}`);
+  const snapshot = record && parseStoredSnapshot(record.snapshot, `Quarantined snapshot ${id}`);
+  return record && snapshot ? { ...record, snapshot } : null;
+}
+
+/**
+ * List the quarantined snapshots of the active source
+ * @returns Records, oldest first (invalid records are skipped with a warning)
+ */
+export async function listQuarantinedSnapshots(): Promise<QuarantinedSnapshot[]> {
+  const blobs = await getBlobStore().list(QUARANTINE_BLOB_PREFIX);
+  const ids = blobs
+    .map(blob => blob.pathname.slice(QUARANTINE_BLOB_PREFIX.length))
+    .filter(name => name.endsWith('.json') && !name.endsWith('.page.json'))
+    .map(name => name.slice(0, -'.json'.length))
+    .sort();
+
+  const records: QuarantinedSnapshot[] = [];
+  for (const id of ids) {
+    const record = await loadQuarantinedSnapshot(id);
+    if (record) {
+      records.push(record);
+    } else {
+      console.warn(`⚠️  Quarantine record ${id} could not be read, skipped`);
+    }
+  }
+  return records;
+}
+
+/**
+ * Save a quarantined snapshot as the next revision of its date
+ * Refused when a newer revision was saved since, because the daily file must
+ * keep holding the latest data of the day; discard the record instead
+ * @param id - Quarantine id
+ * @returns The revision number the snapshot was saved as
+ * @throws Error if the record does not exist, is outdated, or saving fails
+ */
+export async function approveQuarantinedSnapshot(id: string): Promise<number> {
+  const record = await loadQuarantinedSnapshot(id);
+  if (!record) {
+    throw new Error(`No quarantined snapshot ${id}`);
+  }
+
+  const { snapshot } = record;
+  const latest = await loadSnapshot(snapshot.date);
+  if (latest && latest.capturedAt > snapshot.capturedAt) {
+    throw new Error(
+      `Revision ${latest.revision ?? 0} of ${snapshot.date} was captured after this snapshot (${latest.capturedAt}), discard it instead`
+    );
+  }
+
+  if (latest && latest.revision === undefined) {
+    // Daily snapshot written before intraday revisions existed: keep it as revision 0
+    await saveSnapshot({ ...latest, revision: 0 });
+  }
+
+  const revision = latest ? (latest.revision ?? 0) + 1 : 1;
+  if (!await saveSnapshot({ ...snapshot, revision })) {
+    throw new Error(`Failed to save ${snapshot.date} revision ${revision}`);
+  }
+
+  const page = await readPage(getQuarantinedPagePath(id));
+  if (page) {
+    await archivePage(snapshot.date, revision, page);
+  }
+
+  await getBlobStore().delete([getQuarantinePath(id), getQuarantinedPagePath(id)]);
+  return revision;
+}
+
+/**
+ * Delete a quarantined snapshot without saving it
+ * @param id - Quarantine id
+ * @throws Error if the record does not exist
+ */
+export async function discardQuarantinedSnapshot(id: string): Promise<void> {
+  if (await readJsonBlob(getQuarantinePath(id)) === null) {
+    throw new Error(`No quarantined snapshot ${id}`);
+  }
+  await getBlobStore().delete([getQuarantinePath(id), getQuarantinedPagePath(id)]);
+}
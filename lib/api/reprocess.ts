@@ -0,0 +1,320 @@
+/**
+ * Reprocessing of archived pages
+ * Re-runs the current parser over the pages archived next to snapshot revisions
+ * (see page-archive.ts) and rewrites the revisions whose parsed content changed,
+ * so a parser fix can repair history. Days whose snapshots are missing can be
+ * restored from their archived pages the same way. Afterwards the snapshot
+ * index and the player series are rebuilt from the rewritten snapshots.
+ */
+
+import { SNAPSHOT_SCHEMA_VERSION } from './constants';
+import { writeJsonBlob } from './blob-store';
+import { listArchivedPages, loadArchivedPage } from './page-archive';
+import {
+  getAvailableSnapshots,
+  getSnapshotPath,
+  loadSnapshot,
+  rebuildSnapshotIndex,
+  toStoredPlayers
+} from './snapshot-management';
+import { crossCheckDeltas } from './delta-check';
+import { rebuildPlayerSeries } from './player-series';
+import { loadPlayerRegistry } from './player-registry';
+import { getActiveSource } from './sources';
+import { parseWebpageInstant } from './webpage-time';
+import { ArchivedPage, HistoricalSnapshot, PlayerData, PlayerRegistry } from './types';
+import { HistoricalSnapshotSchema, validateOrThrow } from '@/lib/schemas';
+
+const PLAYER_FIELDS: Array<keyof PlayerData> = [
+  'rank', 'evWon', 'evBB100', 'won', 'hands', 'sourceEvWonChange', 'sourceHandsChange'
+];
+
+/**
+ * Outcome of reprocessing one archived page
+ */
+export interface ReprocessedRevision {
+  date: string;
+  revision: number;
+  status: 'changed' | 'unchanged' | 'failed';
+  changes: string[]; // What the current parser reads differently from the stored revision
+  error?: string;
+}
+
+/**
+ * Result of a reprocessing run
+ */
+export interface ReprocessReport {
+  revisions: ReprocessedRevision[];
+  written: boolean; // False for dry runs and runs without changes
+}
+
+/**
+ * Outcome of restoring one missing date from its archived pages
+ */
+export interface RestoredDate {
+  date: string;
+  status: 'restored' | 'no-archive' | 'failed';
+  revisions: number[]; // Revisions rebuilt from archived pages
+  error?: string;
+}
+
+/**
+ * Result of a restore run
+ */
+export interface RestoreReport {
+  dates: RestoredDate[];
+  written: boolean; // False for dry runs and runs that restored nothing
+}
+
+/**
+ * Parse an archived page into a snapshot revision with the current parser
+ * @param date - Snapshot date
+ * @param revision - Snapshot revision
+ * @param page - Archived page
+ * @param context - Stored dates (most recent first) for the delta check, the
+ *   player registry, and the webpage timestamp to keep if the page has none
+ * @returns The revision as the current parser reads it
+ * @throws Error if the page has no timestamp and no fallback is given
+ */
+async function parseArchivedSnapshot(
+  date: string,
+  revision: number,
+  page: ArchivedPage,
+  context: { storedDates: string[]; registry: PlayerRegistry; webpageTimestamp?: string }
+): Promise<HistoricalSnapshot> {
+  const source = getActiveSource();
+  const webpageTimestamp = source.parseTimestamp(page.html) || context.webpageTimestamp;
+  if (!webpageTimestamp) {
+    throw new Error('Archived page has no webpage timestamp');
+  }
+  const { players } = source.parseTable(page.html);
+  const dailyMovers = source.parseDailyMovers(page.html);
+
+  const previousDate = context.storedDates.find(d => d < date);
+  const previousSnapshot = previousDate ? await loadSnapshot(previousDate) : null;
+  const deltaCheck = crossCheckDeltas(players, previousSnapshot, context.registry);
+
+  return {
+    date,
+    revision,
+    webpageTimestamp,
+    webpageUpdatedAt: parseWebpageInstant(webpageTimestamp, new Date(page.capturedAt)),
+    players: toStoredPlayers(players),
+    capturedAt: page.capturedAt,
+    ...(deltaCheck.checkedPlayers > 0 && { deltaCheck }),
+    ...(dailyMovers && { dailyMovers })
+  };
+}
+
+/**
+ * Rebuild the index and the player series after snapshots were written directly
+ */
+async function rebuildDerivedData(): Promise<void> {
+  // Rebuilt wholesale: pending log entries still describe the old revisions
+  await rebuildSnapshotIndex();
+  console.log('Rebuilt snapshot index from stored snapshots');
+
+  // Rewritten snapshots bypass saveSnapshot, so derive the player series afresh
+  await rebuildPlayerSeries();
+  console.log('Rebuilt player series from stored snapshots');
+}
+
+/**
+ * Describe how a re-parsed snapshot differs from the stored one
+ * @param stored - Stored revision
+ * @param reparsed - Revision as parsed by the current parser
+ * @returns One line per difference (empty if identical)
+ */
+export function describeSnapshotChanges(stored: HistoricalSnapshot, reparsed: HistoricalSnapshot): string[] {
+  const changes: string[] = [];
+
+  if (stored.webpageTimestamp !== reparsed.webpageTimestamp) {
+    changes.push(`webpageTimestamp: "${stored.webpageTimestamp}" -> "${reparsed.webpageTimestamp}"`);
+  }
+
+  const storedPlayers = new Map(stored.players.map(p => [p.name, p]));
+  const reparsedNames = new Set(reparsed.players.map(p => p.name));
+  const added = reparsed.players.filter(p => !storedPlayers.has(p.name)).map(p => p.name);
+  const removed = stored.players.filter(p => !reparsedNames.has(p.name)).map(p => p.name);
+
+  if (stored.players.length !== reparsed.players.length) {
+    changes.push(`players: ${stored.players.length} -> ${reparsed.players.length}`);
+  }
+  if (added.length > 0) {
+    changes.push(`added: ${added.join(', ')}`);
+  }
+  if (removed.length > 0) {
+    changes.push(`removed: ${removed.join(', ')}`);
+  }
+
+  const changedFields = new Map<keyof PlayerData, string[]>();
+  for (const player of reparsed.players) {
+    const before = storedPlayers.get(player.name);
+    if (!before) continue;
+
+    for (const field of PLAYER_FIELDS) {
+      if (before[field] !== player[field]) {
+        changedFields.set(field, [...(changedFields.get(field) ?? []), player.name]);
+      }
+    }
+  }
+  for (const [field, names] of changedFields) {
+    changes.push(`${field} changed for ${names.length} player(s): ${names.slice(0, 5).join(', ')}${names.length > 5 ? ', ...' : ''}`);
+  }
+
+  if (JSON.stringify(stored.dailyMovers ?? null) !== JSON.stringify(reparsed.dailyMovers ?? null)) {
+    changes.push('dailyMovers changed');
+  }
+
+  return changes;
+}
+
+/**
+ * Re-parse the archived pages of a date range and rewrite changed revisions
+ * Revisions are processed oldest first, so the delta check of a date compares
+ * with the already reprocessed previous date
+ * @param from - First date (inclusive)
+ * @param to - Last date (inclusive)
+ * @param options - dryRun reports what would change without writing
+ * @returns Outcome per archived page
+ */
+export async function reprocessArchivedPages(
+  from: string,
+  to: string,
+  options: { dryRun?: boolean } = {}
+): Promise<ReprocessReport> {
+  const pages = await listArchivedPages(from, to);
+  const storedDates = await getAvailableSnapshots(); // Most recent first
+  const registry = await loadPlayerRegistry();
+  const revisions: ReprocessedRevision[] = [];
+
+  for (const { date, revision } of pages) {
+    try {
+      const [stored, page, daily] = await Promise.all([
+        loadSnapshot(date, revision),
+        loadArchivedPage(date, revision),
+        loadSnapshot(date)
+      ]);
+      if (!stored || !page) {
+        throw new Error(stored ? 'Archived page could not be read' : 'No stored snapshot for this revision');
+      }
+
+      const reparsed = await parseArchivedSnapshot(
+        date,
+        revision,
+        { ...page, capturedAt: stored.capturedAt },
+        { storedDates, registry, webpageTimestamp: stored.webpageTimestamp }
+      );
+
+      const changes = describeSnapshotChanges(stored, reparsed);
+      revisions.push({ date, revision, status: changes.length > 0 ? 'changed' : 'unchanged', changes });
+
+      if (changes.length === 0 || options.dryRun) {
+        continue;
+      }
+
+      const validated = validateOrThrow(
+        HistoricalSnapshotSchema,
+        { ...reparsed, schemaVersion: SNAPSHOT_SCHEMA_VERSION },
+        `Reprocessed snapshot ${date} revision ${revision}`
+      );
+      await writeJsonBlob(getSnapshotPath(date, revision), validated);
+
+      // The daily file holds the latest revision of the date
+      if (daily?.revision === revision) {
+        await writeJsonBlob(getSnapshotPath(date), validated);
+      }
+      console.log(`Rewrote ${date} revision ${revision} (${changes.length} change(s))`);
+    } catch (error) {
+      revisions.push({
+        date,
+        revision,
+        status: 'failed',
+        changes: [],
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  const written = !options.dryRun && revisions.some(r => r.status === 'changed');
+  if (written) {
+    await rebuildDerivedData();
+  }
+
+  return { revisions, written };
+}
+
+/**
+ * Restore the snapshots of dates without a daily snapshot from their archived pages
+ * Every archived revision of a date is re-parsed and written; the latest also
+ * becomes the daily snapshot. Dates are processed oldest first, so a restored
+ * date serves as the previous date of the next one
+ * @param dates - Dates without a daily snapshot (YYYY-MM-DD)
+ * @param options - dryRun parses the pages without writing
+ * @returns Outcome per date
+ */
+export async function restoreSnapshotsFromArchive(
+  dates: string[],
+  options: { dryRun?: boolean } = {}
+): Promise<RestoreReport> {
+  const sorted = [...dates].sort();
+  if (sorted.length === 0) {
+    return { dates: [], written: false };
+  }
+
+  const pages = await listArchivedPages(sorted[0], sorted[sorted.length - 1]);
+  const storedDates = await getAvailableSnapshots(); // Most recent first
+  const registry = await loadPlayerRegistry();
+  const results: RestoredDate[] = [];
+
+  for (const date of sorted) {
+    const revisions = pages.filter(page => page.date === date).map(page => page.revision); // Oldest first
+    if (revisions.length === 0) {
+      results.push({ date, status: 'no-archive', revisions: [] });
+      continue;
+    }
+
+    try {
+      const snapshots: HistoricalSnapshot[] = [];
+      for (const revision of revisions) {
+        const page = await loadArchivedPage(date, revision);
+        if (!page) {
+          throw new Error(`Archived page of revision ${revision} could not be read`);
+        }
+        const snapshot = await parseArchivedSnapshot(date, revision, page, { storedDates, registry });
+        snapshots.push(validateOrThrow(
+          HistoricalSnapshotSchema,
+          { ...snapshot, schemaVersion: SNAPSHOT_SCHEMA_VERSION },
+          `Restored snapshot ${date} revision ${revision}`
+        ));
+      }
+
+      if (!options.dryRun) {
+        for (const snapshot of snapshots) {
+          await writeJsonBlob(getSnapshotPath(date, snapshot.revision), snapshot);
+        }
+        // The daily file holds the latest revision of the date
+        await writeJsonBlob(getSnapshotPath(date), snapshots[snapshots.length - 1]);
+        console.log(`Restored ${date} from ${snapshots.length} archived page(s)`);
+      }
+
+      storedDates.push(date);
+      storedDates.sort().reverse();
+      results.push({ date, status: 'restored', revisions });
+    } catch (error) {
+      results.push({
+        date,
+        status: 'failed',
+        revisions,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  const written = !options.dryRun && results.some(r => r.status === 'restored');
+  if (written) {
+    await rebuildDerivedData();
+  }
+
+  return { dates: results, written };
+}
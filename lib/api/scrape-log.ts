@@ -0,0 +1,63 @@
+/**
+ * Scrape run history
+ * Every ingestion attempt (successful or not) is recorded with its timing,
+ * HTTP status, parse counts and error reason. Runs are appended to a document
+ * log (see ./document-log.ts) and compacted into scrape-runs.json, which keeps
+ * the most recent SCRAPE_LOG_MAX_RUNS runs of the source.
+ */
+
+import { SCRAPE_LOG_MAX_RUNS, SCRAPE_RUNS_BLOB_PATH } from './constants';
+import { DocumentLog, appendLogEntry, compactDocumentLog, readLoggedDocument } from './document-log';
+import { ScrapeRun, ScrapeRunHistory } from './types';
+
+/**
+ * Add one run to the history
+ * Runs are keyed by start time, so replaying a run is harmless
+ * @param history - Current history
+ * @param run - Recorded scrape attempt
+ * @returns History sorted newest first, trimmed to SCRAPE_LOG_MAX_RUNS
+ */
+export function applyScrapeRun(history: ScrapeRunHistory, run: ScrapeRun): ScrapeRunHistory {
+  const runs = [...history.runs.filter(r => r.startedAt !== run.startedAt), run]
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+    .slice(0, SCRAPE_LOG_MAX_RUNS);
+
+  return { runs };
+}
+
+/**
+ * Scrape history stored as an append-only log compacted into scrape-runs.json
+ */
+export const scrapeRunLog: DocumentLog<ScrapeRunHistory, ScrapeRun> = {
+  name: 'scrape-runs',
+  documentPath: SCRAPE_RUNS_BLOB_PATH,
+  emptyDocument: () => ({ runs: [] }),
+  applyEntry: applyScrapeRun
+};
+
+/**
+ * Record a scrape attempt of the active source
+ * Failing to record must not fail ingestion, so errors are only logged
+ * @param run - Scrape attempt to record
+ */
+export async function recordScrapeRun(run: ScrapeRun): Promise<void> {
+  try {
+    await appendLogEntry(scrapeRunLog, run);
+    await compactDocumentLog(scrapeRunLog);
+  } catch (error) {
+    console.error('Error recording scrape run:', error);
+  }
+}
+
+/**
+ * Load the scrape history of the active source
+ * @returns Recorded runs, newest first (empty if none were recorded)
+ */
+export async function loadScrapeRuns(): Promise<ScrapeRun[]> {
+  try {
+    return (await readLoggedDocument(scrapeRunLog)).runs;
+  } catch (error) {
+    console.error('Error loading scrape runs:', error);
+    return [];
+  }
+}
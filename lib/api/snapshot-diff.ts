@@ -0,0 +1,63 @@
+/**
+ * Differences between two stored snapshots
+ * Generalizes calculateChanges (live data vs previous day) to any pair of snapshots
+ */
+
+import { calculateChanges } from './snapshot-management';
+import { createPlayerMatcher } from './player-registry';
+import { HistoricalSnapshot, PlayerRegistry, RankMovement, SnapshotDiff } from './types';
+
+/**
+ * Snapshot metadata without players
+ */
+function toMetadata(snapshot: HistoricalSnapshot): SnapshotDiff['from'] {
+  return {
+    date: snapshot.date,
+    ...(snapshot.revision !== undefined && { revision: snapshot.revision }),
+    webpageTimestamp: snapshot.webpageTimestamp,
+    ...(snapshot.webpageUpdatedAt !== undefined && { webpageUpdatedAt: snapshot.webpageUpdatedAt }),
+    capturedAt: snapshot.capturedAt
+  };
+}
+
+/**
+ * Compare two snapshots
+ * @param from - Earlier snapshot
+ * @param to - Later snapshot
+ * @param registry - Player registry, so a renamed player is not listed as entered and left
+ * @returns Per-player deltas, players that entered and left, and rank movements
+ */
+export function diffSnapshots(
+  from: HistoricalSnapshot,
+  to: HistoricalSnapshot,
+  registry: PlayerRegistry | null = null
+): SnapshotDiff {
+  const getPlayerKey = createPlayerMatcher(registry);
+  const fromKeys = new Set(from.players.map(p => getPlayerKey(p.name)));
+  const toKeys = new Set(to.players.map(p => getPlayerKey(p.name)));
+
+  const players = calculateChanges(
+    to.players.filter(p => fromKeys.has(getPlayerKey(p.name))),
+    from,
+    registry
+  ).sort((a, b) => a.rank - b.rank);
+
+  const rankMovements: RankMovement[] = players
+    .filter(p => p.rankChange !== undefined && p.rankChange !== 0)
+    .map(p => ({
+      name: p.name,
+      fromRank: p.rank + (p.rankChange ?? 0),
+      toRank: p.rank,
+      rankChange: p.rankChange ?? 0
+    }))
+    .sort((a, b) => b.rankChange - a.rankChange || a.toRank - b.toRank);
+
+  return {
+    from: toMetadata(from),
+    to: toMetadata(to),
+    players,
+    entered: to.players.filter(p => !fromKeys.has(getPlayerKey(p.name))).sort((a, b) => a.rank - b.rank),
+    left: from.players.filter(p => !toKeys.has(getPlayerKey(p.name))).sort((a, b) => a.rank - b.rank),
+    rankMovements
+  };
+}
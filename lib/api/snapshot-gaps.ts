@@ -0,0 +1,142 @@
+/**
+ * Snapshot gap detection
+ * Finds dates without a snapshot between the first and last stored snapshot,
+ * and dates where the index and storage disagree. Gaps that cannot be filled
+ * can be marked as known-missing so they are reported and displayed explicitly
+ * instead of silently skipped.
+ */
+
+import { KNOWN_MISSING_BLOB_PATH, SNAPSHOTS_BLOB_PREFIX } from './constants';
+import { getBlobStore, readJsonBlob, writeJsonBlob } from './blob-store';
+import { readLoggedDocument } from './document-log';
+import { parseSnapshotPath, snapshotIndexLog } from './snapshot-management';
+import { KnownMissingDates } from './types';
+
+/**
+ * Gap report for the stored snapshots
+ */
+export interface SnapshotGapReport {
+  firstDate: string | null;
+  lastDate: string | null;
+  storedDates: number;
+  missingDates: string[]; // No snapshot and not marked as known-missing
+  knownMissingDates: Array<{ date: string; reason: string }>; // No snapshot, marked
+  staleKnownMissing: string[]; // Marked as missing but a snapshot exists now
+  missingInIndex: string[]; // In storage but not in the index
+  missingInStorage: string[]; // In the index but not in storage
+}
+
+/**
+ * List every date after `from` and before `to` (both exclusive)
+ * @param from - Date string in YYYY-MM-DD format
+ * @param to - Date string in YYYY-MM-DD format
+ * @returns Dates in ascending order
+ */
+export function listDatesBetween(from: string, to: string): string[] {
+  const dates: string[] = [];
+  const current = new Date(`${from}T00:00:00Z`);
+  const end = new Date(`${to}T00:00:00Z`);
+
+  current.setUTCDate(current.getUTCDate() + 1);
+  while (current < end) {
+    dates.push(current.toISOString().split('T')[0]);
+    current.setUTCDate(current.getUTCDate() + 1);
+  }
+  return dates;
+}
+
+/**
+ * Find dates without a snapshot between the first and last stored date
+ * @param storedDates - Dates that have a daily snapshot (any order)
+ * @returns Missing dates in ascending order
+ */
+export function findMissingDates(storedDates: string[]): string[] {
+  if (storedDates.length < 2) {
+    return [];
+  }
+
+  const sorted = [...storedDates].sort();
+  const stored = new Set(sorted);
+  return listDatesBetween(sorted[0], sorted[sorted.length - 1]).filter(date => !stored.has(date));
+}
+
+/**
+ * Load the dates marked as known-missing
+ * @param options - Pass revalidate to allow a cached read (app routes)
+ * @returns Known-missing document (empty if none are marked)
+ */
+export async function loadKnownMissingDates(options?: { revalidate?: number }): Promise<KnownMissingDates> {
+  try {
+    return await readJsonBlob<KnownMissingDates>(KNOWN_MISSING_BLOB_PATH, options) ?? { dates: {} };
+  } catch (error) {
+    console.error('Error loading known-missing dates:', error);
+    return { dates: {} };
+  }
+}
+
+/**
+ * Mark dates as known-missing
+ * Only written by the repair command, so a plain read-modify-write is sufficient
+ * @param dates - Dates in YYYY-MM-DD format
+ * @param reason - Why the dates have no snapshot
+ */
+export async function markKnownMissing(dates: string[], reason: string): Promise<void> {
+  const document = await readJsonBlob<KnownMissingDates>(KNOWN_MISSING_BLOB_PATH) ?? { dates: {} };
+  const markedAt = new Date().toISOString();
+
+  for (const date of dates) {
+    document.dates[date] = { reason, markedAt };
+  }
+
+  await writeJsonBlob(KNOWN_MISSING_BLOB_PATH, document, { cacheControlMaxAge: 0 });
+}
+
+/**
+ * Remove known-missing markers (e.g. after a gap was filled)
+ * @param dates - Dates in YYYY-MM-DD format
+ * @returns Number of markers removed
+ */
+export async function unmarkKnownMissing(dates: string[]): Promise<number> {
+  const document = await readJsonBlob<KnownMissingDates>(KNOWN_MISSING_BLOB_PATH) ?? { dates: {} };
+  const removed = dates.filter(date => date in document.dates);
+
+  if (removed.length > 0) {
+    removed.forEach(date => delete document.dates[date]);
+    await writeJsonBlob(KNOWN_MISSING_BLOB_PATH, document, { cacheControlMaxAge: 0 });
+  }
+  return removed.length;
+}
+
+/**
+ * Build a gap report from storage, the snapshot index and the known-missing markers
+ * All reads are uncached
+ * @returns Gap report
+ */
+export async function buildGapReport(): Promise<SnapshotGapReport> {
+  const blobs = await getBlobStore().list(SNAPSHOTS_BLOB_PREFIX);
+  const storedDates = blobs
+    .map(blob => parseSnapshotPath(blob.pathname))
+    .filter((parsed): parsed is { date: string } => parsed !== null && parsed.revision === undefined)
+    .map(parsed => parsed.date)
+    .sort();
+
+  const index = await readLoggedDocument(snapshotIndexLog);
+  const indexDates = index.snapshots.map(s => s.date);
+  const knownMissing = (await loadKnownMissingDates()).dates;
+
+  const stored = new Set(storedDates);
+  const missing = findMissingDates(storedDates);
+
+  return {
+    firstDate: storedDates[0] ?? null,
+    lastDate: storedDates[storedDates.length - 1] ?? null,
+    storedDates: storedDates.length,
+    missingDates: missing.filter(date => !(date in knownMissing)),
+    knownMissingDates: missing
+      .filter(date => date in knownMissing)
+      .map(date => ({ date, reason: knownMissing[date].reason })),
+    staleKnownMissing: Object.keys(knownMissing).filter(date => stored.has(date)).sort(),
+    missingInIndex: storedDates.filter(date => !indexDates.includes(date)),
+    missingInStorage: indexDates.filter(date => !stored.has(date)).sort()
+  };
+}
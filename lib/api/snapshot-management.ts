@@ -3,9 +3,30 @@
  * Handles loading, saving, and managing historical snapshots
  */
 
-import { put, list } from '@vercel/blob';
-import { SNAPSHOTS_BLOB_PREFIX } from './constants';
-import { HistoricalSnapshot, PlayerData } from './types';
+import { SNAPSHOTS_BLOB_PREFIX, SNAPSHOT_INDEX_BLOB_PATH, SNAPSHOT_SCHEMA_VERSION } from './constants';
+import { getBlobStore, readJsonBlob, writeJsonBlob } from './blob-store';
+import {
+  DocumentLog,
+  appendLogEntry,
+  readLoggedDocument,
+  compactDocumentLog,
+  replaceLoggedDocument
+} from './document-log';
+import { getSnapshotSchemaVersion, migrateSnapshotPayload } from './snapshot-migrations';
+import { updatePlayerSeries } from './player-series';
+import { parseWebpageInstant } from './webpage-time';
+import { findSnapshotAnomalies, quarantineSnapshot } from './quarantine';
+import { archivePage } from './page-archive';
+import { createPlayerMatcher } from './player-registry';
+import {
+  HistoricalSnapshot,
+  PlayerData,
+  PlayerRegistry,
+  SnapshotIndex,
+  SnapshotIndexEntry,
+  SnapshotIndexLogEntry,
+  SnapshotRevisionEntry
+} from './types';
 import { HistoricalSnapshotSchema, safeValidate } from '@/lib/schemas';
 
 /**
@@ -18,31 +39,71 @@ export function getTodayDate(): string {
 }
 
 /**
- * Get all available snapshot dates from Vercel Blob storage
+ * Get the storage path of a snapshot
+ * Daily snapshots live at "snapshots/YYYY-MM-DD.json" and always hold the latest
+ * revision of that day; every intraday revision is also kept at
+ * "snapshots/YYYY-MM-DD/NNN.json"
+ * @param date - Date string in YYYY-MM-DD format
+ * @param revision - Intraday revision number, omit for the daily snapshot
+ * @returns Blob pathname
+ */
+export function getSnapshotPath(date: string, revision?: number): string {
+  if (revision === undefined) {
+    return `${SNAPSHOTS_BLOB_PREFIX}${date}.json`;
+  }
+  return `${SNAPSHOTS_BLOB_PREFIX}${date}/${String(revision).padStart(3, '0')}.json`;
+}
+
+/**
+ * Parse a snapshot storage path back into its date and revision
+ * @param pathname - Blob pathname
+ * @returns Date and optional revision, or null if the path is not a snapshot
+ */
+export function parseSnapshotPath(pathname: string): { date: string; revision?: number } | null {
+  const dailyMatch = pathname.match(/^snapshots\/(\d{4}-\d{2}-\d{2})\.json$/);
+  if (dailyMatch) {
+    return { date: dailyMatch[1] };
+  }
+
+  const revisionMatch = pathname.match(/^snapshots\/(\d{4}-\d{2}-\d{2})\/(\d+)\.json$/);
+  if (revisionMatch) {
+    return { date: revisionMatch[1], revision: parseInt(revisionMatch[2], 10) };
+  }
+
+  return null;
+}
+
+/**
+ * Upgrade a stored snapshot payload to the current schema version and validate it
+ * @param data - Raw snapshot payload read from storage
+ * @param context - Context string for error logging
+ * @returns Validated snapshot or null if it cannot be migrated or is invalid
+ */
+export function parseStoredSnapshot(data: unknown, context: string): HistoricalSnapshot | null {
+  let migrated;
+  try {
+    migrated = migrateSnapshotPayload(data).payload;
+  } catch (error) {
+    console.error(`[Migration Error] ${context}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+
+  return safeValidate(HistoricalSnapshotSchema, migrated, context);
+}
+
+/**
+ * Get all available snapshot dates from blob storage
  * @returns Array of date strings (YYYY-MM-DD) sorted in descending order
  */
 export async function getAvailableSnapshots(): Promise<string[]> {
   try {
-    // OPTIMIZATION: Handle pagination for large blob lists (>1000 items)
-    const allBlobs: Array<{ pathname: string }> = [];
-    let cursor: string | undefined;
+    const blobs = await getBlobStore().list(SNAPSHOTS_BLOB_PREFIX);
     
-    do {
-      const { blobs, cursor: nextCursor } = await list({
-        prefix: SNAPSHOTS_BLOB_PREFIX,
-        limit: 1000,
-        cursor,
-      });
-      
-      allBlobs.push(...blobs);
-      cursor = nextCursor;
-    } while (cursor);
-    
-    const dates = allBlobs
+    const dates = blobs
       .map(blob => {
-        // Extract date from path like "snapshots/2025-11-10.json"
-        const match = blob.pathname.match(/snapshots\/(\d{4}-\d{2}-\d{2})\.json$/);
-        return match ? match[1] : null;
+        // Extract date from daily paths like "snapshots/2025-11-10.json"
+        const parsed = parseSnapshotPath(blob.pathname);
+        return parsed && parsed.revision === undefined ? parsed.date : null;
       })
       .filter((date): date is string => date !== null)
       .sort()
@@ -56,40 +117,24 @@ export async function getAvailableSnapshots(): Promise<string[]> {
 }
 
 /**
- * Load snapshot for a specific date from Vercel Blob storage
+ * Load snapshot for a specific date from blob storage
  * @param date - Date string in YYYY-MM-DD format
+ * @param revision - Intraday revision number, omit for the daily (latest) snapshot
  * @returns Historical snapshot or null if not found
  */
-export async function loadSnapshot(date: string): Promise<HistoricalSnapshot | null> {
+export async function loadSnapshot(date: string, revision?: number): Promise<HistoricalSnapshot | null> {
   try {
-    // Use list() with specific prefix to find the snapshot
-    const blobPath = `${SNAPSHOTS_BLOB_PREFIX}${date}.json`;
-    const { blobs } = await list({
-      prefix: blobPath,
-      limit: 1,
-    });
+    const blobPath = getSnapshotPath(date, revision);
+    // Cache for 1 hour to leverage CDN
+    const data = await readJsonBlob(blobPath, { revalidate: 3600 });
     
-    if (blobs.length === 0) {
+    if (data === null) {
       // Snapshot doesn't exist - this is normal
       return null;
     }
     
-    const blob = blobs[0];
-    const response = await fetch(blob.url, {
-      // Add cache control to leverage CDN
-      next: { revalidate: 3600 } // Cache for 1 hour
-    });
-    
-    if (!response.ok) {
-      console.error(`Failed to fetch snapshot for ${date}: ${response.statusText}`);
-      return null;
-    }
-    
-    const data = await response.json();
-    
-    // Validate snapshot data before returning
-    const validatedSnapshot = safeValidate(
-      HistoricalSnapshotSchema,
+    // Upgrade older snapshots and validate before returning
+    const validatedSnapshot = parseStoredSnapshot(
       data,
       `Snapshot validation for date ${date}`
     );
@@ -109,10 +154,16 @@ export async function loadSnapshot(date: string): Promise<HistoricalSnapshot | n
 /**
  * Load the most recent snapshot (for comparison)
  * Excludes today's snapshot to get the previous day's data
+ * OPTIMIZATION: Dates come from the snapshot index, not a list() of snapshots/,
+ * which also holds every intraday revision and archived page. Storage is only
+ * listed when there is no index yet
  * @returns The most recent historical snapshot or null if none exists
  */
 export async function loadPreviousDaySnapshot(): Promise<HistoricalSnapshot | null> {
-  const dates = await getAvailableSnapshots();
+  const index = await loadSnapshotIndex();
+  const dates = index.snapshots.length > 0
+    ? index.snapshots.map(entry => entry.date) // Most recent first
+    : await getAvailableSnapshots();
   const today = getTodayDate();
   
   // Find the most recent snapshot that's not today
@@ -126,80 +177,135 @@ export async function loadPreviousDaySnapshot(): Promise<HistoricalSnapshot | nu
 }
 
 /**
- * Load snapshot index from Vercel Blob storage
+ * Apply one snapshot index log entry to the index
+ * Order-independent: the date entry keeps the highest revision seen and
+ * revisions are merged by number, so replaying an entry twice is harmless
+ * @param index - Current index
+ * @param entry - Metadata of a saved snapshot
+ * @returns Updated index
+ */
+export function applySnapshotIndexEntry(index: SnapshotIndex, entry: SnapshotIndexLogEntry): SnapshotIndex {
+  const snapshots = [...index.snapshots];
+  const existingIndex = snapshots.findIndex(s => s.date === entry.date);
+  const existing = existingIndex >= 0 ? snapshots[existingIndex] : null;
+
+  const existingRevisions = existing?.revisions ?? [];
+  const revisions = entry.revision === undefined
+    ? existingRevisions
+    : [
+        ...existingRevisions.filter(r => r.revision !== entry.revision),
+        {
+          revision: entry.revision,
+          webpageTimestamp: entry.webpageTimestamp,
+          ...(entry.webpageUpdatedAt !== undefined && { webpageUpdatedAt: entry.webpageUpdatedAt }),
+          capturedAt: entry.capturedAt,
+          playerCount: entry.playerCount
+        }
+      ].sort((a, b) => a.revision - b.revision);
+
+  // The date entry describes the latest revision (snapshots without a revision sort first)
+  const isLatest = !existing || (entry.revision ?? -1) >= (existing.revision ?? -1);
+  const latest = isLatest ? entry : existing;
+
+  const newEntry: SnapshotIndexEntry = {
+    date: latest.date,
+    webpageTimestamp: latest.webpageTimestamp,
+    ...(latest.webpageUpdatedAt !== undefined && { webpageUpdatedAt: latest.webpageUpdatedAt }),
+    capturedAt: latest.capturedAt,
+    playerCount: latest.playerCount,
+    ...(latest.revision !== undefined && { revision: latest.revision }),
+    ...(revisions.length > 0 && { revisions })
+  };
+
+  if (existingIndex >= 0) {
+    snapshots[existingIndex] = newEntry;
+  } else {
+    snapshots.push(newEntry);
+  }
+
+  // Sort by date, most recent first
+  snapshots.sort((a, b) => b.date.localeCompare(a.date));
+
+  return {
+    ...index,
+    snapshots,
+    count: snapshots.length
+  };
+}
+
+/**
+ * Snapshot index stored as an append-only log of saved snapshots
+ * compacted into snapshots/index.json (see ./document-log.ts)
+ */
+export const snapshotIndexLog: DocumentLog<SnapshotIndex, SnapshotIndexLogEntry> = {
+  name: 'snapshot-index',
+  documentPath: SNAPSHOT_INDEX_BLOB_PATH,
+  emptyDocument: () => ({ snapshots: [] }),
+  applyEntry: applySnapshotIndexEntry
+};
+
+/**
+ * Load snapshot index from blob storage
  * This eliminates the need for expensive list() operations in the history route
- * @returns Snapshot metadata index
+ * @returns Snapshot metadata index (including entries not yet compacted)
  */
-export async function loadSnapshotIndex(): Promise<{ snapshots: Array<{ date: string; webpageTimestamp: string; capturedAt: string; playerCount: number }> }> {
+export async function loadSnapshotIndex(): Promise<SnapshotIndex> {
   try {
-    const indexPath = 'snapshots/index.json';
-    
-    // Use list() to find the index file
-    const { blobs } = await list({
-      prefix: indexPath,
-      limit: 1,
-    });
+    // Cache for 1 hour
+    const index = await readLoggedDocument(snapshotIndexLog, { revalidate: 3600 });
     
-    if (blobs.length === 0) {
+    if (index.snapshots.length === 0) {
       console.log('No snapshot index found, returning empty index');
-      return { snapshots: [] };
-    }
-    
-    const blob = blobs[0];
-    const response = await fetch(blob.url, {
-      next: { revalidate: 3600 } // Cache for 1 hour
-    });
-    
-    if (!response.ok) {
-      console.warn(`Failed to fetch snapshot index: ${response.statusText}`);
-      return { snapshots: [] };
     }
     
-    return await response.json();
+    return index;
   } catch (error) {
     console.error('Error loading snapshot index:', error);
     return { snapshots: [] };
   }
 }
 
+/**
+ * Fold pending snapshot index log entries into snapshots/index.json
+ * Called after ingestion; safe to run concurrently
+ */
+export async function compactSnapshotIndex(): Promise<void> {
+  await compactDocumentLog(snapshotIndexLog);
+}
+
+/**
+ * Build index metadata for a single revision of a snapshot
+ * @param snapshot - Snapshot to describe
+ * @returns Revision metadata (without the players)
+ */
+function toRevisionEntry(snapshot: HistoricalSnapshot): SnapshotRevisionEntry {
+  return {
+    revision: snapshot.revision ?? 0,
+    webpageTimestamp: snapshot.webpageTimestamp,
+    ...(snapshot.webpageUpdatedAt !== undefined && { webpageUpdatedAt: snapshot.webpageUpdatedAt }),
+    capturedAt: snapshot.capturedAt,
+    playerCount: snapshot.players.length
+  };
+}
+
 /**
  * Update snapshot index with new snapshot metadata
+ * Appends to the index log instead of rewriting index.json, so concurrent
+ * saves never drop each other's entries
  * @param snapshot - New snapshot to add to index
  */
 async function updateSnapshotIndex(snapshot: HistoricalSnapshot): Promise<void> {
   try {
-    // Load existing index
-    const index = await loadSnapshotIndex();
-    
-    // Add or update snapshot in index
-    const existingIndex = index.snapshots.findIndex(s => s.date === snapshot.date);
-    const newEntry = {
+    await appendLogEntry(snapshotIndexLog, {
       date: snapshot.date,
+      ...(snapshot.revision !== undefined && { revision: snapshot.revision }),
       webpageTimestamp: snapshot.webpageTimestamp,
+      ...(snapshot.webpageUpdatedAt !== undefined && { webpageUpdatedAt: snapshot.webpageUpdatedAt }),
       capturedAt: snapshot.capturedAt,
       playerCount: snapshot.players.length
-    };
-    
-    if (existingIndex >= 0) {
-      index.snapshots[existingIndex] = newEntry;
-    } else {
-      index.snapshots.push(newEntry);
-    }
-    
-    // Sort by date, most recent first
-    index.snapshots.sort((a, b) => b.date.localeCompare(a.date));
-    
-    // Save updated index
-    const indexPath = 'snapshots/index.json';
-    await put(indexPath, JSON.stringify(index, null, 2), {
-      access: 'public',
-      addRandomSuffix: false,
-      contentType: 'application/json',
-      cacheControlMaxAge: 0,
-      allowOverwrite: true,
     });
     
-    console.log(`Snapshot index updated with ${snapshot.date}`);
+    console.log(`Snapshot index updated with ${snapshot.date}${snapshot.revision !== undefined ? ` revision ${snapshot.revision}` : ''}`);
   } catch (error) {
     console.error('Error updating snapshot index:', error);
     // Non-critical error, don't throw
@@ -207,16 +313,167 @@ async function updateSnapshotIndex(snapshot: HistoricalSnapshot): Promise<void>
 }
 
 /**
- * Save snapshot to Vercel Blob storage
+ * Rebuild the snapshot index by scanning every snapshot in blob storage
+ * Used to repair an index that drifted out of sync with stored snapshots.
+ * The index is replaced wholesale and pending log entries are discarded, so
+ * dates whose snapshots were deleted do not come back on the next read
+ * @returns The rebuilt index with success and error counts
+ */
+export async function rebuildSnapshotIndex(): Promise<{
+  index: SnapshotIndex;
+  successCount: number;
+  errorCount: number;
+}> {
+  const store = getBlobStore();
+  const blobs = await store.list(SNAPSHOTS_BLOB_PREFIX);
+
+  // Only snapshot JSON files (exclude the index itself)
+  const snapshotBlobs = blobs.filter(blob => parseSnapshotPath(blob.pathname) !== null);
+
+  console.log(`📸 Processing ${snapshotBlobs.length} snapshot(s)...`);
+
+  const entries: SnapshotIndexEntry[] = [];
+  const revisionsByDate = new Map<string, SnapshotRevisionEntry[]>();
+  let successCount = 0;
+  let errorCount = 0;
+
+  for (const blob of snapshotBlobs) {
+    try {
+      const data = await readJsonBlob(blob.pathname);
+
+      // Upgrade and validate snapshot data
+      const validatedSnapshot = parseStoredSnapshot(
+        data,
+        `Snapshot validation for ${blob.pathname}`
+      );
+
+      if (!validatedSnapshot) {
+        console.warn(`⚠️  Invalid snapshot data for ${blob.pathname}, skipping`);
+        errorCount++;
+        continue;
+      }
+
+      if (parseSnapshotPath(blob.pathname)?.revision !== undefined) {
+        // Intraday revision file, attached to its daily entry below
+        const revisions = revisionsByDate.get(validatedSnapshot.date) ?? [];
+        revisions.push(toRevisionEntry(validatedSnapshot));
+        revisionsByDate.set(validatedSnapshot.date, revisions);
+      } else {
+        entries.push({
+          date: validatedSnapshot.date,
+          webpageTimestamp: validatedSnapshot.webpageTimestamp,
+          webpageUpdatedAt: validatedSnapshot.webpageUpdatedAt,
+          capturedAt: validatedSnapshot.capturedAt,
+          playerCount: validatedSnapshot.players.length,
+          ...(validatedSnapshot.revision !== undefined && { revision: validatedSnapshot.revision })
+        });
+      }
+
+      successCount++;
+      console.log(`✅ Processed ${blob.pathname} (${validatedSnapshot.players.length} players)`);
+    } catch (error) {
+      console.error(`❌ Error processing ${blob.pathname}:`, error);
+      errorCount++;
+    }
+  }
+
+  for (const entry of entries) {
+    const revisions = revisionsByDate.get(entry.date);
+    if (revisions) {
+      entry.revisions = revisions.sort((a, b) => a.revision - b.revision);
+      revisionsByDate.delete(entry.date);
+    }
+  }
+
+  for (const date of revisionsByDate.keys()) {
+    console.warn(`⚠️  Revisions found for ${date} but no daily snapshot, not indexed`);
+  }
+
+  // Sort by date, most recent first
+  entries.sort((a, b) => b.date.localeCompare(a.date));
+
+  const index: SnapshotIndex = {
+    snapshots: entries,
+    lastUpdated: new Date().toISOString(),
+    count: entries.length
+  };
+
+  // Never replace an existing index with an empty one
+  if (entries.length > 0) {
+    await replaceLoggedDocument(snapshotIndexLog, index);
+    console.log(`✅ Index saved successfully: ${SNAPSHOT_INDEX_BLOB_PATH}`);
+  }
+
+  return { index, successCount, errorCount };
+}
+
+/**
+ * Rewrite every stored snapshot that uses an older schema version
+ * Snapshots are upgraded on read anyway; this makes the stored data match the
+ * current format so old migrations can eventually be retired
+ * @param options - dryRun reports what would change without writing
+ * @returns Paths of migrated and failed snapshots and the number already up to date
+ */
+export async function migrateStoredSnapshots(options: { dryRun?: boolean } = {}): Promise<{
+  migrated: string[];
+  upToDate: number;
+  failed: string[];
+}> {
+  const blobs = await getBlobStore().list(SNAPSHOTS_BLOB_PREFIX);
+  const snapshotBlobs = blobs.filter(blob => parseSnapshotPath(blob.pathname) !== null);
+
+  const migrated: string[] = [];
+  const failed: string[] = [];
+  let upToDate = 0;
+
+  for (const blob of snapshotBlobs) {
+    try {
+      const data = await readJsonBlob(blob.pathname);
+      const snapshot = parseStoredSnapshot(data, `Snapshot migration for ${blob.pathname}`);
+
+      if (!snapshot) {
+        failed.push(blob.pathname);
+        continue;
+      }
+
+      const fromVersion = getSnapshotSchemaVersion(data);
+      if (fromVersion === SNAPSHOT_SCHEMA_VERSION) {
+        upToDate++;
+        continue;
+      }
+
+      // Metadata is unchanged by migrations, so the index needs no update
+      if (!options.dryRun) {
+        await writeJsonBlob(blob.pathname, snapshot);
+      }
+      migrated.push(blob.pathname);
+      console.log(`${options.dryRun ? 'Would migrate' : 'Migrated'} ${blob.pathname} from schemaVersion ${fromVersion}`);
+    } catch (error) {
+      console.error(`Error migrating ${blob.pathname}:`, error);
+      failed.push(blob.pathname);
+    }
+  }
+
+  return { migrated, upToDate, failed };
+}
+
+/**
+ * Save snapshot to blob storage
  * OPTIMIZATION: Now includes custom metadata and updates snapshot index
+ * Snapshots with a revision are written to their revision path and to the daily path
  * @param snapshot - Historical snapshot to save
+ * @returns true if the snapshot was written, false if validation or storage failed
  */
-export async function saveSnapshot(snapshot: HistoricalSnapshot): Promise<void> {
+export async function saveSnapshot(snapshot: HistoricalSnapshot): Promise<boolean> {
   try {
-    // Validate snapshot data before saving
+    // Validate snapshot data before saving, always stored with the current schema version
+    // (the instant is derived from the raw webpage timestamp when the caller did not set it)
+    const webpageUpdatedAt = snapshot.webpageUpdatedAt !== undefined
+      ? snapshot.webpageUpdatedAt
+      : parseWebpageInstant(snapshot.webpageTimestamp, new Date(snapshot.capturedAt));
     const validatedSnapshot = safeValidate(
       HistoricalSnapshotSchema,
-      snapshot,
+      { ...snapshot, webpageUpdatedAt, schemaVersion: SNAPSHOT_SCHEMA_VERSION },
       'Snapshot validation before save'
     );
     
@@ -224,24 +481,33 @@ export async function saveSnapshot(snapshot: HistoricalSnapshot): Promise<void>
       throw new Error('Invalid snapshot data, refusing to save');
     }
     
-    const blobPath = `${SNAPSHOTS_BLOB_PREFIX}${snapshot.date}.json`;
+    const blobPath = getSnapshotPath(snapshot.date);
     
     // Save snapshot to blob storage
-    // allowOverwrite: true handles race conditions where multiple requests
+    // Writes overwrite, which handles race conditions where multiple requests
     // might try to save the same snapshot simultaneously
-    await put(blobPath, JSON.stringify(validatedSnapshot, null, 2), {
-      access: 'public',
-      addRandomSuffix: false,
-      contentType: 'application/json',
-      allowOverwrite: true,
-    });
+    if (validatedSnapshot.revision !== undefined) {
+      const revisionPath = getSnapshotPath(snapshot.date, validatedSnapshot.revision);
+      await writeJsonBlob(revisionPath, validatedSnapshot);
+      console.log(`Snapshot saved to Blob: ${revisionPath}`);
+    }
+    await writeJsonBlob(blobPath, validatedSnapshot);
     
     console.log(`Snapshot saved to Blob: ${blobPath}`);
     
     // OPTIMIZATION: Update snapshot index to eliminate future list() calls
     await updateSnapshotIndex(validatedSnapshot);
+
+    try {
+      await updatePlayerSeries(validatedSnapshot);
+    } catch (error) {
+      console.error('Error updating player series:', error);
+      // Non-critical error, the series can be rebuilt from snapshots
+    }
+    return true;
   } catch (error) {
     console.error('Error saving snapshot to Blob:', error);
+    return false;
   }
 }
 
@@ -249,23 +515,27 @@ export async function saveSnapshot(snapshot: HistoricalSnapshot): Promise<void>
  * Compare current data with previous snapshot and add change indicators
  * @param currentPlayers - Current player data
  * @param previousSnapshot - Previous day's snapshot for comparison
+ * @param registry - Player registry, so renamed players keep their changes
+ *   (without it players are matched by normalized name)
  * @returns Player data with change indicators added
  */
 export function calculateChanges(
   currentPlayers: PlayerData[],
-  previousSnapshot: HistoricalSnapshot | null
+  previousSnapshot: HistoricalSnapshot | null,
+  registry: PlayerRegistry | null = null
 ): PlayerData[] {
   if (!previousSnapshot) {
     return currentPlayers;
   }
 
+  const getPlayerKey = createPlayerMatcher(registry);
   const previousMap = new Map<string, PlayerData>();
   previousSnapshot.players.forEach(player => {
-    previousMap.set(player.name, player);
+    previousMap.set(getPlayerKey(player.name), player);
   });
 
   return currentPlayers.map(currentPlayer => {
-    const previousPlayer = previousMap.get(currentPlayer.name);
+    const previousPlayer = previousMap.get(getPlayerKey(currentPlayer.name));
     
     if (!previousPlayer) {
       // New player, no comparison available
@@ -284,33 +554,95 @@ export function calculateChanges(
 }
 
 /**
- * Check if we need to update the daily snapshot and save if needed
- * Only saves a new snapshot if today's snapshot doesn't exist yet
+ * Reduce parsed players to the fields stored in snapshots
+ * (drops country codes and change indicators)
+ * @param players - Parsed or enriched player data
+ * @returns Player data as stored in a snapshot
+ */
+export function toStoredPlayers(players: PlayerData[]): PlayerData[] {
+  return players.map(p => ({
+    rank: p.rank,
+    name: p.name,
+    evWon: p.evWon,
+    evBB100: p.evBB100,
+    won: p.won,
+    hands: p.hands,
+    ...(p.sourceEvWonChange !== undefined && { sourceEvWonChange: p.sourceEvWonChange }),
+    ...(p.sourceHandsChange !== undefined && { sourceHandsChange: p.sourceHandsChange })
+  }));
+}
+
+/**
+ * Save a new intraday revision if the source webpage has been updated
+ * A revision is written when today has no snapshot yet or when the webpage
+ * was updated after the latest revision stored for today (compared as instants
+ * when both timestamps are recognized, otherwise as raw text)
  * @param players - Current player data (without change indicators)
  * @param webpageTimestamp - Timestamp from the source webpage
+ * Scrapes that violate the sanity rules (see quarantine.ts) are quarantined instead
+ * @param details - Delta check and daily winners/losers, stored with the revision, and the
+ *   ranks of table rows the parser skipped (only used by the sanity rules)
+ * @param page - Page the players were parsed from, archived next to the revision (see page-archive.ts)
+ * @returns "saved" with the new revision number, "unchanged" if the latest
+ *          revision is not older than this page, "quarantined" with the quarantine
+ *          id, or "failed" if saving failed (other statuses return the latest stored revision)
  */
-export async function updateDailySnapshot(
+export async function recordSnapshotRevision(
   players: PlayerData[],
-  webpageTimestamp: string
-): Promise<void> {
+  webpageTimestamp: string,
+  details: Pick<HistoricalSnapshot, 'deltaCheck' | 'dailyMovers' | 'webpageUpdatedAt'> & { skippedRanks?: number[] } = {},
+  page?: { url: string; html: string }
+): Promise<{ status: 'saved' | 'unchanged' | 'quarantined' | 'failed'; revision: number; quarantineId?: string }> {
   const todayDate = getTodayDate();
-  const existingSnapshot = await loadSnapshot(todayDate);
-
-  // Only save a new snapshot if today's snapshot doesn't exist yet
-  if (!existingSnapshot) {
-    const newSnapshot: HistoricalSnapshot = {
-      date: todayDate,
-      webpageTimestamp,
-      players: players.map(p => ({
-        rank: p.rank,
-        name: p.name,
-        evWon: p.evWon,
-        evBB100: p.evBB100,
-        won: p.won,
-        hands: p.hands
-      })),
-      capturedAt: new Date().toISOString()
-    };
-    await saveSnapshot(newSnapshot);
+  // Read uncached: the daily file always holds the latest revision of the day
+  const latestData = await readJsonBlob(getSnapshotPath(todayDate));
+  const latestSnapshot = latestData === null ? null : parseStoredSnapshot(
+    latestData,
+    `Snapshot validation for date ${todayDate}`
+  );
+
+  if (latestSnapshot && latestSnapshot.webpageTimestamp === webpageTimestamp) {
+    return { status: 'unchanged', revision: latestSnapshot.revision ?? 0 };
+  }
+
+  // A page served by a lagging cache can carry an older timestamp than the stored revision
+  const capturedAt = new Date().toISOString();
+  const webpageUpdatedAt = details.webpageUpdatedAt !== undefined
+    ? details.webpageUpdatedAt
+    : parseWebpageInstant(webpageTimestamp, new Date(capturedAt));
+  if (latestSnapshot?.webpageUpdatedAt && webpageUpdatedAt && webpageUpdatedAt <= latestSnapshot.webpageUpdatedAt) {
+    console.warn(`⚠️ Webpage timestamp "${webpageTimestamp}" is not newer than revision ${latestSnapshot.revision ?? 0} ("${latestSnapshot.webpageTimestamp}"), not saved`);
+    return { status: 'unchanged', revision: latestSnapshot.revision ?? 0 };
+  }
+
+  if (latestSnapshot && latestSnapshot.revision === undefined) {
+    // Daily snapshot written before intraday revisions existed: keep it as revision 0
+    await saveSnapshot({ ...latestSnapshot, revision: 0 });
+  }
+
+  const revision = latestSnapshot ? (latestSnapshot.revision ?? 0) + 1 : 1;
+  const newSnapshot: HistoricalSnapshot = {
+    date: todayDate,
+    revision,
+    webpageTimestamp,
+    webpageUpdatedAt,
+    players: toStoredPlayers(players),
+    capturedAt,
+    ...(details.deltaCheck && { deltaCheck: details.deltaCheck }),
+    ...(details.dailyMovers && { dailyMovers: details.dailyMovers })
+  };
+
+  // Hold back implausible scrapes (e.g. a partially rendered page) for review
+  const previousSnapshot = latestSnapshot ?? await loadPreviousDaySnapshot();
+  const anomalies = findSnapshotAnomalies(newSnapshot.players, previousSnapshot, details.skippedRanks);
+  if (anomalies.length > 0) {
+    const { id } = await quarantineSnapshot(newSnapshot, anomalies, previousSnapshot, page);
+    return { status: 'quarantined', revision: latestSnapshot?.revision ?? 0, quarantineId: id };
+  }
+
+  const saved = await saveSnapshot(newSnapshot);
+  if (saved && page) {
+    await archivePage(todayDate, revision, { ...page, capturedAt });
   }
+  return { status: saved ? 'saved' : 'failed', revision };
 }
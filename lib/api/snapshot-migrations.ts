@@ -0,0 +1,114 @@
+/**
+ * Schema migrations for stored snapshots
+ * HistoricalSnapshotSchema is strict, so a snapshot stored by an older version
+ * of the app would fail validation once the format changes. Every stored
+ * snapshot carries a schemaVersion and older payloads are upgraded step by step
+ * on read, before validation.
+ *
+ * To change the stored format: bump SNAPSHOT_SCHEMA_VERSION and append a
+ * migration from the previous version to the registry below.
+ */
+
+import { SNAPSHOT_SCHEMA_VERSION } from './constants';
+import { parseWebpageInstant } from './webpage-time';
+import { findCountry } from '@/lib/countries';
+
+/**
+ * Raw snapshot payload as read from storage
+ */
+export type StoredSnapshotPayload = Record<string, unknown>;
+
+/**
+ * A single upgrade step from one schema version to the next
+ */
+export interface SnapshotMigration {
+  fromVersion: number; // Upgrades fromVersion to fromVersion + 1
+  description: string;
+  migrate: (payload: StoredSnapshotPayload) => StoredSnapshotPayload;
+}
+
+/**
+ * Registered migrations, one per version step, in ascending order
+ * The runner sets schemaVersion after each step, migrations only reshape the data
+ */
+export const SNAPSHOT_MIGRATIONS: SnapshotMigration[] = [
+  {
+    fromVersion: 1,
+    description: 'Add schemaVersion to snapshots stored before versioning',
+    migrate: payload => payload
+  },
+  {
+    fromVersion: 2,
+    description: 'Add webpageUpdatedAt, parsed from webpageTimestamp relative to capturedAt',
+    migrate: payload => ({
+      ...payload,
+      webpageUpdatedAt: typeof payload.webpageTimestamp === 'string' && typeof payload.capturedAt === 'string'
+        ? parseWebpageInstant(payload.webpageTimestamp, new Date(payload.capturedAt))
+        : null
+    })
+  },
+  {
+    fromVersion: 3,
+    description: 'Resolve player country codes against the ISO 3166-1 catalogue ("UK" becomes GB, unknown codes null)',
+    migrate: payload => ({
+      ...payload,
+      players: Array.isArray(payload.players)
+        ? (payload.players as StoredSnapshotPayload[]).map(player =>
+          typeof player.countryCode === 'string'
+            ? { ...player, countryCode: findCountry(player.countryCode)?.code ?? null }
+            : player)
+        : payload.players
+    })
+  }
+];
+
+/**
+ * Read the schema version of a stored snapshot payload
+ * @param payload - Raw snapshot payload
+ * @returns Schema version (1 for payloads stored before versioning)
+ * @throws Error if the payload is not an object or the version is malformed
+ */
+export function getSnapshotSchemaVersion(payload: unknown): number {
+  if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+    throw new Error('Snapshot payload is not an object');
+  }
+
+  const version = (payload as StoredSnapshotPayload).schemaVersion;
+  if (version === undefined) {
+    return 1;
+  }
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error(`Invalid snapshot schemaVersion: ${JSON.stringify(version)}`);
+  }
+  return version;
+}
+
+/**
+ * Upgrade a stored snapshot payload to SNAPSHOT_SCHEMA_VERSION
+ * @param payload - Raw snapshot payload
+ * @returns Upgraded payload (not yet validated) and the version it was stored with
+ * @throws Error if the payload is from a newer version or a migration is missing
+ */
+export function migrateSnapshotPayload(payload: unknown): {
+  payload: StoredSnapshotPayload;
+  fromVersion: number;
+} {
+  const fromVersion = getSnapshotSchemaVersion(payload);
+
+  if (fromVersion > SNAPSHOT_SCHEMA_VERSION) {
+    throw new Error(
+      `Snapshot schemaVersion ${fromVersion} is newer than supported version ${SNAPSHOT_SCHEMA_VERSION}`
+    );
+  }
+
+  let current = payload as StoredSnapshotPayload;
+  for (let version = fromVersion; version < SNAPSHOT_SCHEMA_VERSION; version++) {
+    const migration = SNAPSHOT_MIGRATIONS.find(m => m.fromVersion === version);
+    if (!migration) {
+      throw new Error(`No snapshot migration registered from schemaVersion ${version}`);
+    }
+    current = { ...migration.migrate(current), schemaVersion: version + 1 };
+  }
+
+  return { payload: current, fromVersion };
+}
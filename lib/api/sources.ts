@@ -0,0 +1,185 @@
+/**
+ * Leaderboard source adapters
+ * A source describes one tracked leaderboard: where to fetch it, how to parse
+ * players and the update timestamp, and where its data lives in storage.
+ *
+ * Every source has its own storage namespace. Code runs against one source at
+ * a time: routes and the ingestion job select it with withLeaderboardSource,
+ * scripts with the LEADERBOARD_SOURCE environment variable. getBlobStore()
+ * scopes all pathnames to the active source, so snapshot code stays unaware
+ * of which leaderboard it works on.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { LEADERBOARD_URL, SOURCES_BLOB_PREFIX } from './constants';
+import { parseDailyMovers, parseLeaderboardTable, parseWebpageTimestamp, readLeaderboardHeaders } from './data-parsing';
+import {
+  DailyMovers,
+  DailyMoversLayout,
+  LeaderboardColumnHeaders,
+  LeaderboardTableLayout,
+  ParsedLeaderboardTable
+} from './types';
+
+/**
+ * A tracked leaderboard
+ */
+export interface LeaderboardSource {
+  id: string; // Stable identifier, used in ?source= and LEADERBOARD_SOURCE
+  name: string; // Display name
+  url: string;
+  storagePrefix: string; // Storage namespace, "" for the original (root) layout
+  layout: LeaderboardTableLayout;
+  readTableHeaders: (html: string) => string[]; // Header labels, read without mapping columns
+  parseTable: (html: string) => ParsedLeaderboardTable;
+  parseDailyMovers: (html: string) => DailyMovers | null;
+  parseTimestamp: (html: string) => string | null;
+}
+
+/**
+ * Header labels of PokerStrategy leaderboard tables
+ * Currently rank | player | EV won | EV BB/100 | won | hands, with a few
+ * known alternative spellings
+ */
+export const POKERSTRATEGY_HEADERS: LeaderboardColumnHeaders = {
+  rank: ['#', 'rank', 'pos', 'position', 'place'],
+  name: ['player', 'name', 'nickname', 'screenname'],
+  evWon: ['ev won', 'ev winnings', 'all in ev'],
+  evBB100: ['ev bb/100', 'ev bb 100'],
+  won: ['won', 'winnings', 'net won'],
+  hands: ['hands', 'hands played']
+};
+
+/**
+ * Cell order of PokerStrategy leaderboard rows, used if a page has no header row
+ * (the fixed order the table was read in before columns were mapped by header)
+ */
+export const POKERSTRATEGY_COLUMN_ORDER: Array<keyof LeaderboardColumnHeaders> = [
+  'rank', 'name', 'evWon', 'evBB100', 'won', 'hands'
+];
+
+/**
+ * Daily winners/losers tables of PokerStrategy leaderboard pages
+ * Same table class as the main leaderboard: # | player | amount
+ */
+export const POKERSTRATEGY_DAILY_MOVERS: DailyMoversLayout = {
+  tableSelector: 'table.tableDefault',
+  headers: {
+    rank: ['#', 'rank', 'pos', 'position', 'place'],
+    name: ['player', 'name', 'nickname', 'screenname'],
+    amount: ['won', 'lost', 'won today', 'lost today', 'winnings', 'amount', 'result', 'today']
+  }
+};
+
+/**
+ * Create a source for a PokerStrategy promotion leaderboard
+ * @param options - Identifier, name and URL; layout and storage prefix are optional
+ * @returns Leaderboard source using the PokerStrategy table and timestamp format
+ */
+export function createPokerStrategySource(options: {
+  id: string;
+  name: string;
+  url: string;
+  storagePrefix?: string;
+  layout?: Partial<LeaderboardTableLayout>;
+}): LeaderboardSource {
+  const layout: LeaderboardTableLayout = {
+    tableSelector: options.layout?.tableSelector ?? 'table.tableDefault',
+    headers: options.layout?.headers ?? POKERSTRATEGY_HEADERS,
+    columnOrder: options.layout?.columnOrder ?? POKERSTRATEGY_COLUMN_ORDER,
+    dailyMovers: options.layout?.dailyMovers ?? POKERSTRATEGY_DAILY_MOVERS
+  };
+
+  return {
+    id: options.id,
+    name: options.name,
+    url: options.url,
+    storagePrefix: options.storagePrefix ?? `${SOURCES_BLOB_PREFIX}${options.id}/`,
+    layout,
+    readTableHeaders: html => readLeaderboardHeaders(html, layout),
+    parseTable: html => parseLeaderboardTable(html, layout),
+    parseDailyMovers: html => parseDailyMovers(html, layout),
+    parseTimestamp: parseWebpageTimestamp
+  };
+}
+
+/**
+ * All tracked leaderboards
+ * The first source keeps the root storage layout from before sources existed;
+ * add new sources with their own id (stored under "sources/<id>/")
+ */
+export const LEADERBOARD_SOURCES: LeaderboardSource[] = [
+  createPokerStrategySource({
+    id: 'hscgwp2025',
+    name: 'High Stakes Cash Game World Pool 2025',
+    url: LEADERBOARD_URL,
+    storagePrefix: ''
+  })
+];
+
+export const DEFAULT_SOURCE_ID = LEADERBOARD_SOURCES[0].id;
+
+const activeSource = new AsyncLocalStorage<LeaderboardSource>();
+
+/**
+ * Look up a source by id
+ * @param id - Source id, or null/undefined for the default source
+ * @returns Leaderboard source or null if the id is unknown
+ */
+export function getLeaderboardSource(id?: string | null): LeaderboardSource | null {
+  return LEADERBOARD_SOURCES.find(source => source.id === (id || DEFAULT_SOURCE_ID)) ?? null;
+}
+
+/**
+ * Get the source the current code runs against
+ * Set by withLeaderboardSource; otherwise LEADERBOARD_SOURCE or the default source
+ * @returns Active leaderboard source
+ * @throws Error if LEADERBOARD_SOURCE names an unknown source
+ */
+export function getActiveSource(): LeaderboardSource {
+  const scoped = activeSource.getStore();
+  if (scoped) {
+    return scoped;
+  }
+
+  // Read at call time so scripts can load .env.local before the first access
+  const source = getLeaderboardSource(process.env.LEADERBOARD_SOURCE);
+  if (!source) {
+    throw new Error(`Unknown LEADERBOARD_SOURCE "${process.env.LEADERBOARD_SOURCE}"`);
+  }
+  return source;
+}
+
+/**
+ * Run a function against a specific source (including all storage access)
+ * @param source - Leaderboard source
+ * @param fn - Function to run
+ * @returns Result of fn
+ */
+export function withLeaderboardSource<T>(source: LeaderboardSource, fn: () => T): T {
+  return activeSource.run(source, fn);
+}
+
+/**
+ * Run an API route handler against the source given as ?source=<id>
+ * Requests without the parameter use the default source
+ * @param request - Incoming request
+ * @param handler - Route handler
+ * @returns Handler response, or 400 if the source is unknown
+ */
+export async function withRequestSource(
+  request: Request,
+  handler: () => Promise<Response>
+): Promise<Response> {
+  const sourceId = new URL(request.url).searchParams.get('source');
+  const source = getLeaderboardSource(sourceId);
+
+  if (!source) {
+    return Response.json(
+      { error: `Unknown source "${sourceId}"` },
+      { status: 400 }
+    );
+  }
+
+  return withLeaderboardSource(source, handler);
+}
@@ -0,0 +1,110 @@
+/**
+ * Leaderboard table layout drift detection
+ * The set of header labels of a source's table is fingerprinted and compared
+ * against the layout accepted for that source. Ingestion refuses to save a
+ * snapshot while they differ, until an operator accepts the new layout
+ * (npx tsx scripts/table-layout.ts accept). The check runs on the header
+ * labels alone, before columns are mapped, so renamed or removed columns are
+ * reported as drift rather than as a parse error.
+ */
+
+import { createHash } from 'crypto';
+import { TABLE_LAYOUT_ALERT_BLOB_PATH, TABLE_LAYOUT_BLOB_PATH, TABLE_LAYOUT_REALERT_HOURS } from './constants';
+import { readJsonBlob, writeJsonBlob } from './blob-store';
+import { AcceptedTableLayout, TableLayoutAlert } from './types';
+
+/**
+ * Result of comparing a scraped table layout with the accepted one
+ */
+export interface TableLayoutCheck {
+  status: 'match' | 'unrecorded' | 'changed';
+  fingerprint: string;
+  accepted: AcceptedTableLayout | null;
+  added: string[]; // Header labels not in the accepted layout
+  removed: string[]; // Accepted header labels no longer present
+}
+
+/**
+ * Fingerprint a set of header labels
+ * Column order does not matter, columns are mapped by header label
+ * @param headers - Normalized header labels
+ * @returns Short hex digest
+ */
+export function computeLayoutFingerprint(headers: string[]): string {
+  return createHash('sha256')
+    .update([...headers].sort().join('\n'))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * Load the accepted table layout of the active source
+ * @returns Accepted layout, or null if none was recorded yet
+ */
+export async function loadAcceptedLayout(): Promise<AcceptedTableLayout | null> {
+  return readJsonBlob<AcceptedTableLayout>(TABLE_LAYOUT_BLOB_PATH);
+}
+
+/**
+ * Record a table layout as accepted for the active source
+ * @param headers - Normalized header labels
+ * @returns Accepted layout
+ */
+export async function acceptLayout(headers: string[]): Promise<AcceptedTableLayout> {
+  const layout: AcceptedTableLayout = {
+    fingerprint: computeLayoutFingerprint(headers),
+    headers: [...headers].sort(),
+    acceptedAt: new Date().toISOString()
+  };
+
+  await writeJsonBlob(TABLE_LAYOUT_BLOB_PATH, layout, { cacheControlMaxAge: 0 });
+  return layout;
+}
+
+/**
+ * Compare scraped header labels with the accepted layout of the active source
+ * @param headers - Normalized header labels
+ * @returns Comparison result
+ */
+export async function checkTableLayout(headers: string[]): Promise<TableLayoutCheck> {
+  const fingerprint = computeLayoutFingerprint(headers);
+  const accepted = await loadAcceptedLayout();
+
+  if (!accepted) {
+    return { status: 'unrecorded', fingerprint, accepted, added: [], removed: [] };
+  }
+
+  return {
+    status: accepted.fingerprint === fingerprint ? 'match' : 'changed',
+    fingerprint,
+    accepted,
+    added: headers.filter(header => !accepted.headers.includes(header)),
+    removed: accepted.headers.filter(header => !headers.includes(header))
+  };
+}
+
+/**
+ * Decide whether a layout change needs an alert, and record it if so
+ * The same change (same scraped and accepted fingerprints) is alerted once and
+ * then again only every TABLE_LAYOUT_REALERT_HOURS while it stays unaccepted
+ * @param check - A "changed" layout check
+ * @returns true if the caller should send the alert
+ */
+export async function claimLayoutAlert(check: TableLayoutCheck): Promise<boolean> {
+  const acceptedFingerprint = check.accepted?.fingerprint ?? null;
+  const last = await readJsonBlob<TableLayoutAlert>(TABLE_LAYOUT_ALERT_BLOB_PATH);
+  const now = new Date();
+
+  if (
+    last &&
+    last.fingerprint === check.fingerprint &&
+    last.acceptedFingerprint === acceptedFingerprint &&
+    now.getTime() - new Date(last.alertedAt).getTime() < TABLE_LAYOUT_REALERT_HOURS * 60 * 60 * 1000
+  ) {
+    return false;
+  }
+
+  const alert: TableLayoutAlert = { fingerprint: check.fingerprint, acceptedFingerprint, alertedAt: now.toISOString() };
+  await writeJsonBlob(TABLE_LAYOUT_ALERT_BLOB_PATH, alert, { cacheControlMaxAge: 0 });
+  return true;
+}
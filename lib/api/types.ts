@@ -13,12 +13,127 @@ export interface PlayerData {
   won: number;
   hands: number;
   countryCode?: string | null; // ISO 3166-1 alpha-2 country code, null for unknown
+  // Player metadata maintained by operators (see player-metadata.ts)
+  displayName?: string;
+  tags?: string[];
+  links?: PlayerLink[];
+  notes?: string;
+  hidden?: boolean;
   // Comparison fields (differences from previous day)
   rankChange?: number;
   evWonChange?: number;
   evBB100Change?: number;
   wonChange?: number;
   handsChange?: number;
+  // Daily changes reported by the source itself (superscripts on the page)
+  sourceEvWonChange?: number;
+  sourceHandsChange?: number;
+}
+
+/**
+ * A source-reported daily change that disagrees with our own calculation
+ */
+export interface DeltaDiscrepancy {
+  name: string;
+  field: 'evWon' | 'hands';
+  sourceChange: number; // Reported by the source
+  calculatedChange: number; // Current value minus the value in the comparison snapshot
+}
+
+/**
+ * Cross-check of source-reported daily changes against the previous stored snapshot
+ */
+export interface DeltaCheck {
+  comparedWith: string | null; // Date of the comparison snapshot, null if there was none
+  checkedPlayers: number; // Players with a source-reported change and a previous value
+  discrepancies: DeltaDiscrepancy[];
+}
+
+/**
+ * Accepted header labels for each player field of a leaderboard table
+ * Labels are compared after normalizeHeaderLabel (lowercase, punctuation removed)
+ */
+export interface LeaderboardColumnHeaders {
+  rank: string[];
+  name: string[];
+  evWon: string[];
+  evBB100: string[];
+  won: string[];
+  hands: string[];
+}
+
+/**
+ * Where to find the players on a leaderboard page
+ */
+export interface LeaderboardTableLayout {
+  tableSelector: string; // CSS selector, the first match is parsed
+  headers: LeaderboardColumnHeaders;
+  columnOrder?: Array<keyof LeaderboardColumnHeaders>; // Field of each cell, used when the table has no header row
+  dailyMovers?: DailyMoversLayout; // Daily winners/losers tables, if the page has them
+}
+
+/**
+ * Accepted header labels for the columns of the daily winners/losers tables
+ */
+export interface DailyMoversColumnHeaders {
+  rank: string[];
+  name: string[];
+  amount: string[];
+}
+
+/**
+ * Where to find the daily winners/losers tables on a leaderboard page
+ * Every table matching the selector except the main leaderboard is considered;
+ * its caption or preceding heading decides whether it lists winners or losers
+ */
+export interface DailyMoversLayout {
+  tableSelector: string;
+  headers: DailyMoversColumnHeaders;
+}
+
+/**
+ * One row of a daily winners/losers table
+ */
+export interface DailyMoverEntry {
+  rank: number;
+  name: string;
+  amount: number; // As shown by the source (losers may be listed as negative amounts)
+}
+
+/**
+ * The source's daily winners and losers tables
+ */
+export interface DailyMovers {
+  winners: DailyMoverEntry[];
+  losers: DailyMoverEntry[];
+}
+
+/**
+ * Players and normalized header labels parsed from a leaderboard table
+ */
+export interface ParsedLeaderboardTable {
+  headers: string[]; // In page order
+  players: PlayerData[];
+  rejectedRows: number; // Rows with a player name that failed validation and were skipped
+  skippedRanks: number[]; // Ranks of all skipped rows (without a name or rejected), which leave gaps in the player ranks
+}
+
+/**
+ * Table layout accepted for a source, compared against every scrape to detect drift
+ */
+export interface AcceptedTableLayout {
+  fingerprint: string;
+  headers: string[]; // Normalized header labels, sorted
+  acceptedAt: string; // ISO timestamp
+}
+
+/**
+ * Last table layout drift alert of a source, so hourly runs do not repeat it
+ */
+export interface TableLayoutAlert {
+  fingerprint: string; // Scraped layout that was alerted
+  acceptedFingerprint: string | null; // Accepted layout at the time
+  alertedAt: string; // ISO timestamp
 }
 
 /**
@@ -28,14 +143,353 @@ export interface CachedData {
   players: PlayerData[];
   lastUpdated: string;
   webpageTimestamp: string; // The actual timestamp from the webpage
+  webpageUpdatedAt: string | null; // webpageTimestamp as an ISO instant (null if not recognized)
 }
 
 /**
  * Historical snapshot structure stored in Vercel Blob
  */
 export interface HistoricalSnapshot {
+  schemaVersion?: number; // Stored format version, set by saveSnapshot (see snapshot-migrations.ts)
   date: string; // YYYY-MM-DD
+  revision?: number; // Intraday revision (1, 2, ...); absent on snapshots stored before revisions existed
   webpageTimestamp: string;
+  webpageUpdatedAt?: string | null; // ISO instant of webpageTimestamp, filled by saveSnapshot (see webpage-time.ts)
   players: PlayerData[];
   capturedAt: string; // ISO timestamp
-}
\ No newline at end of file
+  deltaCheck?: DeltaCheck; // Set by ingestion when the source reports daily changes
+  dailyMovers?: DailyMovers; // Set by ingestion when the page has daily winners/losers tables
+}
+
+/**
+ * Metadata for one intraday revision of a snapshot
+ */
+export interface SnapshotRevisionEntry {
+  revision: number;
+  webpageTimestamp: string;
+  webpageUpdatedAt?: string | null;
+  capturedAt: string; // ISO timestamp
+  playerCount: number;
+}
+
+/**
+ * Snapshot index entry (metadata for one stored date, describing its latest revision)
+ */
+export interface SnapshotIndexEntry {
+  date: string; // YYYY-MM-DD
+  revision?: number;
+  webpageTimestamp: string;
+  webpageUpdatedAt?: string | null;
+  capturedAt: string; // ISO timestamp
+  playerCount: number;
+  revisions?: SnapshotRevisionEntry[]; // All intraday revisions, oldest first
+}
+
+/**
+ * Snapshot index log entry, appended whenever a snapshot is saved
+ */
+export type SnapshotIndexLogEntry = Omit<SnapshotIndexEntry, 'revisions'>;
+
+/**
+ * Snapshot index stored next to the snapshots to avoid list() calls
+ */
+export interface SnapshotIndex {
+  snapshots: SnapshotIndexEntry[];
+  lastUpdated?: string; // ISO timestamp
+  count?: number;
+}
+
+/**
+ * Country mappings log entry of the legacy countries.json document
+ * "add" registers new players with an unknown country, "set" assigns country codes
+ */
+export type CountryMappingsLogEntry =
+  | { type: 'add'; names: string[] }
+  | { type: 'set'; mappings: Record<string, string | null> };
+
+/**
+ * Social or stream link of a player
+ */
+export interface PlayerLink {
+  label: string; // e.g. "Twitch"
+  url: string;
+}
+
+/**
+ * Operator-maintained metadata of one player name
+ */
+export interface PlayerMetadata {
+  countryCode: string | null; // ISO 3166-1 alpha-2 country code, null for unknown
+  displayName?: string; // Shown instead of the leaderboard name
+  tags?: string[];
+  links?: PlayerLink[];
+  notes?: string;
+  hidden?: boolean; // Left out of the leaderboard table
+}
+
+/**
+ * Player metadata document (players/metadata.json), keyed by leaderboard name
+ */
+export type PlayerMetadataDocument = Record<string, PlayerMetadata>;
+
+/**
+ * Change to the metadata of one player
+ * Omitted fields are kept; null clears an optional field (or marks the country unknown)
+ */
+export type PlayerMetadataPatch = {
+  [K in keyof PlayerMetadata]?: PlayerMetadata[K] | null;
+};
+
+/**
+ * Player metadata log entry
+ * "add" registers new players with an unknown country, "set" patches player metadata
+ */
+export type PlayerMetadataLogEntry =
+  | { type: 'add'; names: string[] }
+  | { type: 'set'; changes: Record<string, PlayerMetadataPatch> };
+
+/**
+ * A stored country code that is not in the ISO 3166-1 catalogue (see lib/countries.ts)
+ */
+export interface InvalidCountryCode {
+  name: string; // Player name
+  countryCode: string; // Code as stored, e.g. "UK"
+  suggestion: string | null; // Catalogue code it most likely means, e.g. "GB"
+}
+
+/**
+ * One change to player metadata as recorded in the audit trail (see player-admin.ts)
+ */
+export interface PlayerMetadataAuditEntry {
+  id: string; // Unique id of the change
+  changedAt: string; // ISO timestamp
+  changedBy: string; // Moderator name, or the script user for command line changes
+  changes: Record<string, { before: PlayerMetadata | null; after: PlayerMetadata }>; // By player name
+}
+
+/**
+ * Rolling audit trail of player metadata changes, newest first
+ */
+export interface PlayerMetadataAudit {
+  entries: PlayerMetadataAuditEntry[];
+}
+
+/**
+ * A player name with its stored metadata, as listed by the admin API
+ */
+export interface AdminPlayer {
+  name: string;
+  metadata: PlayerMetadata; // Stored for this name only, without alias fallback
+  playerId: string | null; // Registry identity, if registered
+  otherNames: string[]; // Other names of the same identity
+}
+
+/**
+ * A player as listed under their country (see country-leaderboard.ts)
+ */
+export type CountryLeaderboardPlayer = Pick<PlayerData, 'rank' | 'name' | 'displayName' | 'evWon' | 'evBB100' | 'won' | 'hands'>;
+
+/**
+ * Totals of the players of one country in one snapshot
+ */
+export interface CountryLeaderboardEntry {
+  countryCode: string | null; // null groups the players with an unknown country
+  playerCount: number;
+  totalEvWon: number;
+  totalWon: number;
+  totalHands: number;
+  evBB100: number; // Hands-weighted average of the players' EV BB/100
+  players: CountryLeaderboardPlayer[]; // Sorted by rank
+}
+
+/**
+ * Country leaderboard of the current leaderboard or of one snapshot
+ */
+export interface CountryLeaderboard {
+  date: string | null; // Snapshot date, null for the current leaderboard
+  revision?: number; // Snapshot revision, when a snapshot was aggregated
+  countries: CountryLeaderboardEntry[]; // Sorted by total EV won, highest first
+}
+
+/**
+ * A player's identity across name changes (see player-registry.ts)
+ */
+export interface PlayerIdentity {
+  id: string; // Stable id, e.g. "p_3f9a0c1d2b4e"
+  canonicalName: string; // Display name, the most recently registered spelling
+  aliases: string[]; // Every exact name seen for the player, including canonicalName
+}
+
+/**
+ * Player registry document, keyed by identity id
+ */
+export type PlayerRegistry = Record<string, PlayerIdentity>;
+
+/**
+ * Player registry log entry
+ * "register" records names seen on the leaderboard, "merge" joins two identities
+ * and "split" moves one name out into an identity of its own
+ */
+export type PlayerRegistryLogEntry =
+  | { type: 'register'; players: Array<{ id: string; name: string }> }
+  | { type: 'merge'; fromId: string; intoId: string }
+  | { type: 'split'; id: string; name: string; newId: string };
+
+/**
+ * Rank movement of a player between two snapshots
+ */
+export interface RankMovement {
+  name: string;
+  fromRank: number;
+  toRank: number;
+  rankChange: number; // Positive if moved up
+}
+
+/**
+ * Differences between two snapshots
+ */
+export interface SnapshotDiff {
+  from: Omit<HistoricalSnapshot, 'players' | 'schemaVersion'>;
+  to: Omit<HistoricalSnapshot, 'players' | 'schemaVersion'>;
+  players: PlayerData[]; // Players on both boards with change indicators, in "to" rank order
+  entered: PlayerData[]; // Only on the "to" board
+  left: PlayerData[]; // Only on the "from" board
+  rankMovements: RankMovement[]; // Players whose rank changed, biggest climbers first
+}
+
+/**
+ * Dates confirmed to have no snapshot, stored in snapshots/known-missing.json
+ * so gap reports, comparisons and charts can treat them explicitly
+ */
+export interface KnownMissingDates {
+  dates: Record<string, { reason: string; markedAt: string }>; // Keyed by YYYY-MM-DD
+}
+
+/**
+ * One point of a player's time series (the player's stats at the end of a date)
+ */
+export interface PlayerSeriesPoint {
+  date: string; // YYYY-MM-DD
+  revision?: number; // Snapshot revision the point was taken from
+  rank: number;
+  evWon: number;
+  evBB100: number;
+  won: number;
+  hands: number;
+}
+
+/**
+ * Change of a player's stats between two consecutive series points
+ */
+export interface PlayerDayChange {
+  date: string; // Date of the later point
+  sinceDate: string; // Date of the earlier point (more than a day back across gaps)
+  rankChange: number; // Positive if moved up
+  evWonChange: number;
+  wonChange: number;
+  handsChange: number;
+}
+
+/**
+ * Everything the profile page shows about one player (see player-profile.ts)
+ */
+export interface PlayerProfile {
+  id: string | null; // Registry identity, null for names not registered yet
+  name: string; // Display name
+  aliases: string[]; // Every name of the player, including name
+  countryCode: string | null;
+  displayName?: string; // From player metadata
+  tags?: string[];
+  links?: PlayerLink[];
+  current: PlayerSeriesPoint; // Stats on the last date the player was seen
+  firstSeen: string; // YYYY-MM-DD
+  lastSeen: string; // YYYY-MM-DD
+  history: PlayerSeriesPoint[]; // Oldest first
+  bestDay: PlayerDayChange | null; // Biggest win between consecutive dates
+  worstDay: PlayerDayChange | null; // Biggest loss between consecutive dates
+}
+
+/**
+ * Stored shard of the player time-series store
+ * Players are spread over a fixed number of shards by a hash of their name
+ */
+export interface PlayerSeriesShard {
+  players: Record<string, PlayerSeriesPoint[]>; // Points sorted by date, oldest first
+  updatedAt: string; // ISO timestamp
+}
+
+/**
+ * One line of a backup archive (NDJSON, one record per line)
+ * The header comes first and the footer last; the footer's recordCount lets
+ * imports detect truncated archives
+ */
+export type ArchiveRecord =
+  | { type: 'header'; format: string; version: number; exportedAt: string; snapshotSchemaVersion: number }
+  | { type: 'snapshot'; pathname: string; snapshot: HistoricalSnapshot }
+  | { type: 'index'; index: SnapshotIndex }
+  | { type: 'countries'; mappings: Record<string, string | null> } // Archives of format version 1
+  | { type: 'metadata'; players: PlayerMetadataDocument }
+  | { type: 'players'; registry: PlayerRegistry }
+  | { type: 'known-missing'; knownMissing: KnownMissingDates } // Since format version 3
+  | { type: 'page'; pathname: string; page: StoredPage } // Since format version 3
+  | { type: 'footer'; recordCount: number; skipped: string[] };
+
+/**
+ * One recorded scrape attempt of the ingestion job (see scrape-log.ts)
+ */
+export interface ScrapeRun {
+  startedAt: string; // ISO timestamp
+  durationMs: number;
+  status: 'saved' | 'unchanged' | 'quarantined' | 'failed';
+  httpStatus: number | null; // Status of the page request (null if no response was received)
+  revision?: number; // Revision written, or the latest stored revision when unchanged
+  playerCount: number; // Players parsed from the table
+  rejectedRows: number; // Table rows skipped by validation
+  error?: string; // Failure reason
+}
+
+/**
+ * Rolling history of scrape attempts, newest first
+ */
+export interface ScrapeRunHistory {
+  runs: ScrapeRun[];
+}
+
+/**
+ * A sanity rule violated by a scraped player list (see quarantine.ts)
+ */
+export interface SnapshotAnomaly {
+  rule: 'player-count-drop' | 'hands-decreased' | 'duplicate-names' | 'rank-gaps' | 'totals-jump';
+  message: string;
+  players?: string[]; // Players involved, when the rule is about individual rows
+}
+
+/**
+ * A scraped snapshot held back from snapshots/ until an operator approves or discards it
+ */
+export interface QuarantinedSnapshot {
+  id: string; // Derived from the capture time, e.g. "2025-11-10T140512Z"
+  quarantinedAt: string; // ISO timestamp
+  comparedWith: string | null; // Snapshot the rules compared against ("YYYY-MM-DD#revision")
+  anomalies: SnapshotAnomaly[];
+  snapshot: HistoricalSnapshot; // Revision number is assigned on approval
+}
+
+/**
+ * A downloaded leaderboard page kept next to the snapshot parsed from it (see page-archive.ts)
+ */
+export interface ArchivedPage {
+  url: string;
+  capturedAt: string; // ISO timestamp of the snapshot capture
+  html: string;
+}
+
+/**
+ * Stored form of an archived page (snapshots/YYYY-MM-DD/NNN.page.json)
+ */
+export interface StoredPage {
+  url: string;
+  capturedAt: string;
+  encoding: 'gzip-base64';
+  content: string; // Gzip-compressed HTML, base64-encoded
+}
@@ -0,0 +1,121 @@
+/**
+ * Upstream page fetcher
+ * The single place that downloads leaderboard pages. Timestamp checks, parsing
+ * and ingestion all read the same response:
+ * - Concurrent callers for the same URL share one in-flight request
+ * - A page fetched within UPSTREAM_REUSE_WINDOW is reused without a request
+ * - Otherwise the request is conditional (If-None-Match / If-Modified-Since),
+ *   and a 304 response reuses the page kept from the previous download
+ *
+ * NOTE: Like rate limiting, this state is per server instance and resets on
+ * serverless cold starts; the first request of an instance always downloads.
+ */
+
+import { DATA_FETCH_TIMEOUT, UPSTREAM_REUSE_WINDOW } from './constants';
+
+/**
+ * A downloaded leaderboard page
+ */
+export interface UpstreamPage {
+  url: string;
+  html: string;
+  etag: string | null;
+  lastModified: string | null;
+  fetchedAt: number; // When the page was last confirmed current (ms since epoch)
+  status: 'fetched' | 'not-modified' | 'reused'; // How this call got the page
+  httpStatus: number; // Status of the request that confirmed the page (200 or 304)
+}
+
+// Last page per URL (for conditional requests), requests in progress and the
+// HTTP status of the last response per URL (also kept when the request failed)
+const pages = new Map<string, UpstreamPage>();
+const inFlight = new Map<string, Promise<UpstreamPage>>();
+const lastHttpStatus = new Map<string, number>();
+
+/**
+ * Download a page, conditionally if a previous copy is kept
+ */
+async function requestPage(url: string, previous: UpstreamPage | undefined): Promise<UpstreamPage> {
+  const headers: Record<string, string> = {
+    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
+  };
+  if (previous?.etag) {
+    headers['If-None-Match'] = previous.etag;
+  }
+  if (previous?.lastModified) {
+    headers['If-Modified-Since'] = previous.lastModified;
+  }
+
+  lastHttpStatus.delete(url);
+  const response = await fetch(url, {
+    headers,
+    signal: AbortSignal.timeout(DATA_FETCH_TIMEOUT),
+    cache: 'no-store' // Freshness is handled here, not by the fetch cache
+  });
+  lastHttpStatus.set(url, response.status);
+
+  if (response.status === 304 && previous) {
+    return { ...previous, fetchedAt: Date.now(), status: 'not-modified', httpStatus: 304 };
+  }
+
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+
+  const html = await response.text();
+  
+  // Validate HTML content
+  if (!html || html.length < 100) {
+    throw new Error('Invalid response from external source');
+  }
+
+  return {
+    url,
+    html,
+    etag: response.headers.get('etag'),
+    lastModified: response.headers.get('last-modified'),
+    fetchedAt: Date.now(),
+    status: 'fetched',
+    httpStatus: response.status
+  };
+}
+
+/**
+ * Get the current version of a leaderboard page
+ * @param url - Page URL
+ * @returns Page HTML with how it was obtained
+ * @throws Error if the request fails or the response is not a plausible page
+ */
+export async function fetchUpstreamPage(url: string): Promise<UpstreamPage> {
+  const pending = inFlight.get(url);
+  if (pending) {
+    return pending;
+  }
+
+  const previous = pages.get(url);
+  if (previous && Date.now() - previous.fetchedAt < UPSTREAM_REUSE_WINDOW) {
+    return { ...previous, status: 'reused' };
+  }
+
+  const request = requestPage(url, previous)
+    .then(page => {
+      pages.set(url, page);
+      return page;
+    })
+    .finally(() => {
+      inFlight.delete(url);
+    });
+
+  inFlight.set(url, request);
+  return request;
+}
+
+/**
+ * HTTP status of the last response received for a URL
+ * Lets callers report the status of a failed request (e.g. 503)
+ * @param url - Page URL
+ * @returns Status code, or null if no response was received (e.g. timeout)
+ */
+export function getLastHttpStatus(url: string): number | null {
+  return lastHttpStatus.get(url) ?? null;
+}
@@ -0,0 +1,95 @@
+/**
+ * Webpage timestamp normalization
+ * The source shows its update time as free-form text without a year, like
+ * "Nov 10, 14:00 CET". It is converted to an ISO instant so it can be ordered,
+ * checked for freshness and shown in the viewer's local time. The raw text is
+ * kept as webpageTimestamp.
+ */
+
+import { SOURCE_STALE_AFTER_HOURS } from './constants';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * UTC offsets (minutes) of the timezone abbreviations the source may use
+ */
+const TIMEZONE_OFFSETS: Record<string, number> = {
+  UTC: 0, GMT: 0, WET: 0, WEST: 60, BST: 60,
+  CET: 60, CEST: 120, EET: 120, EEST: 180, MSK: 180,
+  EST: -300, EDT: -240, CST: -360, CDT: -300,
+  MST: -420, MDT: -360, PST: -480, PDT: -420
+};
+
+/**
+ * Convert a raw webpage timestamp to an ISO instant
+ * The year is not shown by the source; the year that puts the instant closest
+ * to the reference time (usually when the page was captured) is used
+ * @param raw - Raw timestamp, e.g. "Nov 10, 14:00 CET" (ISO strings are passed through)
+ * @param reference - Time the page was captured
+ * @returns ISO instant, or null if the text or timezone is not recognized
+ */
+export function parseWebpageInstant(raw: string, reference: Date): string | null {
+  // Fallback timestamps written when the page had none are already ISO instants
+  if (/^\d{4}-\d{2}-\d{2}T/.test(raw)) {
+    const parsed = new Date(raw);
+    return isNaN(parsed.getTime()) ? null : parsed.toISOString();
+  }
+
+  const match = raw.trim().match(/^([A-Za-z]+)\.?\s+(\d{1,2}),?\s+(\d{1,2}):(\d{2})\s+([A-Za-z]{2,5})$/);
+  if (!match || isNaN(reference.getTime())) {
+    return null;
+  }
+
+  const month = MONTHS.indexOf(match[1].slice(0, 3).toLowerCase());
+  const day = parseInt(match[2], 10);
+  const hours = parseInt(match[3], 10);
+  const minutes = parseInt(match[4], 10);
+  const offset = TIMEZONE_OFFSETS[match[5].toUpperCase()];
+
+  if (month < 0 || offset === undefined || hours > 23 || minutes > 59) {
+    return null;
+  }
+
+  const referenceYear = reference.getUTCFullYear();
+  let best: number | null = null;
+
+  for (const year of [referenceYear - 1, referenceYear, referenceYear + 1]) {
+    // Reject days that do not exist in that month (Date.UTC would roll over)
+    if (new Date(Date.UTC(year, month, day)).getUTCDate() !== day) {
+      continue;
+    }
+
+    const instant = Date.UTC(year, month, day, hours, minutes) - offset * 60 * 1000;
+    if (best === null || Math.abs(instant - reference.getTime()) < Math.abs(best - reference.getTime())) {
+      best = instant;
+    }
+  }
+
+  return best === null ? null : new Date(best).toISOString();
+}
+
+/**
+ * Hours since the source was last updated
+ * @param webpageUpdatedAt - ISO instant of the last source update
+ * @param now - Current time
+ * @returns Age in hours (one decimal), or null if the update time is unknown
+ */
+export function getSourceAgeHours(webpageUpdatedAt: string | null | undefined, now: Date = new Date()): number | null {
+  if (!webpageUpdatedAt) {
+    return null;
+  }
+  const updatedAt = new Date(webpageUpdatedAt).getTime();
+  if (isNaN(updatedAt)) {
+    return null;
+  }
+  return Math.round((now.getTime() - updatedAt) / (60 * 60 * 1000) * 10) / 10;
+}
+
+/**
+ * Check whether the source has not been updated for too long
+ * @param ageHours - Result of getSourceAgeHours
+ * @returns true if older than SOURCE_STALE_AFTER_HOURS
+ */
+export function isSourceStale(ageHours: number | null): boolean {
+  return ageHours !== null && ageHours > SOURCE_STALE_AFTER_HOURS;
+}
@@ -0,0 +1,338 @@
+/**
+ * ISO 3166-1 country catalogue
+ * Every officially assigned alpha-2 code with its short English name and the
+ * other names people commonly type, used to validate stored country codes and
+ * to look codes up by name ("germany" → DE, "uk" → GB)
+ */
+
+/**
+ * One country of the catalogue
+ */
+export interface Country {
+  code: string; // ISO 3166-1 alpha-2 code
+  name: string;
+  aliases?: string[]; // Other names and common non-ISO codes, matched like names
+}
+
+/**
+ * All officially assigned ISO 3166-1 alpha-2 codes
+ */
+export const COUNTRIES: readonly Country[] = [
+  { code: 'AD', name: 'Andorra' },
+  { code: 'AE', name: 'United Arab Emirates', aliases: ['UAE', 'Emirates'] },
+  { code: 'AF', name: 'Afghanistan' },
+  { code: 'AG', name: 'Antigua and Barbuda' },
+  { code: 'AI', name: 'Anguilla' },
+  { code: 'AL', name: 'Albania' },
+  { code: 'AM', name: 'Armenia' },
+  { code: 'AO', name: 'Angola' },
+  { code: 'AQ', name: 'Antarctica' },
+  { code: 'AR', name: 'Argentina' },
+  { code: 'AS', name: 'American Samoa' },
+  { code: 'AT', name: 'Austria' },
+  { code: 'AU', name: 'Australia' },
+  { code: 'AW', name: 'Aruba' },
+  { code: 'AX', name: 'Åland Islands', aliases: ['Aland'] },
+  { code: 'AZ', name: 'Azerbaijan' },
+  { code: 'BA', name: 'Bosnia and Herzegovina', aliases: ['Bosnia'] },
+  { code: 'BB', name: 'Barbados' },
+  { code: 'BD', name: 'Bangladesh' },
+  { code: 'BE', name: 'Belgium' },
+  { code: 'BF', name: 'Burkina Faso' },
+  { code: 'BG', name: 'Bulgaria' },
+  { code: 'BH', name: 'Bahrain' },
+  { code: 'BI', name: 'Burundi' },
+  { code: 'BJ', name: 'Benin' },
+  { code: 'BL', name: 'Saint Barthélemy', aliases: ['St Barts', 'Saint Barthelemy'] },
+  { code: 'BM', name: 'Bermuda' },
+  { code: 'BN', name: 'Brunei', aliases: ['Brunei Darussalam'] },
+  { code: 'BO', name: 'Bolivia' },
+  { code: 'BQ', name: 'Caribbean Netherlands', aliases: ['Bonaire', 'Bonaire, Sint Eustatius and Saba'] },
+  { code: 'BR', name: 'Brazil', aliases: ['Brasil'] },
+  { code: 'BS', name: 'Bahamas' },
+  { code: 'BT', name: 'Bhutan' },
+  { code: 'BV', name: 'Bouvet Island' },
+  { code: 'BW', name: 'Botswana' },
+  { code: 'BY', name: 'Belarus' },
+  { code: 'BZ', name: 'Belize' },
+  { code: 'CA', name: 'Canada' },
+  { code: 'CC', name: 'Cocos (Keeling) Islands', aliases: ['Cocos Islands'] },
+  { code: 'CD', name: 'DR Congo', aliases: ['Democratic Republic of the Congo', 'Congo-Kinshasa'] },
+  { code: 'CF', name: 'Central African Republic' },
+  { code: 'CG', name: 'Republic of the Congo', aliases: ['Congo', 'Congo-Brazzaville'] },
+  { code: 'CH', name: 'Switzerland' },
+  { code: 'CI', name: "Côte d'Ivoire", aliases: ['Ivory Coast', "Cote d'Ivoire"] },
+  { code: 'CK', name: 'Cook Islands' },
+  { code: 'CL', name: 'Chile' },
+  { code: 'CM', name: 'Cameroon' },
+  { code: 'CN', name: 'China' },
+  { code: 'CO', name: 'Colombia' },
+  { code: 'CR', name: 'Costa Rica' },
+  { code: 'CU', name: 'Cuba' },
+  { code: 'CV', name: 'Cape Verde', aliases: ['Cabo Verde'] },
+  { code: 'CW', name: 'Curaçao', aliases: ['Curacao'] },
+  { code: 'CX', name: 'Christmas Island' },
+  { code: 'CY', name: 'Cyprus' },
+  { code: 'CZ', name: 'Czechia', aliases: ['Czech Republic'] },
+  { code: 'DE', name: 'Germany', aliases: ['Deutschland'] },
+  { code: 'DJ', name: 'Djibouti' },
+  { code: 'DK', name: 'Denmark' },
+  { code: 'DM', name: 'Dominica' },
+  { code: 'DO', name: 'Dominican Republic' },
+  { code: 'DZ', name: 'Algeria' },
+  { code: 'EC', name: 'Ecuador' },
+  { code: 'EE', name: 'Estonia' },
+  { code: 'EG', name: 'Egypt' },
+  { code: 'EH', name: 'Western Sahara' },
+  { code: 'ER', name: 'Eritrea' },
+  { code: 'ES', name: 'Spain', aliases: ['España', 'Espana'] },
+  { code: 'ET', name: 'Ethiopia' },
+  { code: 'FI', name: 'Finland' },
+  { code: 'FJ', name: 'Fiji' },
+  { code: 'FK', name: 'Falkland Islands' },
+  { code: 'FM', name: 'Micronesia' },
+  { code: 'FO', name: 'Faroe Islands' },
+  { code: 'FR', name: 'France' },
+  { code: 'GA', name: 'Gabon' },
+  { code: 'GB', name: 'United Kingdom', aliases: ['UK', 'Great Britain', 'Britain', 'England', 'Scotland', 'Wales', 'Northern Ireland'] },
+  { code: 'GD', name: 'Grenada' },
+  { code: 'GE', name: 'Georgia' },
+  { code: 'GF', name: 'French Guiana' },
+  { code: 'GG', name: 'Guernsey' },
+  { code: 'GH', name: 'Ghana' },
+  { code: 'GI', name: 'Gibraltar' },
+  { code: 'GL', name: 'Greenland' },
+  { code: 'GM', name: 'Gambia' },
+  { code: 'GN', name: 'Guinea' },
+  { code: 'GP', name: 'Guadeloupe' },
+  { code: 'GQ', name: 'Equatorial Guinea' },
+  { code: 'GR', name: 'Greece' },
+  { code: 'GS', name: 'South Georgia and the South Sandwich Islands' },
+  { code: 'GT', name: 'Guatemala' },
+  { code: 'GU', name: 'Guam' },
+  { code: 'GW', name: 'Guinea-Bissau' },
+  { code: 'GY', name: 'Guyana' },
+  { code: 'HK', name: 'Hong Kong' },
+  { code: 'HM', name: 'Heard Island and McDonald Islands' },
+  { code: 'HN', name: 'Honduras' },
+  { code: 'HR', name: 'Croatia', aliases: ['Hrvatska'] },
+  { code: 'HT', name: 'Haiti' },
+  { code: 'HU', name: 'Hungary' },
+  { code: 'ID', name: 'Indonesia' },
+  { code: 'IE', name: 'Ireland', aliases: ['Eire'] },
+  { code: 'IL', name: 'Israel' },
+  { code: 'IM', name: 'Isle of Man' },
+  { code: 'IN', name: 'India' },
+  { code: 'IO', name: 'British Indian Ocean Territory' },
+  { code: 'IQ', name: 'Iraq' },
+  { code: 'IR', name: 'Iran' },
+  { code: 'IS', name: 'Iceland' },
+  { code: 'IT', name: 'Italy', aliases: ['Italia'] },
+  { code: 'JE', name: 'Jersey' },
+  { code: 'JM', name: 'Jamaica' },
+  { code: 'JO', name: 'Jordan' },
+  { code: 'JP', name: 'Japan' },
+  { code: 'KE', name: 'Kenya' },
+  { code: 'KG', name: 'Kyrgyzstan' },
+  { code: 'KH', name: 'Cambodia' },
+  { code: 'KI', name: 'Kiribati' },
+  { code: 'KM', name: 'Comoros' },
+  { code: 'KN', name: 'Saint Kitts and Nevis', aliases: ['St Kitts and Nevis'] },
+  { code: 'KP', name: 'North Korea' },
+  { code: 'KR', name: 'South Korea', aliases: ['Korea'] },
+  { code: 'KW', name: 'Kuwait' },
+  { code: 'KY', name: 'Cayman Islands' },
+  { code: 'KZ', name: 'Kazakhstan' },
+  { code: 'LA', name: 'Laos' },
+  { code: 'LB', name: 'Lebanon' },
+  { code: 'LC', name: 'Saint Lucia', aliases: ['St Lucia'] },
+  { code: 'LI', name: 'Liechtenstein' },
+  { code: 'LK', name: 'Sri Lanka' },
+  { code: 'LR', name: 'Liberia' },
+  { code: 'LS', name: 'Lesotho' },
+  { code: 'LT', name: 'Lithuania' },
+  { code: 'LU', name: 'Luxembourg' },
+  { code: 'LV', name: 'Latvia' },
+  { code: 'LY', name: 'Libya' },
+  { code: 'MA', name: 'Morocco' },
+  { code: 'MC', name: 'Monaco' },
+  { code: 'MD', name: 'Moldova' },
+  { code: 'ME', name: 'Montenegro' },
+  { code: 'MF', name: 'Saint Martin', aliases: ['St Martin'] },
+  { code: 'MG', name: 'Madagascar' },
+  { code: 'MH', name: 'Marshall Islands' },
+  { code: 'MK', name: 'North Macedonia', aliases: ['Macedonia'] },
+  { code: 'ML', name: 'Mali' },
+  { code: 'MM', name: 'Myanmar', aliases: ['Burma'] },
+  { code: 'MN', name: 'Mongolia' },
+  { code: 'MO', name: 'Macao', aliases: ['Macau'] },
+  { code: 'MP', name: 'Northern Mariana Islands' },
+  { code: 'MQ', name: 'Martinique' },
+  { code: 'MR', name: 'Mauritania' },
+  { code: 'MS', name: 'Montserrat' },
+  { code: 'MT', name: 'Malta' },
+  { code: 'MU', name: 'Mauritius' },
+  { code: 'MV', name: 'Maldives' },
+  { code: 'MW', name: 'Malawi' },
+  { code: 'MX', name: 'Mexico', aliases: ['México'] },
+  { code: 'MY', name: 'Malaysia' },
+  { code: 'MZ', name: 'Mozambique' },
+  { code: 'NA', name: 'Namibia' },
+  { code: 'NC', name: 'New Caledonia' },
+  { code: 'NE', name: 'Niger' },
+  { code: 'NF', name: 'Norfolk Island' },
+  { code: 'NG', name: 'Nigeria' },
+  { code: 'NI', name: 'Nicaragua' },
+  { code: 'NL', name: 'Netherlands', aliases: ['Holland', 'The Netherlands'] },
+  { code: 'NO', name: 'Norway', aliases: ['Norge'] },
+  { code: 'NP', name: 'Nepal' },
+  { code: 'NR', name: 'Nauru' },
+  { code: 'NU', name: 'Niue' },
+  { code: 'NZ', name: 'New Zealand' },
+  { code: 'OM', name: 'Oman' },
+  { code: 'PA', name: 'Panama' },
+  { code: 'PE', name: 'Peru' },
+  { code: 'PF', name: 'French Polynesia' },
+  { code: 'PG', name: 'Papua New Guinea' },
+  { code: 'PH', name: 'Philippines' },
+  { code: 'PK', name: 'Pakistan' },
+  { code: 'PL', name: 'Poland', aliases: ['Polska'] },
+  { code: 'PM', name: 'Saint Pierre and Miquelon' },
+  { code: 'PN', name: 'Pitcairn Islands' },
+  { code: 'PR', name: 'Puerto Rico' },
+  { code: 'PS', name: 'Palestine' },
+  { code: 'PT', name: 'Portugal' },
+  { code: 'PW', name: 'Palau' },
+  { code: 'PY', name: 'Paraguay' },
+  { code: 'QA', name: 'Qatar' },
+  { code: 'RE', name: 'Réunion', aliases: ['Reunion'] },
+  { code: 'RO', name: 'Romania' },
+  { code: 'RS', name: 'Serbia' },
+  { code: 'RU', name: 'Russia', aliases: ['Russian Federation'] },
+  { code: 'RW', name: 'Rwanda' },
+  { code: 'SA', name: 'Saudi Arabia' },
+  { code: 'SB', name: 'Solomon Islands' },
+  { code: 'SC', name: 'Seychelles' },
+  { code: 'SD', name: 'Sudan' },
+  { code: 'SE', name: 'Sweden', aliases: ['Sverige'] },
+  { code: 'SG', name: 'Singapore' },
+  { code: 'SH', name: 'Saint Helena, Ascension and Tristan da Cunha', aliases: ['Saint Helena', 'St Helena'] },
+  { code: 'SI', name: 'Slovenia' },
+  { code: 'SJ', name: 'Svalbard and Jan Mayen' },
+  { code: 'SK', name: 'Slovakia' },
+  { code: 'SL', name: 'Sierra Leone' },
+  { code: 'SM', name: 'San Marino' },
+  { code: 'SN', name: 'Senegal' },
+  { code: 'SO', name: 'Somalia' },
+  { code: 'SR', name: 'Suriname' },
+  { code: 'SS', name: 'South Sudan' },
+  { code: 'ST', name: 'São Tomé and Príncipe', aliases: ['Sao Tome and Principe'] },
+  { code: 'SV', name: 'El Salvador' },
+  { code: 'SX', name: 'Sint Maarten' },
+  { code: 'SY', name: 'Syria' },
+  { code: 'SZ', name: 'Eswatini', aliases: ['Swaziland'] },
+  { code: 'TC', name: 'Turks and Caicos Islands' },
+  { code: 'TD', name: 'Chad' },
+  { code: 'TF', name: 'French Southern Territories' },
+  { code: 'TG', name: 'Togo' },
+  { code: 'TH', name: 'Thailand' },
+  { code: 'TJ', name: 'Tajikistan' },
+  { code: 'TK', name: 'Tokelau' },
+  { code: 'TL', name: 'Timor-Leste', aliases: ['East Timor'] },
+  { code: 'TM', name: 'Turkmenistan' },
+  { code: 'TN', name: 'Tunisia' },
+  { code: 'TO', name: 'Tonga' },
+  { code: 'TR', name: 'Türkiye', aliases: ['Turkey', 'Turkiye'] },
+  { code: 'TT', name: 'Trinidad and Tobago' },
+  { code: 'TV', name: 'Tuvalu' },
+  { code: 'TW', name: 'Taiwan' },
+  { code: 'TZ', name: 'Tanzania' },
+  { code: 'UA', name: 'Ukraine' },
+  { code: 'UG', name: 'Uganda' },
+  { code: 'UM', name: 'United States Minor Outlying Islands' },
+  { code: 'US', name: 'United States', aliases: ['USA', 'United States of America', 'America'] },
+  { code: 'UY', name: 'Uruguay' },
+  { code: 'UZ', name: 'Uzbekistan' },
+  { code: 'VA', name: 'Vatican City', aliases: ['Holy See', 'Vatican'] },
+  { code: 'VC', name: 'Saint Vincent and the Grenadines', aliases: ['St Vincent and the Grenadines'] },
+  { code: 'VE', name: 'Venezuela' },
+  { code: 'VG', name: 'British Virgin Islands' },
+  { code: 'VI', name: 'U.S. Virgin Islands', aliases: ['US Virgin Islands'] },
+  { code: 'VN', name: 'Vietnam', aliases: ['Viet Nam'] },
+  { code: 'VU', name: 'Vanuatu' },
+  { code: 'WF', name: 'Wallis and Futuna' },
+  { code: 'WS', name: 'Samoa' },
+  { code: 'YE', name: 'Yemen' },
+  { code: 'YT', name: 'Mayotte' },
+  { code: 'ZA', name: 'South Africa' },
+  { code: 'ZM', name: 'Zambia' },
+  { code: 'ZW', name: 'Zimbabwe' },
+];
+
+const COUNTRIES_BY_CODE = new Map(COUNTRIES.map(country => [country.code, country]));
+
+/**
+ * Normalize a country name for lookup: case, accents, punctuation and
+ * spacing are ignored ("Côte d’Ivoire" and "cote divoire" match)
+ */
+function normalizeCountryName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+const COUNTRIES_BY_NAME = new Map(
+  COUNTRIES.flatMap(country =>
+    [country.name, ...(country.aliases ?? [])].map(name => [normalizeCountryName(name), country] as const))
+);
+
+/**
+ * Check that a code is an assigned ISO 3166-1 alpha-2 code
+ * @param code - Country code (must be upper case)
+ */
+export function isCountryCode(code: string): boolean {
+  return COUNTRIES_BY_CODE.has(code);
+}
+
+/**
+ * Get the name of a country
+ * @param code - ISO 3166-1 alpha-2 code
+ * @returns Country name, or null if the code is not in the catalogue
+ */
+export function getCountryName(code: string): string | null {
+  return COUNTRIES_BY_CODE.get(code)?.name ?? null;
+}
+
+/**
+ * Find a country by code, name or alias
+ * Codes match in any case ("de"); names and aliases ignore case, accents and punctuation
+ * @param query - Code or name, e.g. "DE", "germany" or "UK"
+ * @returns The country, or null if nothing matches
+ */
+export function findCountry(query: string): Country | null {
+  const trimmed = query.trim();
+  return COUNTRIES_BY_CODE.get(trimmed.toUpperCase()) ??
+    COUNTRIES_BY_NAME.get(normalizeCountryName(trimmed)) ??
+    null;
+}
+
+/**
+ * Search the catalogue for countries whose code, name or alias contains the query
+ * @param query - Search text
+ * @returns Matching countries, exact matches first
+ */
+export function searchCountries(query: string): Country[] {
+  const exact = findCountry(query);
+  const search = normalizeCountryName(query);
+  if (!search) {
+    return [];
+  }
+
+  const matches = COUNTRIES.filter(country =>
+    country !== exact &&
+    [country.name, ...(country.aliases ?? [])].some(name => normalizeCountryName(name).includes(search)));
+  return exact ? [exact, ...matches] : matches;
+}
@@ -79,4 +79,34 @@ export function getRankChangeData(change: number | undefined): {
       symbol: '↓'
     };
   }
-}
\ No newline at end of file
+}
+/**
+ * Formats the source webpage update time in the viewer's local time
+ * @param webpageTimestamp - Raw timestamp text from the source webpage
+ * @param webpageUpdatedAt - The same timestamp as an ISO instant (null if not recognized)
+ * @returns Local date and time, or the raw text when no instant is known
+ */
+export function formatWebpageTime(webpageTimestamp: string, webpageUpdatedAt: string | null | undefined): string {
+  if (!webpageUpdatedAt) return webpageTimestamp;
+  return new Date(webpageUpdatedAt).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+}
+
+/**
+ * Formats a snapshot date (YYYY-MM-DD) without a timezone conversion,
+ * so the day never shifts in the viewer's timezone
+ * @param date - Snapshot date
+ * @returns Date like "November 10, 2025"
+ */
+export function formatSnapshotDate(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+}
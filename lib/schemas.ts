@@ -4,6 +4,104 @@
  */
 
 import { z } from 'zod';
+import { isCountryCode } from './countries';
+
+/**
+ * Country code schema
+ * Validates an ISO 3166-1 alpha-2 code against the catalogue in lib/countries.ts,
+ * so typos like "UK" are rejected instead of rendering as broken flags
+ */
+export const CountryCodeSchema = z.string()
+  .length(2, 'Country code must be 2 characters')
+  .refine(isCountryCode, 'Country code is not an ISO 3166-1 alpha-2 code');
+
+/**
+ * Player link schema
+ * Validates a social or stream link of a player
+ */
+export const PlayerLinkSchema = z.object({
+  label: z.string()
+    .min(1, 'Link label is required')
+    .max(40, 'Link label is too long')
+    .describe('Link label, e.g. "Twitch"'),
+  
+  url: z.string()
+    .url('Invalid link URL')
+    .regex(/^https?:\/\//, 'Links must use http or https')
+    .describe('Link target'),
+}).strict();
+
+/**
+ * Player metadata schema
+ * Validates the operator-maintained metadata of one player name
+ */
+export const PlayerMetadataSchema = z.object({
+  countryCode: CountryCodeSchema
+    .nullable()
+    .describe('ISO 3166-1 alpha-2 country code, null for unknown'),
+  
+  displayName: z.string()
+    .min(1)
+    .max(100, 'Display name is too long')
+    .optional()
+    .describe('Shown instead of the leaderboard name'),
+  
+  tags: z.array(z.string().min(1).max(30, 'Tag is too long'))
+    .max(20, 'Too many tags')
+    .optional(),
+  
+  links: z.array(PlayerLinkSchema)
+    .max(10, 'Too many links')
+    .optional(),
+  
+  notes: z.string()
+    .max(2000, 'Notes are too long')
+    .optional(),
+  
+  hidden: z.boolean()
+    .optional()
+    .describe('Left out of the leaderboard table'),
+}).strict();
+
+/**
+ * Infer TypeScript type from PlayerMetadataSchema
+ */
+export type ValidatedPlayerMetadata = z.infer<typeof PlayerMetadataSchema>;
+
+/**
+ * Stored player metadata schema
+ * Metadata as read back from storage, which may still hold country codes saved
+ * before they were checked against the catalogue (see `manage-countries invalid`)
+ */
+export const StoredPlayerMetadataSchema = PlayerMetadataSchema.extend({
+  countryCode: z.string()
+    .length(2, 'Country code must be 2 characters')
+    .nullable()
+    .describe('Country code as stored, null for unknown'),
+});
+
+/**
+ * Player metadata document schema
+ * Validates the stored players/metadata.json document (player name to metadata)
+ */
+export const PlayerMetadataDocumentSchema = z.record(
+  z.string().min(1, 'Player name is required'),
+  StoredPlayerMetadataSchema
+);
+
+/**
+ * Player metadata patch schema
+ * Validates a change to the metadata of one player: omitted fields are kept,
+ * null clears a field (or marks the country unknown)
+ */
+export const PlayerMetadataPatchSchema = z.object({
+  countryCode: PlayerMetadataSchema.shape.countryCode.optional(),
+  displayName: PlayerMetadataSchema.shape.displayName.nullable(),
+  tags: PlayerMetadataSchema.shape.tags.nullable(),
+  links: PlayerMetadataSchema.shape.links.nullable(),
+  notes: PlayerMetadataSchema.shape.notes.nullable(),
+  hidden: PlayerMetadataSchema.shape.hidden.nullable(),
+}).strict();
 
 /**
  * Player data schema with validation rules
@@ -39,18 +137,28 @@ export const PlayerSchema = z.object({
     .max(1000000000, 'Hands count exceeds maximum')
     .describe('Number of hands played'),
   
-  countryCode: z.string()
-    .length(2, 'Country code must be 2 characters')
+  countryCode: CountryCodeSchema
     .nullable()
     .optional()
     .describe('ISO 3166-1 alpha-2 country code'),
   
+  // Optional player metadata
+  displayName: PlayerMetadataSchema.shape.displayName,
+  tags: PlayerMetadataSchema.shape.tags,
+  links: PlayerMetadataSchema.shape.links,
+  notes: PlayerMetadataSchema.shape.notes,
+  hidden: PlayerMetadataSchema.shape.hidden,
+  
   // Optional change indicators from previous day
   rankChange: z.number().int().optional().describe('Change in rank since previous day'),
   evWonChange: z.number().finite().optional().describe('Change in EV Won'),
   evBB100Change: z.number().finite().optional().describe('Change in EV BB/100'),
   wonChange: z.number().finite().optional().describe('Change in Won amount'),
   handsChange: z.number().int().optional().describe('Change in hands played'),
+  
+  // Optional daily changes reported by the source
+  sourceEvWonChange: z.number().finite().optional().describe('Daily EV Won change reported by the source'),
+  sourceHandsChange: z.number().int().optional().describe('Daily hands change reported by the source'),
 }).strict(); // Reject unexpected fields
 
 /**
@@ -75,6 +183,11 @@ export const CachedDataSchema = z.object({
   webpageTimestamp: z.string()
     .min(1, 'Webpage timestamp is required')
     .describe('Timestamp from the source webpage'),
+  
+  webpageUpdatedAt: z.string()
+    .datetime('Invalid webpageUpdatedAt timestamp')
+    .nullable()
+    .describe('Webpage timestamp as an ISO instant (null if not recognized)'),
 }).strict();
 
 /**
@@ -82,6 +195,60 @@ export const CachedDataSchema = z.object({
  */
 export type ValidatedCachedData = z.infer<typeof CachedDataSchema>;
 
+/**
+ * Daily mover entry schema
+ * Validates one row of the source's daily winners/losers tables
+ */
+export const DailyMoverEntrySchema = z.object({
+  rank: z.number()
+    .int('Rank must be an integer')
+    .positive('Rank must be positive')
+    .describe('Position in the daily table'),
+  
+  name: z.string()
+    .min(1, 'Player name is required')
+    .max(100, 'Player name too long')
+    .describe('Player name'),
+  
+  amount: z.number()
+    .finite('Amount must be a finite number')
+    .describe('Amount won or lost on the day, as shown by the source'),
+}).strict();
+
+/**
+ * Daily movers schema
+ * Validates the parsed daily winners/losers tables, stored with each ingested snapshot
+ */
+export const DailyMoversSchema = z.object({
+  winners: z.array(DailyMoverEntrySchema).max(100, 'Too many daily winners'),
+  losers: z.array(DailyMoverEntrySchema).max(100, 'Too many daily losers'),
+}).strict();
+
+/**
+ * Infer TypeScript type from DailyMoversSchema
+ */
+export type ValidatedDailyMovers = z.infer<typeof DailyMoversSchema>;
+
+/**
+ * Delta check schema
+ * Cross-check of source-reported daily changes, stored with each ingested snapshot
+ */
+export const DeltaCheckSchema = z.object({
+  comparedWith: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .nullable()
+    .describe('Date of the comparison snapshot'),
+  
+  checkedPlayers: z.number().int().nonnegative(),
+  
+  discrepancies: z.array(z.object({
+    name: z.string().min(1),
+    field: z.enum(['evWon', 'hands']),
+    sourceChange: z.number().finite(),
+    calculatedChange: z.number().finite()
+  }).strict()),
+}).strict();
+
 /**
  * Historical snapshot metadata schema (without players)
  * Used for snapshot listing endpoints
@@ -91,10 +258,22 @@ export const HistoricalSnapshotMetadataSchema = z.object({
     .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
     .describe('Snapshot date in UTC'),
   
+  revision: z.number()
+    .int('Revision must be an integer')
+    .nonnegative('Revision cannot be negative')
+    .optional()
+    .describe('Intraday revision number within the date'),
+  
   webpageTimestamp: z.string()
     .min(1, 'Webpage timestamp is required')
     .describe('Original webpage timestamp'),
   
+  webpageUpdatedAt: z.string()
+    .datetime('Invalid webpageUpdatedAt timestamp')
+    .nullable()
+    .optional()
+    .describe('Webpage timestamp as an ISO instant (null if not recognized)'),
+  
   capturedAt: z.string()
     .datetime('Invalid capturedAt timestamp')
     .describe('When the snapshot was captured'),
@@ -108,12 +287,31 @@ export type ValidatedHistoricalSnapshotMetadata = z.infer<typeof HistoricalSnaps
 /**
  * Full historical snapshot schema (with players)
  * Used when loading complete snapshot data
+ * Stored payloads must be upgraded with migrateSnapshotPayload before validation
  */
 export const HistoricalSnapshotSchema = HistoricalSnapshotMetadataSchema.extend({
+  schemaVersion: z.number()
+    .int('Schema version must be an integer')
+    .positive('Schema version must be positive')
+    .describe('Stored snapshot format version'),
+  
+  webpageUpdatedAt: z.string()
+    .datetime('Invalid webpageUpdatedAt timestamp')
+    .nullable()
+    .describe('Webpage timestamp as an ISO instant (null if not recognized)'),
+  
   players: z.array(PlayerSchema)
     .min(1, 'Snapshot must contain at least one player')
     .max(1000, 'Too many players in snapshot')
     .describe('Array of player data in snapshot'),
+  
+  deltaCheck: DeltaCheckSchema
+    .optional()
+    .describe('Cross-check of source-reported daily changes'),
+  
+  dailyMovers: DailyMoversSchema
+    .optional()
+    .describe('Daily winners/losers tables of the source'),
 }).strict();
 
 /**
@@ -121,12 +319,57 @@ export const HistoricalSnapshotSchema = HistoricalSnapshotMetadataSchema.extend(
  */
 export type ValidatedHistoricalSnapshot = z.infer<typeof HistoricalSnapshotSchema>;
 
+/**
+ * Intraday revision metadata schema
+ * Describes one revision listed under a date in the snapshot list
+ */
+export const SnapshotRevisionSchema = z.object({
+  revision: z.number()
+    .int('Revision must be an integer')
+    .nonnegative('Revision cannot be negative')
+    .describe('Intraday revision number within the date'),
+  
+  webpageTimestamp: z.string()
+    .min(1, 'Webpage timestamp is required')
+    .describe('Original webpage timestamp'),
+  
+  webpageUpdatedAt: z.string()
+    .datetime('Invalid webpageUpdatedAt timestamp')
+    .nullable()
+    .optional()
+    .describe('Webpage timestamp as an ISO instant (null if not recognized)'),
+  
+  capturedAt: z.string()
+    .datetime('Invalid capturedAt timestamp')
+    .describe('When the revision was captured'),
+}).strict();
+
+/**
+ * Infer TypeScript type from SnapshotRevisionSchema
+ */
+export type ValidatedSnapshotRevision = z.infer<typeof SnapshotRevisionSchema>;
+
+/**
+ * Snapshot list entry schema
+ * Daily snapshot metadata plus the intraday revisions of that date
+ */
+export const SnapshotListEntrySchema = HistoricalSnapshotMetadataSchema.extend({
+  revisions: z.array(SnapshotRevisionSchema)
+    .optional()
+    .describe('Intraday revisions of this date, oldest first'),
+}).strict();
+
+/**
+ * Infer TypeScript type from SnapshotListEntrySchema
+ */
+export type ValidatedSnapshotListEntry = z.infer<typeof SnapshotListEntrySchema>;
+
 /**
  * Snapshot list response schema
  * Validates the /api/history endpoint response
  */
 export const SnapshotListResponseSchema = z.object({
-  snapshots: z.array(HistoricalSnapshotMetadataSchema)
+  snapshots: z.array(SnapshotListEntrySchema)
     .describe('List of available snapshots'),
   
   count: z.number()
@@ -158,6 +401,12 @@ export const LeaderboardResponseSchema = z.object({
     .min(1, 'Webpage timestamp is required')
     .describe('Timestamp from the source webpage'),
   
+  webpageUpdatedAt: z.string()
+    .datetime('Invalid webpageUpdatedAt timestamp')
+    .nullable()
+    .optional()
+    .describe('Webpage timestamp as an ISO instant'),
+  
   hasPreviousDayData: z.boolean()
     .describe('Whether previous day data is available for comparison'),
   
@@ -166,6 +415,10 @@ export const LeaderboardResponseSchema = z.object({
     .nullable()
     .describe('Date of the previous snapshot used for comparison'),
   
+  skippedDates: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'))
+    .optional()
+    .describe('Days between the previous snapshot and today that have no snapshot'),
+  
   isHistorical: z.boolean()
     .default(false)
     .describe('Whether this is historical data'),
@@ -194,6 +447,18 @@ export const HistoricalDataResponseSchema = z.object({
     .min(1, 'Webpage timestamp is required')
     .describe('Timestamp from the source webpage'),
   
+  webpageUpdatedAt: z.string()
+    .datetime('Invalid webpageUpdatedAt timestamp')
+    .nullable()
+    .optional()
+    .describe('Webpage timestamp as an ISO instant'),
+  
+  revision: z.number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe('Intraday revision number of the snapshot'),
+  
   isHistorical: z.boolean()
     .default(true)
     .describe('Whether this is historical data'),
@@ -207,6 +472,10 @@ export const HistoricalDataResponseSchema = z.object({
     .nullable()
     .optional()
     .describe('Date of the previous snapshot'),
+  
+  deltaCheck: DeltaCheckSchema
+    .optional()
+    .describe('Cross-check of source-reported daily changes'),
 }).strict();
 
 /**
@@ -214,6 +483,620 @@ export const HistoricalDataResponseSchema = z.object({
  */
 export type ValidatedHistoricalDataResponse = z.infer<typeof HistoricalDataResponseSchema>;
 
+/**
+ * Snapshot diff API response schema
+ * Validates the /api/diff endpoint response
+ */
+export const SnapshotDiffResponseSchema = z.object({
+  from: HistoricalSnapshotMetadataSchema
+    .describe('Snapshot compared from'),
+  
+  to: HistoricalSnapshotMetadataSchema
+    .describe('Snapshot compared to'),
+  
+  players: z.array(PlayerSchema)
+    .max(1000, 'Too many players in response')
+    .describe('Players on both boards with changes since "from"'),
+  
+  entered: z.array(PlayerSchema)
+    .max(1000, 'Too many players in response')
+    .describe('Players that entered the board'),
+  
+  left: z.array(PlayerSchema)
+    .max(1000, 'Too many players in response')
+    .describe('Players that left the board'),
+  
+  rankMovements: z.array(z.object({
+    name: z.string().min(1),
+    fromRank: z.number().int().positive(),
+    toRank: z.number().int().positive(),
+    rankChange: z.number().int().describe('Positive if moved up'),
+  }).strict())
+    .describe('Players whose rank changed, biggest climbers first'),
+}).strict();
+
+/**
+ * Infer TypeScript type from SnapshotDiffResponseSchema
+ */
+export type ValidatedSnapshotDiffResponse = z.infer<typeof SnapshotDiffResponseSchema>;
+
+/**
+ * Daily movers API response schema
+ * Validates the /api/daily-movers endpoint response
+ */
+export const DailyMoversResponseSchema = DailyMoversSchema.extend({
+  date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .describe('Date of the snapshot the tables were captured with'),
+  
+  revision: z.number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe('Intraday revision of the snapshot'),
+  
+  webpageTimestamp: z.string()
+    .min(1, 'Webpage timestamp is required')
+    .describe('Timestamp from the source webpage'),
+}).strict();
+
+/**
+ * Infer TypeScript type from DailyMoversResponseSchema
+ */
+export type ValidatedDailyMoversResponse = z.infer<typeof DailyMoversResponseSchema>;
+
+/**
+ * Player series point schema
+ * Validates one date of a player's history
+ */
+export const PlayerSeriesPointSchema = z.object({
+  date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .describe('Snapshot date'),
+  revision: z.number().int().nonnegative().optional().describe('Snapshot revision the point was taken from'),
+  rank: z.number().int().positive(),
+  evWon: z.number().finite(),
+  evBB100: z.number().finite(),
+  won: z.number().finite(),
+  hands: z.number().int().nonnegative(),
+}).strict();
+
+/**
+ * Player day change schema
+ * Validates the change between two consecutive dates of a player's history
+ */
+export const PlayerDayChangeSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).describe('Date of the later point'),
+  sinceDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).describe('Date of the earlier point'),
+  rankChange: z.number().int().describe('Positive if moved up'),
+  evWonChange: z.number().finite(),
+  wonChange: z.number().finite(),
+  handsChange: z.number().int(),
+}).strict();
+
+/**
+ * Player profile API response schema
+ * Validates the /api/players/[name] endpoint response
+ */
+export const PlayerProfileResponseSchema = z.object({
+  id: z.string()
+    .nullable()
+    .describe('Player registry id (null for names not registered yet)'),
+  
+  name: z.string()
+    .min(1, 'Player name is required')
+    .describe('Display name'),
+  
+  aliases: z.array(z.string().min(1))
+    .min(1)
+    .describe('Every name of the player'),
+  
+  countryCode: CountryCodeSchema
+    .nullable()
+    .describe('ISO 3166-1 alpha-2 country code'),
+  
+  displayName: PlayerMetadataSchema.shape.displayName,
+  tags: PlayerMetadataSchema.shape.tags,
+  links: PlayerMetadataSchema.shape.links,
+  
+  current: PlayerSeriesPointSchema
+    .describe('Stats on the last date the player was seen'),
+  
+  firstSeen: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  lastSeen: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  
+  history: z.array(PlayerSeriesPointSchema)
+    .min(1)
+    .describe('Stats per date, oldest first'),
+  
+  bestDay: PlayerDayChangeSchema
+    .nullable()
+    .describe('Biggest win between consecutive dates'),
+  
+  worstDay: PlayerDayChangeSchema
+    .nullable()
+    .describe('Biggest loss between consecutive dates'),
+}).strict();
+
+/**
+ * Infer TypeScript type from PlayerProfileResponseSchema
+ */
+export type ValidatedPlayerProfileResponse = z.infer<typeof PlayerProfileResponseSchema>;
+
+/**
+ * Country leaderboard entry schema
+ * Totals of the players of one country
+ */
+export const CountryLeaderboardEntrySchema = z.object({
+  countryCode: CountryCodeSchema
+    .nullable()
+    .describe('ISO 3166-1 alpha-2 country code, null for players with an unknown country'),
+  
+  playerCount: z.number()
+    .int()
+    .positive(),
+  
+  totalEvWon: z.number()
+    .finite(),
+  
+  totalWon: z.number()
+    .finite(),
+  
+  totalHands: z.number()
+    .int()
+    .nonnegative(),
+  
+  evBB100: z.number()
+    .finite()
+    .describe('Hands-weighted average EV BB/100'),
+  
+  players: z.array(PlayerSchema.pick({
+    rank: true,
+    name: true,
+    displayName: true,
+    evWon: true,
+    evBB100: true,
+    won: true,
+    hands: true
+  })).describe('Players of the country, by rank'),
+}).strict();
+
+/**
+ * Country leaderboard response schema
+ * Validates the /api/countries/leaderboard endpoint response
+ */
+export const CountryLeaderboardResponseSchema = z.object({
+  date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .nullable()
+    .describe('Snapshot date, null for the current leaderboard'),
+  
+  revision: z.number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe('Snapshot revision, when a snapshot was aggregated'),
+  
+  countries: z.array(CountryLeaderboardEntrySchema)
+    .describe('Countries by total EV won, highest first'),
+}).strict();
+
+/**
+ * Infer TypeScript type from CountryLeaderboardResponseSchema
+ */
+export type ValidatedCountryLeaderboardResponse = z.infer<typeof CountryLeaderboardResponseSchema>;
+
+/**
+ * Scrape run schema
+ * One recorded ingestion attempt as kept in scrape-runs.json
+ */
+export const ScrapeRunSchema = z.object({
+  startedAt: z.string()
+    .datetime('Invalid startedAt timestamp')
+    .describe('When the attempt started'),
+  
+  durationMs: z.number()
+    .nonnegative()
+    .describe('Duration of the attempt'),
+  
+  status: z.enum(['saved', 'unchanged', 'quarantined', 'failed'])
+    .describe('Outcome of the attempt'),
+  
+  httpStatus: z.number()
+    .int()
+    .nullable()
+    .describe('HTTP status of the page request, null if no response was received'),
+  
+  revision: z.number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe('Revision written, or the latest stored revision when unchanged'),
+  
+  playerCount: z.number()
+    .int()
+    .nonnegative()
+    .describe('Players parsed from the table'),
+  
+  rejectedRows: z.number()
+    .int()
+    .nonnegative()
+    .describe('Table rows skipped by validation'),
+  
+  error: z.string()
+    .optional()
+    .describe('Failure reason'),
+}).strict();
+
+/**
+ * Stored page archive schema
+ * Validates a snapshots/YYYY-MM-DD/NNN.page.json record (gzip-compressed HTML, base64-encoded)
+ */
+export const StoredPageSchema = z.object({
+  url: z.string()
+    .url()
+    .describe('URL the page was downloaded from'),
+  
+  capturedAt: z.string()
+    .datetime('Invalid capturedAt timestamp')
+    .describe('Capture time of the snapshot parsed from the page'),
+  
+  encoding: z.literal('gzip-base64')
+    .describe('How the content is encoded'),
+  
+  content: z.string()
+    .min(1)
+    .describe('Encoded page HTML'),
+}).strict();
+
+/**
+ * Quarantined snapshot schema
+ * Validates a stored quarantine/<id>.json record; the snapshot itself is
+ * upgraded and validated like any stored snapshot (see parseStoredSnapshot)
+ */
+export const QuarantinedSnapshotSchema = z.object({
+  id: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}T\d{6}Z$/, 'Invalid quarantine id')
+    .describe('Quarantine id derived from the capture time'),
+  
+  quarantinedAt: z.string()
+    .datetime('Invalid quarantinedAt timestamp')
+    .describe('When the snapshot was quarantined'),
+  
+  comparedWith: z.string()
+    .nullable()
+    .describe('Snapshot the sanity rules compared against'),
+  
+  anomalies: z.array(z.object({
+    rule: z.enum(['player-count-drop', 'hands-decreased', 'duplicate-names', 'rank-gaps', 'totals-jump']),
+    message: z.string().min(1),
+    players: z.array(z.string()).optional()
+  }).strict())
+    .min(1, 'A quarantined snapshot has at least one anomaly')
+    .describe('Violated sanity rules'),
+  
+  snapshot: z.record(z.string(), z.unknown())
+    .describe('The held back snapshot as stored'),
+}).strict();
+
+/**
+ * Health API response schema
+ * Validates the /api/health endpoint response
+ */
+export const HealthResponseSchema = z.object({
+  status: z.enum(['ok', 'degraded', 'failing'])
+    .describe('"failing" if any check failed, "degraded" if scrapes were quarantined since the last saved run'),
+  
+  checkedAt: z.string()
+    .datetime()
+    .describe('When the checks ran'),
+  
+  source: z.string()
+    .min(1)
+    .describe('Leaderboard source id'),
+  
+  checks: z.object({
+    upstream: z.boolean(),
+    scrape: z.boolean(),
+    index: z.boolean()
+  }).strict().describe('Result of each check'),
+  
+  upstream: z.object({
+    reachable: z.boolean(),
+    httpStatus: z.number().int().nullable(),
+    responseMs: z.number().nonnegative(),
+    error: z.string().optional()
+  }).strict().describe('Reachability of the source page'),
+  
+  scrapes: z.object({
+    lastSuccessAt: z.string().datetime().nullable(),
+    consecutiveFailures: z.number().int().nonnegative(),
+    consecutiveQuarantined: z.number().int().nonnegative(),
+    recent: z.array(ScrapeRunSchema)
+  }).strict().describe('Recent ingestion attempts, newest first'),
+  
+  snapshots: z.object({
+    lastSnapshotDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable(),
+    indexedDates: z.number().int().nonnegative(),
+    unindexedRevision: z.object({
+      date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+      revision: z.number().int().positive()
+    }).strict().nullable()
+      .describe('Revision of the last successful scrape missing from the index')
+  }).strict().describe('Last indexed snapshot and index consistency'),
+}).strict();
+
+/**
+ * Infer TypeScript type from HealthResponseSchema
+ */
+export type ValidatedHealthResponse = z.infer<typeof HealthResponseSchema>;
+
+/**
+ * Admin player schema
+ * One player name with its stored metadata as listed by /api/admin/players
+ */
+export const AdminPlayerSchema = z.object({
+  name: z.string().min(1),
+  metadata: StoredPlayerMetadataSchema,
+  playerId: z.string()
+    .nullable()
+    .describe('Registry identity, null if the name is not registered'),
+  otherNames: z.array(z.string())
+    .describe('Other names of the same identity'),
+}).strict();
+
+/**
+ * Admin players response schema
+ * Validates the /api/admin/players GET response
+ */
+export const AdminPlayersResponseSchema = z.object({
+  user: z.string()
+    .min(1)
+    .describe('Signed-in moderator'),
+  players: z.array(AdminPlayerSchema),
+  total: z.number()
+    .int()
+    .nonnegative()
+    .describe('Number of matching players, which may exceed the players returned'),
+}).strict();
+
+/**
+ * Infer TypeScript type from AdminPlayersResponseSchema
+ */
+export type ValidatedAdminPlayersResponse = z.infer<typeof AdminPlayersResponseSchema>;
+
+/**
+ * Admin player update request schema
+ * Validates the /api/admin/players PATCH body
+ */
+export const AdminPlayerUpdateRequestSchema = z.object({
+  changes: z.record(z.string().min(1).max(100), PlayerMetadataPatchSchema)
+    .refine(changes => Object.keys(changes).length > 0, 'No changes given')
+    .refine(changes => Object.keys(changes).length <= 500, 'Too many players in one change')
+    .describe('Player name to metadata patch'),
+}).strict();
+
+/**
+ * Player metadata audit entry schema
+ * One recorded change as kept in players/metadata-audit.json
+ */
+export const PlayerMetadataAuditEntrySchema = z.object({
+  id: z.string().min(1),
+  changedAt: z.string()
+    .datetime('Invalid changedAt timestamp'),
+  changedBy: z.string()
+    .min(1)
+    .describe('Moderator or script user'),
+  changes: z.record(
+    z.string().min(1),
+    z.object({
+      before: StoredPlayerMetadataSchema.nullable(),
+      after: StoredPlayerMetadataSchema
+    }).strict()
+  ).describe('Player name to metadata before and after the change'),
+}).strict();
+
+/**
+ * Admin audit response schema
+ * Validates the /api/admin/players/audit response
+ */
+export const AdminAuditResponseSchema = z.object({
+  entries: z.array(PlayerMetadataAuditEntrySchema)
+    .describe('Recorded changes, newest first'),
+}).strict();
+
+/**
+ * Infer TypeScript type from AdminAuditResponseSchema
+ */
+export type ValidatedAdminAuditResponse = z.infer<typeof AdminAuditResponseSchema>;
+
+/**
+ * Snapshot index revision schema
+ * Revision metadata as stored in snapshots/index.json
+ */
+export const SnapshotIndexRevisionSchema = SnapshotRevisionSchema.extend({
+  playerCount: z.number()
+    .int()
+    .nonnegative()
+    .describe('Number of players in the revision'),
+}).strict();
+
+/**
+ * Snapshot index entry schema
+ * Metadata for one stored date as kept in snapshots/index.json
+ */
+export const SnapshotIndexEntrySchema = HistoricalSnapshotMetadataSchema.extend({
+  playerCount: z.number()
+    .int()
+    .nonnegative()
+    .describe('Number of players in the latest revision'),
+  
+  revisions: z.array(SnapshotIndexRevisionSchema)
+    .optional()
+    .describe('Intraday revisions of this date, oldest first'),
+}).strict();
+
+/**
+ * Snapshot index schema
+ * Validates the stored snapshots/index.json document
+ */
+export const SnapshotIndexSchema = z.object({
+  snapshots: z.array(SnapshotIndexEntrySchema)
+    .describe('Indexed snapshot dates, most recent first'),
+  
+  lastUpdated: z.string()
+    .datetime('Invalid lastUpdated timestamp')
+    .optional()
+    .describe('When the index was last rebuilt'),
+  
+  count: z.number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe('Number of indexed dates'),
+}).strict();
+
+/**
+ * Infer TypeScript type from SnapshotIndexSchema
+ */
+export type ValidatedSnapshotIndex = z.infer<typeof SnapshotIndexSchema>;
+
+/**
+ * Country mappings schema
+ * Validates the legacy countries.json document (player name to country code),
+ * read by the player metadata migration and version 1 archives
+ */
+export const CountryMappingsSchema = z.record(
+  z.string().min(1, 'Player name is required'),
+  z.string()
+    .length(2, 'Country code must be 2 characters')
+    .nullable()
+);
+
+/**
+ * Infer TypeScript type from CountryMappingsSchema
+ */
+export type ValidatedCountryMappings = z.infer<typeof CountryMappingsSchema>;
+
+/**
+ * Known missing dates schema
+ * Validates the stored snapshots/known-missing.json document
+ */
+export const KnownMissingDatesSchema = z.object({
+  dates: z.record(
+    z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+    z.object({
+      reason: z.string(),
+      markedAt: z.string().datetime('Invalid markedAt timestamp'),
+    }).strict()
+  ).describe('Days without a snapshot that cannot be recovered, with the reason'),
+}).strict();
+
+/**
+ * Player registry schema
+ * Validates the stored players/registry.json document (identity id to identity)
+ */
+export const PlayerRegistrySchema = z.record(
+  z.string().regex(/^p_[0-9a-f]{12}$/, 'Invalid player id'),
+  z.object({
+    id: z.string().regex(/^p_[0-9a-f]{12}$/, 'Invalid player id'),
+    canonicalName: z.string().min(1, 'Player name is required'),
+    aliases: z.array(z.string().min(1)).min(1, 'A player needs at least one name').describe('Every name seen for the player'),
+  }).strict()
+);
+
+/**
+ * Infer TypeScript type from PlayerRegistrySchema
+ */
+export type ValidatedPlayerRegistry = z.infer<typeof PlayerRegistrySchema>;
+
+/**
+ * Backup archive record schema
+ * Validates one line of an export archive; snapshot payloads are validated
+ * separately with HistoricalSnapshotSchema after schema migrations
+ */
+export const ArchiveRecordSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('header'),
+    format: z.string().describe('Archive format identifier'),
+    version: z.number().int().positive().describe('Archive format version'),
+    exportedAt: z.string().datetime('Invalid exportedAt timestamp'),
+    snapshotSchemaVersion: z.number().int().positive().describe('Snapshot schema version at export time'),
+  }).strict(),
+  
+  z.object({
+    type: z.literal('snapshot'),
+    pathname: z.string()
+      .regex(/^snapshots\/\d{4}-\d{2}-\d{2}(\/\d+)?\.json$/, 'Invalid snapshot pathname')
+      .describe('Storage pathname of the snapshot'),
+    snapshot: z.record(z.string(), z.unknown()).describe('Stored snapshot payload'),
+  }).strict(),
+  
+  z.object({
+    type: z.literal('index'),
+    index: SnapshotIndexSchema,
+  }).strict(),
+  
+  z.object({
+    type: z.literal('countries'),
+    mappings: CountryMappingsSchema,
+  }).strict(),
+  
+  z.object({
+    type: z.literal('metadata'),
+    players: PlayerMetadataDocumentSchema,
+  }).strict(),
+  
+  z.object({
+    type: z.literal('players'),
+    registry: PlayerRegistrySchema,
+  }).strict(),
+  
+  z.object({
+    type: z.literal('known-missing'),
+    knownMissing: KnownMissingDatesSchema,
+  }).strict(),
+  
+  z.object({
+    type: z.literal('page'),
+    pathname: z.string()
+      .regex(/^snapshots\/\d{4}-\d{2}-\d{2}\/\d+\.page\.json$/, 'Invalid page archive pathname')
+      .describe('Storage pathname of the archived page'),
+    page: StoredPageSchema,
+  }).strict(),
+  
+  z.object({
+    type: z.literal('footer'),
+    recordCount: z.number().int().nonnegative().describe('Number of records before the footer'),
+    skipped: z.array(z.string()).describe('Snapshots and pages left out of the export because they were invalid'),
+  }).strict(),
+]);
+
+/**
+ * Infer TypeScript type from ArchiveRecordSchema
+ */
+export type ValidatedArchiveRecord = z.infer<typeof ArchiveRecordSchema>;
+
+/**
+ * Parser fixture expectation schema
+ * Validates fixtures/leaderboard/<name>.json, the expected parse result of the
+ * recorded page <name>.html (see scripts/parser-fixtures.ts)
+ */
+export const ParserFixtureExpectationSchema = z.object({
+  source: z.string().min(1).optional().describe('Leaderboard source id, defaults to the default source'),
+  description: z.string().optional(),
+  webpageTimestamp: z.string().nullable(),
+  headers: z.array(z.string()).optional(),
+  players: z.array(PlayerSchema).optional(),
+  dailyMovers: DailyMoversSchema.nullable().optional().describe('Daily winners/losers tables, null if the page has none'),
+  error: z.string().optional().describe('Expected parse error (substring), instead of headers and players')
+}).strict();
+
+/**
+ * Infer TypeScript type from ParserFixtureExpectationSchema
+ */
+export type ValidatedParserFixtureExpectation = z.infer<typeof ParserFixtureExpectationSchema>;
+
 /**
  * Helper function to safely parse data with Zod schema
  * Returns parsed data or null with error logging
@@ -0,0 +1,18 @@
+/**
+ * Add the leaderboard source to a URL as ?source=<id>
+ * Without a source the URL is returned unchanged, so the default source is used
+ */
+export function withSourceParam(url: string, source: string | null | undefined): string {
+  if (!source) {
+    return url;
+  }
+  const separator = url.includes('?') ? '&' : '?';
+  return `${url}${separator}source=${encodeURIComponent(source)}`;
+}
+
+/**
+ * Profile page path of a player, keeping the leaderboard source
+ */
+export function playerProfilePath(name: string, source: string | null | undefined): string {
+  return withSourceParam(`/players/${encodeURIComponent(name)}`, source);
+}
@@ -13,6 +13,10 @@ export type Player = {
   won: number;
   hands: number;
   countryCode?: string | null; // ISO 3166-1 alpha-2 country code
+  // Player metadata maintained by operators
+  displayName?: string;
+  tags?: string[];
+  links?: PlayerLink[];
   // Comparison fields (differences from previous day)
   rankChange?: number;
   evWonChange?: number;
@@ -21,6 +25,14 @@ export type Player = {
   handsChange?: number;
 };
 
+/**
+ * Social or stream link of a player
+ */
+export type PlayerLink = {
+  label: string;
+  url: string;
+};
+
 /**
  * Type for sortable player properties
  */
@@ -39,11 +51,157 @@ export type SortConfig = {
   direction: SortDirection;
 };
 
+/**
+ * Intraday revision of a historical snapshot
+ */
+export type SnapshotRevision = {
+  revision: number;
+  webpageTimestamp: string;
+  webpageUpdatedAt?: string | null;
+  capturedAt: string;
+};
+
 /**
  * Historical snapshot metadata
  */
 export type HistoricalSnapshot = {
   date: string;
+  revision?: number;
   webpageTimestamp: string;
+  webpageUpdatedAt?: string | null;
   capturedAt: string;
+  revisions?: SnapshotRevision[];
 };
+
+/**
+ * One row of the source's daily winners/losers tables
+ */
+export type DailyMover = {
+  rank: number;
+  name: string;
+  amount: number;
+};
+
+/**
+ * Daily winners/losers captured with a snapshot
+ */
+export type DailyMoversData = {
+  date: string;
+  webpageTimestamp: string;
+  winners: DailyMover[];
+  losers: DailyMover[];
+};
+
+/**
+ * A player's stats on one snapshot date
+ */
+export type PlayerHistoryPoint = {
+  date: string;
+  revision?: number;
+  rank: number;
+  evWon: number;
+  evBB100: number;
+  won: number;
+  hands: number;
+};
+
+/**
+ * Change of a player's stats between two consecutive snapshot dates
+ */
+export type PlayerDayChange = {
+  date: string;
+  sinceDate: string;
+  rankChange: number;
+  evWonChange: number;
+  wonChange: number;
+  handsChange: number;
+};
+
+/**
+ * Player profile shown on /players/[name]
+ */
+export type PlayerProfile = {
+  id: string | null;
+  name: string;
+  aliases: string[];
+  countryCode: string | null;
+  displayName?: string;
+  tags?: string[];
+  links?: PlayerLink[];
+  current: PlayerHistoryPoint;
+  firstSeen: string;
+  lastSeen: string;
+  history: PlayerHistoryPoint[];
+  bestDay: PlayerDayChange | null;
+  worstDay: PlayerDayChange | null;
+};
+
+/**
+ * Stored metadata of one player name, as edited on /admin/players
+ */
+export type PlayerMetadata = {
+  countryCode: string | null;
+  displayName?: string;
+  tags?: string[];
+  links?: PlayerLink[];
+  notes?: string;
+  hidden?: boolean;
+};
+
+/**
+ * Change to player metadata; null clears a field
+ */
+export type PlayerMetadataPatch = {
+  [K in keyof PlayerMetadata]?: PlayerMetadata[K] | null;
+};
+
+/**
+ * Player listed on /admin/players
+ */
+export type AdminPlayer = {
+  name: string;
+  metadata: PlayerMetadata;
+  playerId: string | null;
+  otherNames: string[];
+};
+
+/**
+ * One recorded player metadata change
+ */
+export type PlayerMetadataAuditEntry = {
+  id: string;
+  changedAt: string;
+  changedBy: string;
+  changes: Record<string, { before: PlayerMetadata | null; after: PlayerMetadata }>;
+};
+
+/**
+ * Player listed under their country on the country leaderboard
+ */
+export type CountryLeaderboardPlayer = {
+  rank: number;
+  name: string;
+  displayName?: string;
+  evWon: number;
+  evBB100: number;
+  won: number;
+  hands: number;
+};
+
+/**
+ * Totals of one country on the country leaderboard
+ */
+export type CountryLeaderboardEntry = {
+  countryCode: string | null;
+  playerCount: number;
+  totalEvWon: number;
+  totalWon: number;
+  totalHands: number;
+  evBB100: number;
+  players: CountryLeaderboardPlayer[];
+};
+
+/**
+ * Type for sortable country leaderboard columns
+ */
+export type CountrySortKey = 'countryCode' | 'playerCount' | 'totalEvWon' | 'evBB100' | 'totalWon' | 'totalHands';
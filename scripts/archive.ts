@@ -0,0 +1,138 @@
+/**
+ * Back up and restore the full history
+ * Exports all snapshots, the snapshot index, the player metadata and the player
+ * registry to a single NDJSON archive, and imports such an archive into the configured storage backend
+ *
+ * Usage:
+ *   npx tsx scripts/archive.ts export [file]
+ *   npx tsx scripts/archive.ts import <file> [--dry-run]
+ */
+
+import dotenv from 'dotenv';
+import { createReadStream, promises as fs } from 'fs';
+import * as readline from 'readline';
+import { getBlobStore } from '@/lib/api/blob-store';
+import { exportArchive, importArchive, toArchiveLine } from '@/lib/api/archive';
+import { getTodayDate } from '@/lib/api/snapshot-management';
+
+// Load environment variables from .env.local
+dotenv.config({ path: '.env.local' });
+
+// Export command: Write all stored data to an archive file
+async function exportToFile(file: string) {
+  console.log(`📦 Exporting ${getBlobStore().name} storage to ${file}...\n`);
+
+  const handle = await fs.open(file, 'w');
+  let snapshotCount = 0;
+  let pageCount = 0;
+
+  try {
+    for await (const record of exportArchive()) {
+      await handle.write(toArchiveLine(record));
+
+      if (record.type === 'snapshot') {
+        snapshotCount++;
+      } else if (record.type === 'page') {
+        pageCount++;
+      } else if (record.type === 'known-missing') {
+        console.log(`🕳️  Known missing dates: ${Object.keys(record.knownMissing.dates).length}`);
+      } else if (record.type === 'index') {
+        console.log(`📋 Index: ${record.index.snapshots.length} date(s)`);
+      } else if (record.type === 'metadata') {
+        console.log(`🌍 Player metadata: ${Object.keys(record.players).length} player(s)`);
+      } else if (record.type === 'players') {
+        console.log(`🪪 Player registry: ${Object.keys(record.registry).length} identities`);
+      } else if (record.type === 'footer' && record.skipped.length > 0) {
+        console.log(`⚠️  Skipped ${record.skipped.length} invalid snapshot(s) or page(s):`);
+        record.skipped.forEach(pathname => console.log(`   - ${pathname}`));
+      }
+    }
+  } finally {
+    await handle.close();
+  }
+
+  console.log(`📸 Snapshots: ${snapshotCount}`);
+  console.log(`📄 Archived pages: ${pageCount}`);
+  console.log(`\n✅ Archive written to ${file}`);
+}
+
+// Import command: Validate an archive file and restore it
+async function importFromFile(file: string, dryRun: boolean) {
+  console.log(`📥 Importing ${file} into ${getBlobStore().name} storage${dryRun ? ' (dry run)' : ''}...\n`);
+
+  const lines = readline.createInterface({
+    input: createReadStream(file, 'utf-8'),
+    crlfDelay: Infinity,
+  });
+  const report = await importArchive(lines, { dryRun });
+
+  console.log(`\n📊 Summary:`);
+  console.log(`   📸 Valid snapshots: ${report.snapshots}`);
+  console.log(`   📋 Index: ${report.index ? 'yes' : 'no'}`);
+  console.log(`   🌍 Player metadata: ${report.metadata ? 'yes' : 'no'}`);
+  console.log(`   🪪 Player registry: ${report.players ? 'yes' : 'no'}`);
+  console.log(`   🕳️  Known missing dates: ${report.knownMissing ? 'yes' : 'no'}`);
+  console.log(`   📄 Archived pages: ${report.pages}`);
+  console.log(`   ❌ Errors: ${report.errors.length}`);
+
+  if (report.skippedAtExport.length > 0) {
+    console.log(`\n⚠️  ${report.skippedAtExport.length} invalid snapshot(s) or page(s) were left out when this archive was exported`);
+  }
+  if (report.existingSnapshotsNotInArchive > 0) {
+    console.log(`\n⚠️  ${report.existingSnapshotsNotInArchive} stored snapshot(s) are not in the archive and will be kept (the index is rebuilt)`);
+  }
+
+  if (report.errors.length > 0) {
+    console.log('');
+    report.errors.slice(0, 20).forEach(error => console.log(`   ${error.message}`));
+    if (report.errors.length > 20) {
+      console.log(`   ... and ${report.errors.length - 20} more`);
+    }
+    console.log('\n❌ Archive is invalid, nothing was written');
+    process.exit(1);
+  }
+
+  if (dryRun) {
+    console.log('\n✅ Archive is valid. Run without --dry-run to restore it');
+  } else {
+    console.log('\n✅ Archive restored');
+  }
+}
+
+// Main command handler
+async function main() {
+  const command = process.argv[2] || 'help';
+  const args = process.argv.slice(3);
+  const file = args.find(arg => !arg.startsWith('--'));
+
+  try {
+    switch (command.toLowerCase()) {
+      case 'export':
+        await exportToFile(file || `poker-table-archive-${getTodayDate()}.ndjson`);
+        break;
+      case 'import':
+        if (!file) {
+          console.log('❌ Missing archive file');
+          process.exit(1);
+        }
+        await importFromFile(file, args.includes('--dry-run'));
+        break;
+      case 'help':
+      default:
+        console.log('📦 Archive Tool\n');
+        console.log('Commands:');
+        console.log('  export [file]               - Export snapshots, pages, index, metadata, players and known missing dates to an NDJSON archive');
+        console.log('  import <file> [--dry-run]   - Validate an archive and restore it');
+        console.log('\nUsage:');
+        console.log('  npx tsx scripts/archive.ts export backup.ndjson');
+        console.log('  npx tsx scripts/archive.ts import backup.ndjson --dry-run');
+        break;
+    }
+  } catch (error) {
+    console.error('\n❌ Error:', error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+main();
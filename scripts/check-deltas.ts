@@ -0,0 +1,70 @@
+/**
+ * Cross-check source-reported daily changes across the stored history
+ * Compares every daily snapshot's superscript deltas with the difference to the
+ * previous stored day, to find missed or misdated snapshots
+ *
+ * Usage: npx tsx scripts/check-deltas.ts [--verbose]
+ */
+
+import dotenv from 'dotenv';
+import { getBlobStore } from '@/lib/api/blob-store';
+import { crossCheckDeltas } from '@/lib/api/delta-check';
+import { getAvailableSnapshots, loadSnapshot } from '@/lib/api/snapshot-management';
+import { loadPlayerRegistry } from '@/lib/api/player-registry';
+import { HistoricalSnapshot } from '@/lib/api/types';
+
+// Load environment variables from .env.local
+dotenv.config({ path: '.env.local' });
+
+async function main() {
+  const verbose = process.argv.includes('--verbose');
+  console.log(`🔍 Cross-checking daily changes in ${getBlobStore().name} storage...\n`);
+
+  try {
+    const dates = (await getAvailableSnapshots()).reverse(); // Oldest first
+    const registry = await loadPlayerRegistry();
+    let previous: HistoricalSnapshot | null = null;
+    let checkedDates = 0;
+    let flaggedDates = 0;
+
+    for (const date of dates) {
+      const snapshot = await loadSnapshot(date);
+      if (!snapshot) {
+        console.log(`⚠️  ${date}: could not be loaded, skipped`);
+        continue;
+      }
+
+      const check = crossCheckDeltas(snapshot.players, previous, registry);
+      previous = snapshot;
+
+      // Snapshots stored before deltas were captured have nothing to check
+      if (check.checkedPlayers === 0) {
+        continue;
+      }
+
+      checkedDates++;
+      if (check.discrepancies.length === 0) {
+        console.log(`✅ ${date}: ${check.checkedPlayers} players match ${check.comparedWith}`);
+        continue;
+      }
+
+      flaggedDates++;
+      const disagreeing = new Set(check.discrepancies.map(d => d.name)).size;
+      console.log(`❌ ${date}: ${disagreeing}/${check.checkedPlayers} players disagree with ${check.comparedWith}`);
+      check.discrepancies.slice(0, verbose ? undefined : 5).forEach(d => {
+        console.log(`   - ${d.name} ${d.field}: source ${d.sourceChange}, calculated ${d.calculatedChange}`);
+      });
+    }
+
+    console.log(`\n📊 ${checkedDates} date(s) checked, ${flaggedDates} with discrepancies`);
+    if (flaggedDates > 0) {
+      console.log('💡 When most players disagree, the comparison snapshot is probably missing a day or misdated');
+    }
+  } catch (error) {
+    console.error('\n❌ Fatal error checking deltas:', error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+main();
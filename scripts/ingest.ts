@@ -0,0 +1,55 @@
+/**
+ * Scrape the leaderboard and write a new snapshot revision if the source was updated
+ * Same job as the /api/ingest cron route, for running offline or from a system scheduler
+ * 
+ * Usage: npx tsx scripts/ingest.ts
+ * Set LEADERBOARD_SOURCE=<id> to ingest a source other than the default one
+ */
+
+import dotenv from 'dotenv';
+import { getBlobStore } from '@/lib/api/blob-store';
+import { runIngestion } from '@/lib/api/ingestion';
+import { getActiveSource } from '@/lib/api/sources';
+
+// Load environment variables from .env.local
+dotenv.config({ path: '.env.local' });
+
+async function main() {
+  try {
+    console.log(`🔄 Ingesting ${getActiveSource().name} into ${getBlobStore().name} storage...\n`);
+
+    const result = await runIngestion();
+
+    console.log(`📅 Date: ${result.date}`);
+    console.log(`🕒 Webpage timestamp: ${result.webpageTimestamp}${result.webpageUpdatedAt ? ` (${result.webpageUpdatedAt}, ${result.sourceAgeHours}h ago)` : ' (not recognized)'}`);
+    console.log(`👥 Players parsed: ${result.playerCount}${result.rejectedRows > 0 ? ` (${result.rejectedRows} rows rejected by validation)` : ''}`);
+    if (result.deltaDiscrepancies > 0) {
+      console.log(`⚠️  Source-reported changes disagreeing with the previous snapshot: ${result.deltaDiscrepancies}`);
+    }
+    if (result.newPlayers.length > 0) {
+      console.log(`➕ New players: ${result.newPlayers.join(', ')}`);
+    }
+
+    switch (result.status) {
+      case 'saved':
+        console.log(`\n✅ Snapshot revision ${result.revision} saved (${result.durationMs}ms)`);
+        break;
+      case 'unchanged':
+        console.log(`\nℹ️  Source not updated since revision ${result.revision} of ${result.date}, nothing to do`);
+        break;
+      case 'quarantined':
+        console.log(`\n🚧 Scrape failed the sanity rules and was quarantined as ${result.quarantineId}`);
+        console.log(`💡 Review it with: npx tsx scripts/quarantine.ts show ${result.quarantineId}`);
+        break;
+      case 'failed':
+        console.error('\n❌ Failed to save snapshot');
+        process.exit(1);
+    }
+  } catch (error) {
+    console.error('\n❌ Fatal error during ingestion:', error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+main();
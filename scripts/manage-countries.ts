@@ -1,65 +1,72 @@
 /**
- * Script to manage player country codes stored in Vercel Blob
+ * Script to manage player country codes stored in blob storage
+ * Country codes are part of the player metadata (see lib/api/player-metadata.ts)
+ * Uses the backend selected by BLOB_STORE_BACKEND (Vercel Blob or local filesystem)
  * Run with: npx tsx scripts/manage-countries.ts [command]
  * 
  * Commands:
  *   sync    - Sync current players from latest snapshot and add missing ones
  *   list    - List all players and their country codes
  *   update  - Interactively update country codes for players
+ *   lookup  - Look up country codes by name (e.g. "germany" → DE)
+ *   invalid - Report stored codes that are not ISO 3166-1 codes (--fix applies suggestions)
  *   migrate - Migrate from local config file to blob storage
  */
 
 import dotenv from 'dotenv';
-import { put, list, head } from '@vercel/blob';
 import { promises as fs } from 'fs';
+import os from 'os';
 import path from 'path';
 import * as readline from 'readline';
+import { getBlobStore, readJsonBlob } from '@/lib/api/blob-store';
+import { SNAPSHOTS_BLOB_PREFIX } from '@/lib/api/constants';
+import { readLoggedDocument } from '@/lib/api/document-log';
+import {
+  playerMetadataLog,
+  registerPlayers,
+  compactPlayerMetadata,
+  findInvalidCountryCodes,
+  migrateCountryMappings
+} from '@/lib/api/player-metadata';
+import { editPlayerMetadata } from '@/lib/api/player-admin';
+import { parseSnapshotPath } from '@/lib/api/snapshot-management';
+import { findCountry, searchCountries } from '@/lib/countries';
+import { countryCodeToFlag } from '@/lib/flags';
 
 // Load environment variables from .env.local
 dotenv.config({ path: '.env.local' });
 
-const COUNTRIES_BLOB_PATH = 'countries.json';
-
 interface CountryMappings {
   [playerName: string]: string | null; // ISO 3166-1 alpha-2 code or null for unknown
 }
 
-// Load country mappings from Vercel Blob
+// Load country codes from the player metadata in blob storage (including changes not yet compacted)
 async function loadCountriesFromBlob(): Promise<CountryMappings> {
   try {
-    const { blobs } = await list({
-      prefix: COUNTRIES_BLOB_PATH,
-      limit: 1,
-    });
+    const metadata = await readLoggedDocument(playerMetadataLog);
     
-    if (blobs.length === 0) {
-      console.log('ℹ️  No countries.json found in Blob storage. Starting fresh.');
+    if (Object.keys(metadata).length === 0) {
+      console.log('ℹ️  No players/metadata.json found in Blob storage. Starting fresh.');
       return {};
     }
     
-    const response = await fetch(blobs[0].url, {
-      cache: 'no-store',
-    });
-    if (!response.ok) {
-      throw new Error(`Failed to fetch: ${response.statusText}`);
-    }
-    
-    return await response.json();
+    return Object.fromEntries(
+      Object.entries(metadata).map(([name, entry]) => [name, entry.countryCode])
+    );
   } catch (error) {
     console.error('Error loading countries from Blob:', error);
     return {};
   }
 }
 
-// Save country mappings to Vercel Blob
-async function saveCountriesToBlob(mappings: CountryMappings): Promise<void> {
+// Save changed country codes to blob storage (recorded in the admin audit trail)
+// Only the given players are written, so concurrent edits to other players are kept
+async function saveCountriesToBlob(changes: CountryMappings): Promise<void> {
   try {
-    await put(COUNTRIES_BLOB_PATH, JSON.stringify(mappings, null, 2), {
-      access: 'public',
-      addRandomSuffix: false,
-      contentType: 'application/json',
-      cacheControlMaxAge: 0,
-    });
+    await editPlayerMetadata(
+      Object.fromEntries(Object.entries(changes).map(([name, countryCode]) => [name, { countryCode }])),
+      `${os.userInfo().username} (script)`
+    );
     console.log('✅ Countries saved to Blob storage');
   } catch (error) {
     console.error('Error saving countries to Blob:', error);
@@ -72,23 +79,19 @@ async function getAllPlayerNames(): Promise<Set<string>> {
   const playerNames = new Set<string>();
   
   try {
-    const { blobs } = await list({
-      prefix: 'snapshots/',
-    });
+    const blobs = (await getBlobStore().list(SNAPSHOTS_BLOB_PREFIX))
+      .filter(blob => parseSnapshotPath(blob.pathname) !== null);
     
     console.log(`📦 Scanning ${blobs.length} snapshot(s) for players...`);
     
     for (const blob of blobs) {
-      const response = await fetch(blob.url);
-      if (response.ok) {
-        const snapshot = await response.json();
-        if (snapshot.players && Array.isArray(snapshot.players)) {
-          snapshot.players.forEach((player: any) => {
-            if (player.name) {
-              playerNames.add(player.name);
-            }
-          });
-        }
+      const snapshot = await readJsonBlob<{ players?: Array<{ name?: string }> }>(blob.pathname);
+      if (snapshot?.players && Array.isArray(snapshot.players)) {
+        snapshot.players.forEach(player => {
+          if (player.name) {
+            playerNames.add(player.name);
+          }
+        });
       }
     }
   } catch (error) {
@@ -105,18 +108,20 @@ async function syncPlayers() {
   const mappings = await loadCountriesFromBlob();
   const allPlayers = await getAllPlayerNames();
   
-  let addedCount = 0;
+  const addedPlayers: string[] = [];
   
   for (const playerName of allPlayers) {
     if (!(playerName in mappings)) {
       mappings[playerName] = null;
-      addedCount++;
+      addedPlayers.push(playerName);
       console.log(`➕ Added new player: ${playerName}`);
     }
   }
   
+  const addedCount = addedPlayers.length;
   if (addedCount > 0) {
-    await saveCountriesToBlob(mappings);
+    await registerPlayers(addedPlayers);
+    await compactPlayerMetadata();
     console.log(`\n✅ Added ${addedCount} new player(s)`);
   } else {
     console.log('\n✅ All players already in database');
@@ -140,14 +145,24 @@ async function listPlayers() {
   }
   
   entries.forEach(([name, code]) => {
-    const flag = code ? countryCodeToFlag(code) : '❓';
+    const flag = code ? countryCodeToFlag(code) || '⚠️' : '❓';
     const displayCode = code || 'null';
     console.log(`${flag}  ${name.padEnd(25)} → ${displayCode}`);
   });
   
+  const invalidCount = entries.filter(([, c]) => c !== null && !countryCodeToFlag(c)).length;
   console.log(`\n📊 Total: ${entries.length} players`);
   console.log(`   🌍 With countries: ${entries.filter(([, c]) => c !== null).length}`);
   console.log(`   ❓ Without countries: ${entries.filter(([, c]) => c === null).length}`);
+  if (invalidCount > 0) {
+    console.log(`   ⚠️  Invalid codes: ${invalidCount} (run "invalid" to review them)`);
+  }
+}
+
+// Helper: Describe countries matching a query, for prompts and lookups
+function describeMatches(query: string): string {
+  const matches = searchCountries(query).slice(0, 5);
+  return matches.map(country => `${countryCodeToFlag(country.code)} ${country.code} ${country.name}`).join(', ');
 }
 
 // Update command: Interactively update country codes
@@ -172,48 +187,112 @@ async function updatePlayers() {
   };
   
   console.log('🌍 Interactive Country Code Update');
-  console.log('Enter 2-letter ISO country codes (or "skip" to skip, "done" to finish)\n');
-  console.log('Common codes: US, GB, CA, AU, DE, FR, ES, IT, BR, MX, CN, JP, etc.\n');
+  console.log('Enter an ISO country code or country name (or "skip" to skip, "done" to finish)\n');
+  console.log('Examples: US, GB, "germany", "united kingdom", "uk"\n');
   
+  const changes: CountryMappings = {};
   let updateCount = 0;
+  let done = false;
   
   for (const playerName of players) {
     const currentCode = mappings[playerName];
-    const flag = currentCode ? countryCodeToFlag(currentCode) : '❓';
+    const flag = currentCode ? countryCodeToFlag(currentCode) || '⚠️' : '❓';
     const display = currentCode || 'none';
     
-    const answer = await question(`${flag}  ${playerName} [${display}]: `);
-    const input = answer.trim().toLowerCase();
-    
-    if (input === 'done') {
-      console.log('\n✅ Stopping updates');
-      break;
-    }
-    
-    if (input === 'skip' || input === '') {
-      continue;
+    // Ask again until the answer names a country
+    while (true) {
+      const answer = await question(`${flag}  ${playerName} [${display}]: `);
+      const input = answer.trim().toLowerCase();
+      
+      if (input === 'done') {
+        console.log('\n✅ Stopping updates');
+        done = true;
+        break;
+      }
+      
+      if (input === 'skip' || input === '') {
+        break;
+      }
+      
+      const country = findCountry(input);
+      if (country) {
+        changes[playerName] = country.code;
+        updateCount++;
+        console.log(`   ✅ Updated to ${countryCodeToFlag(country.code)} ${country.code} (${country.name})`);
+        break;
+      }
+      
+      const suggestions = describeMatches(input);
+      console.log(`   ⚠️  Unknown country "${answer.trim()}"${suggestions ? `. Did you mean: ${suggestions}` : ''}`);
     }
     
-    if (input.length === 2) {
-      const upperCode = input.toUpperCase();
-      mappings[playerName] = upperCode;
-      updateCount++;
-      console.log(`   ✅ Updated to ${countryCodeToFlag(upperCode)} ${upperCode}`);
-    } else {
-      console.log('   ⚠️  Invalid code (must be 2 letters)');
+    if (done) {
+      break;
     }
   }
   
   rl.close();
   
   if (updateCount > 0) {
-    await saveCountriesToBlob(mappings);
+    await saveCountriesToBlob(changes);
     console.log(`\n✅ Updated ${updateCount} player(s)`);
   } else {
     console.log('\n✅ No changes made');
   }
 }
 
+// Lookup command: Find country codes by code, name or alias
+function lookupCountries(query: string | undefined) {
+  if (!query) {
+    console.log('Usage: npx tsx scripts/manage-countries.ts lookup <code or name>');
+    return;
+  }
+  
+  const matches = searchCountries(query);
+  if (matches.length === 0) {
+    console.log(`❌ No country matches "${query}"`);
+    return;
+  }
+  
+  matches.forEach(country => {
+    const aliases = country.aliases ? ` (also ${country.aliases.join(', ')})` : '';
+    console.log(`${countryCodeToFlag(country.code)}  ${country.code}  ${country.name}${aliases}`);
+  });
+}
+
+// Invalid command: Report stored codes that are not in the ISO 3166-1 catalogue
+async function reportInvalidCodes(fix: boolean) {
+  console.log('🔍 Checking stored country codes...\n');
+  
+  const invalid = findInvalidCountryCodes(await readLoggedDocument(playerMetadataLog));
+  if (invalid.length === 0) {
+    console.log('✅ All stored country codes are valid');
+    return;
+  }
+  
+  invalid.forEach(({ name, countryCode, suggestion }) => {
+    const fixText = suggestion ? `→ ${countryCodeToFlag(suggestion)} ${suggestion}` : '→ no matching country';
+    console.log(`⚠️  ${name.padEnd(25)} ${countryCode.padEnd(4)} ${fixText}`);
+  });
+  console.log(`\n📊 ${invalid.length} invalid code(s); they show as unknown until fixed`);
+  
+  const fixable = invalid.filter(entry => entry.suggestion !== null);
+  if (!fix) {
+    if (fixable.length > 0) {
+      console.log(`   Run "invalid --fix" to apply ${fixable.length} suggestion(s)`);
+    }
+    return;
+  }
+  
+  if (fixable.length > 0) {
+    await saveCountriesToBlob(Object.fromEntries(fixable.map(entry => [entry.name, entry.suggestion])));
+    console.log(`\n✅ Fixed ${fixable.length} player(s)`);
+  }
+  if (fixable.length < invalid.length) {
+    console.log(`   ${invalid.length - fixable.length} code(s) need a country set by hand ("update" or "players.ts set")`);
+  }
+}
+
 // Migrate command: Migrate from local config file to blob storage
 async function migrateFromLocalFile() {
   console.log('🔄 Migrating from local config file to Blob storage...\n');
@@ -222,7 +301,11 @@ async function migrateFromLocalFile() {
   
   try {
     const data = await fs.readFile(localFile, 'utf-8');
-    const localMappings = JSON.parse(data);
+    
+    // Resolve codes against the catalogue ("UK" becomes GB, unknown codes null)
+    const localMappings: CountryMappings = Object.fromEntries(
+      Object.entries(migrateCountryMappings(JSON.parse(data))).map(([name, entry]) => [name, entry.countryCode])
+    );
     
     console.log(`📁 Found ${Object.keys(localMappings).length} entries in local file`);
     
@@ -248,7 +331,7 @@ async function migrateFromLocalFile() {
       
       // Merge: local file takes precedence
       const merged = { ...existingMappings, ...localMappings };
-      await saveCountriesToBlob(merged);
+      await saveCountriesToBlob(localMappings);
       console.log(`✅ Merged ${Object.keys(merged).length} total entries`);
     } else {
       await saveCountriesToBlob(localMappings);
@@ -269,20 +352,6 @@ async function migrateFromLocalFile() {
   }
 }
 
-// Helper: Convert country code to flag emoji
-function countryCodeToFlag(countryCode: string | null | undefined): string {
-  if (!countryCode || countryCode.length !== 2) {
-    return '❓';
-  }
-
-  const code = countryCode.toUpperCase();
-  const codePoints = [...code].map(char => 
-    0x1F1E6 - 65 + char.charCodeAt(0)
-  );
-  
-  return String.fromCodePoint(...codePoints);
-}
-
 // Main command handler
 async function main() {
   const command = process.argv[2] || 'help';
@@ -298,6 +367,12 @@ async function main() {
       case 'update':
         await updatePlayers();
         break;
+      case 'lookup':
+        lookupCountries(process.argv.slice(3).join(' '));
+        break;
+      case 'invalid':
+        await reportInvalidCodes(process.argv.includes('--fix'));
+        break;
       case 'migrate':
         await migrateFromLocalFile();
         break;
@@ -307,7 +382,9 @@ async function main() {
         console.log('Commands:');
         console.log('  sync    - Sync players from snapshots and add missing ones');
         console.log('  list    - List all players and their country codes');
-        console.log('  update  - Interactively update country codes');
+        console.log('  update  - Interactively update country codes (codes or names)');
+        console.log('  lookup  - Look up country codes by name, e.g. lookup germany');
+        console.log('  invalid - Report stored codes that are not ISO 3166-1 codes (--fix applies suggestions)');
         console.log('  migrate - Migrate from local config file to Blob storage\n');
         console.log('Usage: npx tsx scripts/manage-countries.ts [command]');
         break;
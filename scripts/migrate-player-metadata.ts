@@ -0,0 +1,43 @@
+/**
+ * Copy the legacy country mappings (countries.json) into the player metadata
+ * document (players/metadata.json). Run once per source after upgrading;
+ * running it again only fills in names that are still missing
+ *
+ * Usage: npx tsx scripts/migrate-player-metadata.ts [--dry-run]
+ * Set LEADERBOARD_SOURCE=<id> to migrate a source other than the default one
+ */
+
+import dotenv from 'dotenv';
+import { getBlobStore } from '@/lib/api/blob-store';
+import { migrateLegacyCountryMappings } from '@/lib/api/player-metadata';
+import { getActiveSource } from '@/lib/api/sources';
+
+// Load environment variables from .env.local
+dotenv.config({ path: '.env.local' });
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+
+  console.log(`🔄 Migrating country mappings of ${getActiveSource().name} in ${getBlobStore().name} storage to player metadata${dryRun ? ' (dry run)' : ''}...\n`);
+
+  try {
+    const { withCountry, withoutCountry, unchanged } = await migrateLegacyCountryMappings({ dryRun });
+
+    console.log(`📊 Summary:`);
+    console.log(`   🌍 ${dryRun ? 'To copy' : 'Copied'} with country: ${withCountry.length}`);
+    console.log(`   ❓ ${dryRun ? 'To copy' : 'Copied'} without country: ${withoutCountry.length}`);
+    console.log(`   ⏭️  Already in player metadata: ${unchanged}`);
+
+    if (dryRun && withCountry.length + withoutCountry.length > 0) {
+      console.log('\n💡 Run without --dry-run to copy these players');
+    } else if (!dryRun) {
+      console.log('\n✅ Player metadata is up to date. countries.json was left in place and is no longer read');
+    }
+  } catch (error) {
+    console.error('\n❌ Fatal error migrating country mappings:', error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+main();
@@ -0,0 +1,48 @@
+/**
+ * Rewrite all stored snapshots to the current schema version
+ * Older snapshots are upgraded on read, this makes the stored files match
+ *
+ * Usage: npx tsx scripts/migrate-snapshots.ts [--dry-run]
+ */
+
+import dotenv from 'dotenv';
+import { getBlobStore } from '@/lib/api/blob-store';
+import { SNAPSHOT_SCHEMA_VERSION } from '@/lib/api/constants';
+import { migrateStoredSnapshots } from '@/lib/api/snapshot-management';
+
+// Load environment variables from .env.local
+dotenv.config({ path: '.env.local' });
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+
+  console.log(`🔄 Migrating snapshots in ${getBlobStore().name} storage to schemaVersion ${SNAPSHOT_SCHEMA_VERSION}${dryRun ? ' (dry run)' : ''}...\n`);
+
+  try {
+    const { migrated, upToDate, failed } = await migrateStoredSnapshots({ dryRun });
+
+    console.log(`\n📊 Summary:`);
+    console.log(`   ✅ ${dryRun ? 'To migrate' : 'Migrated'}: ${migrated.length}`);
+    console.log(`   ⏭️  Already up to date: ${upToDate}`);
+    console.log(`   ❌ Failed: ${failed.length}`);
+
+    for (const pathname of failed) {
+      console.log(`      - ${pathname}`);
+    }
+
+    if (failed.length > 0) {
+      console.log('\n⚠️  Failed snapshots were left unchanged and are skipped when loading');
+      process.exit(1);
+    }
+
+    if (dryRun && migrated.length > 0) {
+      console.log('\n💡 Run without --dry-run to rewrite these snapshots');
+    }
+  } catch (error) {
+    console.error('\n❌ Fatal error migrating snapshots:', error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+main();
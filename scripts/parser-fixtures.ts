@@ -0,0 +1,276 @@
+/**
+ * Parser regression harness
+ * Runs every recorded leaderboard page in fixtures/leaderboard/ through the real
+ * parsers (timestamp and table) and reports field-level differences against the
+ * expected output stored next to it. Runs fully offline.
+ *
+ * Each fixture is a pair: <name>.html (the page) and <name>.json (the expected
+ * parse result, validated with ParserFixtureExpectationSchema).
+ *
+ * Usage:
+ *   npx tsx scripts/parser-fixtures.ts run [name...]
+ *   npx tsx scripts/parser-fixtures.ts record <name> [page.html]
+ *   npx tsx scripts/parser-fixtures.ts update <name...>
+ * Set LEADERBOARD_SOURCE=<id> when recording a page of another source
+ */
+
+import dotenv from 'dotenv';
+import fs from 'fs/promises';
+import path from 'path';
+import { fetchLeaderboardHtml } from '@/lib/api/data-parsing';
+import { getActiveSource, getLeaderboardSource, LeaderboardSource } from '@/lib/api/sources';
+import { PlayerData } from '@/lib/api/types';
+import {
+  ParserFixtureExpectationSchema,
+  ValidatedParserFixtureExpectation,
+  validateOrThrow
+} from '@/lib/schemas';
+
+// Load environment variables from .env.local
+dotenv.config({ path: '.env.local' });
+
+const FIXTURES_DIR = path.join(process.cwd(), 'fixtures', 'leaderboard');
+
+const PLAYER_FIELDS: Array<keyof PlayerData> = [
+  'rank', 'name', 'evWon', 'evBB100', 'won', 'hands', 'sourceEvWonChange', 'sourceHandsChange'
+];
+
+// Helper: Format a value for diff output
+function show(value: unknown): string {
+  return value === undefined ? '(missing)' : JSON.stringify(value);
+}
+
+// Helper: List fixture names (HTML files with an expectation next to them)
+async function listFixtures(): Promise<string[]> {
+  const files = await fs.readdir(FIXTURES_DIR).catch(() => [] as string[]);
+  return files
+    .filter(file => file.endsWith('.html'))
+    .map(file => file.slice(0, -'.html'.length))
+    .sort();
+}
+
+// Helper: Resolve the leaderboard source of a fixture
+function getFixtureSource(sourceId: string | undefined): LeaderboardSource {
+  const source = getLeaderboardSource(sourceId);
+  if (!source) {
+    throw new Error(`Unknown source "${sourceId}"`);
+  }
+  return source;
+}
+
+// Helper: Parse a page the way ingestion does
+function parsePage(source: LeaderboardSource, html: string): ValidatedParserFixtureExpectation {
+  const webpageTimestamp = source.parseTimestamp(html);
+  try {
+    const { headers, players } = source.parseTable(html);
+    return { webpageTimestamp, headers, players, dailyMovers: source.parseDailyMovers(html) };
+  } catch (error) {
+    return { webpageTimestamp, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// Helper: Compare a parse result with the expectation, one line per differing field
+function diffParseResult(
+  expected: ValidatedParserFixtureExpectation,
+  actual: ValidatedParserFixtureExpectation
+): string[] {
+  const diffs: string[] = [];
+
+  if (expected.webpageTimestamp !== actual.webpageTimestamp) {
+    diffs.push(`webpageTimestamp: expected ${show(expected.webpageTimestamp)}, got ${show(actual.webpageTimestamp)}`);
+  }
+
+  if (expected.error !== undefined) {
+    if (actual.error === undefined) {
+      diffs.push(`error: expected ${show(expected.error)}, but the page parsed (${actual.players?.length} players)`);
+    } else if (!actual.error.includes(expected.error)) {
+      diffs.push(`error: expected ${show(expected.error)}, got ${show(actual.error)}`);
+    }
+    return diffs;
+  }
+
+  if (actual.error !== undefined) {
+    diffs.push(`error: ${actual.error}`);
+    return diffs;
+  }
+
+  if (expected.headers && JSON.stringify(expected.headers) !== JSON.stringify(actual.headers)) {
+    diffs.push(`headers: expected ${show(expected.headers)}, got ${show(actual.headers)}`);
+  }
+
+  const expectedPlayers = expected.players ?? [];
+  const actualPlayers = actual.players ?? [];
+  if (expectedPlayers.length !== actualPlayers.length) {
+    diffs.push(`players: expected ${expectedPlayers.length} rows, got ${actualPlayers.length}`);
+  }
+
+  for (let row = 0; row < Math.max(expectedPlayers.length, actualPlayers.length); row++) {
+    const expectedPlayer = expectedPlayers[row];
+    const actualPlayer = actualPlayers[row];
+    const label = `row ${row + 1} (${expectedPlayer?.name ?? actualPlayer?.name})`;
+
+    if (!expectedPlayer || !actualPlayer) {
+      diffs.push(`${label}: ${expectedPlayer ? 'missing' : 'unexpected'}`);
+      continue;
+    }
+
+    for (const field of PLAYER_FIELDS) {
+      if (expectedPlayer[field] !== actualPlayer[field]) {
+        diffs.push(`${label}: ${field} expected ${show(expectedPlayer[field])}, got ${show(actualPlayer[field])}`);
+      }
+    }
+  }
+
+  if (expected.dailyMovers !== undefined) {
+    diffs.push(...diffDailyMovers(expected.dailyMovers, actual.dailyMovers ?? null));
+  }
+
+  return diffs;
+}
+
+// Helper: Compare the daily winners/losers tables entry by entry
+function diffDailyMovers(
+  expected: ValidatedParserFixtureExpectation['dailyMovers'],
+  actual: ValidatedParserFixtureExpectation['dailyMovers']
+): string[] {
+  if (!expected || !actual) {
+    return expected === actual ? [] : [`dailyMovers: expected ${show(expected)}, got ${show(actual)}`];
+  }
+
+  const diffs: string[] = [];
+  for (const kind of ['winners', 'losers'] as const) {
+    for (let row = 0; row < Math.max(expected[kind].length, actual[kind].length); row++) {
+      const expectedEntry = expected[kind][row];
+      const actualEntry = actual[kind][row];
+      if (JSON.stringify(expectedEntry) !== JSON.stringify(actualEntry)) {
+        diffs.push(`dailyMovers.${kind} row ${row + 1}: expected ${show(expectedEntry)}, got ${show(actualEntry)}`);
+      }
+    }
+  }
+  return diffs;
+}
+
+// Helper: Write the expectation of a fixture from the current parser output
+async function writeExpectation(name: string, source: LeaderboardSource, description?: string) {
+  const html = await fs.readFile(path.join(FIXTURES_DIR, `${name}.html`), 'utf-8');
+  const expectation: ValidatedParserFixtureExpectation = {
+    source: source.id,
+    ...(description && { description }),
+    ...parsePage(source, html)
+  };
+
+  await fs.writeFile(path.join(FIXTURES_DIR, `${name}.json`), JSON.stringify(expectation, null, 2) + '\n');
+  return expectation;
+}
+
+// Helper: Load and validate the expectation of a fixture
+async function readExpectation(name: string): Promise<ValidatedParserFixtureExpectation> {
+  const text = await fs.readFile(path.join(FIXTURES_DIR, `${name}.json`), 'utf-8');
+  return validateOrThrow(ParserFixtureExpectationSchema, JSON.parse(text), `Fixture expectation ${name}.json`);
+}
+
+// Run command: Parse every fixture and report differences
+async function run(names: string[]) {
+  const fixtures = names.length > 0 ? names : await listFixtures();
+  if (fixtures.length === 0) {
+    throw new Error(`No fixtures found in ${FIXTURES_DIR}`);
+  }
+
+  console.log(`🧪 Running ${fixtures.length} parser fixture(s)...\n`);
+  let failed = 0;
+
+  for (const name of fixtures) {
+    try {
+      const expected = await readExpectation(name);
+      const html = await fs.readFile(path.join(FIXTURES_DIR, `${name}.html`), 'utf-8');
+      const diffs = diffParseResult(expected, parsePage(getFixtureSource(expected.source), html));
+
+      if (diffs.length === 0) {
+        console.log(`✅ ${name}`);
+      } else {
+        failed++;
+        console.log(`❌ ${name} (${diffs.length} difference(s))`);
+        diffs.forEach(diff => console.log(`   - ${diff}`));
+      }
+    } catch (error) {
+      failed++;
+      console.log(`❌ ${name}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  console.log(`\n📊 ${fixtures.length - failed} passed, ${failed} failed`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+// Record command: Capture a page (live or from a file) as a new fixture
+async function record(name: string | undefined, file: string | undefined) {
+  if (!name || !/^[a-z0-9-]+$/.test(name)) {
+    throw new Error('Usage: record <name> [page.html] (name: lowercase letters, digits and dashes)');
+  }
+
+  const source = getActiveSource();
+  const html = file
+    ? await fs.readFile(file, 'utf-8')
+    : await fetchLeaderboardHtml(source.url);
+
+  await fs.mkdir(FIXTURES_DIR, { recursive: true });
+  await fs.writeFile(path.join(FIXTURES_DIR, `${name}.html`), html);
+
+  const description = file
+    ? `Recorded from ${path.basename(file)} on ${new Date().toISOString().split('T')[0]}`
+    : `Captured from ${source.url} on ${new Date().toISOString().split('T')[0]}`;
+  const expectation = await writeExpectation(name, source, description);
+
+  console.log(`✅ Recorded fixture ${name} (${expectation.players?.length ?? 0} players${expectation.error ? `, error: ${expectation.error}` : ''})`);
+  console.log(`💡 Review fixtures/leaderboard/${name}.json against the page before committing it`);
+}
+
+// Update command: Regenerate expectations after an intended parser change
+async function update(names: string[]) {
+  if (names.length === 0) {
+    throw new Error('Name the fixture(s) to update');
+  }
+
+  for (const name of names) {
+    const current = await readExpectation(name);
+    await writeExpectation(name, getFixtureSource(current.source), current.description);
+    console.log(`✅ Updated ${name}.json`);
+  }
+  console.log('💡 Review the changes with git diff before committing them');
+}
+
+// Main command handler
+async function main() {
+  const command = process.argv[2] || 'run';
+  const args = process.argv.slice(3);
+
+  try {
+    switch (command.toLowerCase()) {
+      case 'run':
+        await run(args);
+        break;
+      case 'record':
+        await record(args[0], args[1]);
+        break;
+      case 'update':
+        await update(args);
+        break;
+      case 'help':
+      default:
+        console.log('🧪 Parser Fixture Harness\n');
+        console.log('Commands:');
+        console.log('  run [name...]              - Parse fixtures and report field-level differences (default)');
+        console.log('  record <name> [page.html]  - Capture the live page (or a saved file) as a new fixture');
+        console.log('  update <name...>           - Regenerate expectations from the current parser');
+        break;
+    }
+  } catch (error) {
+    console.error('\n❌ Error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+main();
@@ -0,0 +1,204 @@
+/**
+ * Player identity management
+ * Lists the player registry (see lib/api/player-registry.ts), merges or
+ * splits identities, e.g. after a player renamed their account, and edits
+ * player metadata (see lib/api/player-metadata.ts)
+ *
+ * Usage:
+ *   npx tsx scripts/players.ts list [search]
+ *   npx tsx scripts/players.ts show <name>
+ *   npx tsx scripts/players.ts merge <old-name> <new-name>
+ *   npx tsx scripts/players.ts split <name>
+ *   npx tsx scripts/players.ts set <name> <field> <value>
+ * Set LEADERBOARD_SOURCE=<id> to work on a source other than the default one
+ */
+
+import dotenv from 'dotenv';
+import os from 'os';
+import { getBlobStore } from '@/lib/api/blob-store';
+import { readLoggedDocument } from '@/lib/api/document-log';
+import { getActiveSource } from '@/lib/api/sources';
+import { playerMetadataLog } from '@/lib/api/player-metadata';
+import { editPlayerMetadata } from '@/lib/api/player-admin';
+import { loadPlayerSeries } from '@/lib/api/player-series';
+import {
+  compactPlayerRegistry,
+  findPlayerIdentity,
+  mergePlayerIdentities,
+  normalizePlayerName,
+  playerRegistryLog,
+  splitPlayerName
+} from '@/lib/api/player-registry';
+import { PlayerIdentity, PlayerMetadataPatch } from '@/lib/api/types';
+import { findCountry } from '@/lib/countries';
+
+// Load environment variables from .env.local
+dotenv.config({ path: '.env.local' });
+
+// Helper: Require a name argument
+function requireName(name: string | undefined, usage: string): string {
+  if (!name) {
+    throw new Error(`Usage: ${usage}`);
+  }
+  return name;
+}
+
+// Helper: One-line description of an identity
+function describe(identity: PlayerIdentity): string {
+  const others = identity.aliases.filter(name => name !== identity.canonicalName);
+  return `${identity.id}  ${identity.canonicalName}${others.length > 0 ? `  (also: ${others.join(', ')})` : ''}`;
+}
+
+// Helper: Parse a metadata field value from the command line ("-" clears the field)
+function parseMetadataPatch(field: string, value: string): PlayerMetadataPatch {
+  const clear = value === '-';
+  switch (field) {
+    case 'country': {
+      if (clear) {
+        return { countryCode: null };
+      }
+      // Accept a code or a country name ("germany" → DE)
+      const country = findCountry(value);
+      if (!country) {
+        throw new Error(`Unknown country "${value}" (run "manage-countries.ts lookup ${value}")`);
+      }
+      return { countryCode: country.code };
+    }
+    case 'displayName':
+    case 'notes':
+      return { [field]: clear ? null : value };
+    case 'tags':
+      return { tags: clear ? null : value.split(',').map(tag => tag.trim()).filter(Boolean) };
+    case 'links':
+      // label=url pairs, comma separated
+      return {
+        links: clear ? null : value.split(',').map(pair => {
+          const separator = pair.indexOf('=');
+          if (separator <= 0) {
+            throw new Error(`Invalid link "${pair}", expected label=url`);
+          }
+          return { label: pair.slice(0, separator).trim(), url: pair.slice(separator + 1).trim() };
+        })
+      };
+    case 'hidden':
+      if (!clear && value !== 'true' && value !== 'false') {
+        throw new Error('hidden must be true, false or -');
+      }
+      return { hidden: clear || value === 'false' ? null : true };
+    default:
+      throw new Error(`Unknown field "${field}" (country, displayName, tags, links, notes or hidden)`);
+  }
+}
+
+// List command: Show registered players, optionally filtered by name
+async function list(search: string | undefined) {
+  const registry = await readLoggedDocument(playerRegistryLog);
+  const identities = Object.values(registry)
+    .filter(identity => !search || identity.aliases.some(name =>
+      normalizePlayerName(name).includes(normalizePlayerName(search))))
+    .sort((a, b) => a.canonicalName.localeCompare(b.canonicalName));
+
+  console.log(`🪪 ${identities.length} player(s) for ${getActiveSource().name} in ${getBlobStore().name} storage\n`);
+  identities.forEach(identity => console.log(describe(identity)));
+
+  const renamed = identities.filter(identity => identity.aliases.length > 1).length;
+  console.log(`\n📊 ${renamed} player(s) with more than one name`);
+}
+
+// Show command: Show one identity with its metadata and history
+async function show(name: string) {
+  const [registry, metadata] = await Promise.all([
+    readLoggedDocument(playerRegistryLog),
+    readLoggedDocument(playerMetadataLog)
+  ]);
+  const identity = findPlayerIdentity(registry, name);
+  if (!identity) {
+    throw new Error(`No registered player matches "${name}"`);
+  }
+
+  console.log(`🪪 ${identity.id}`);
+  console.log(`👤 Display name: ${identity.canonicalName}`);
+  console.log('\nNames:');
+  identity.aliases.forEach(alias => {
+    const { countryCode, ...fields } = metadata[alias] ?? { countryCode: null };
+    console.log(`   - ${alias}  ${countryCode ?? '?'}`);
+    Object.entries(fields).forEach(([field, value]) => console.log(`       ${field}: ${JSON.stringify(value)}`));
+  });
+
+  const series = await loadPlayerSeries(identity.canonicalName);
+  if (series) {
+    console.log(`\n📈 History: ${series.length} date(s), ${series[0].date} to ${series[series.length - 1].date}`);
+  }
+}
+
+// Merge command: Join the identity of an old name into the identity of a new name
+async function merge(fromName: string, intoName: string) {
+  const identity = await mergePlayerIdentities(fromName, intoName);
+  await compactPlayerRegistry();
+  console.log(`✅ Merged "${fromName}" into ${describe(identity)}`);
+}
+
+// Split command: Give one name an identity of its own
+async function split(name: string) {
+  const identity = await splitPlayerName(name);
+  await compactPlayerRegistry();
+  console.log(`✅ Split "${name}" off as ${identity.id}`);
+}
+
+// Set command: Change one metadata field of a name (recorded in the admin audit trail)
+async function set(name: string, field: string, value: string) {
+  const entry = await editPlayerMetadata({ [name]: parseMetadataPatch(field, value) }, `${os.userInfo().username} (script)`);
+  console.log(entry ? `✅ ${value === '-' ? 'Cleared' : 'Set'} ${field} of "${name}"` : `ℹ️  ${field} of "${name}" is already up to date`);
+}
+
+// Main command handler
+async function main() {
+  const command = process.argv[2] || 'help';
+  const args = process.argv.slice(3);
+
+  try {
+    switch (command.toLowerCase()) {
+      case 'list':
+        await list(args[0]);
+        break;
+      case 'show':
+        await show(requireName(args[0], 'show <name>'));
+        break;
+      case 'merge':
+        await merge(
+          requireName(args[0], 'merge <old-name> <new-name>'),
+          requireName(args[1], 'merge <old-name> <new-name>')
+        );
+        break;
+      case 'split':
+        await split(requireName(args[0], 'split <name>'));
+        break;
+      case 'set':
+        await set(
+          requireName(args[0], 'set <name> <field> <value>'),
+          requireName(args[1], 'set <name> <field> <value>'),
+          requireName(args[2], 'set <name> <field> <value>')
+        );
+        break;
+      case 'help':
+      default:
+        console.log('🪪 Player Identity Management\n');
+        console.log('Commands:');
+        console.log('  list [search]                - List registered players and their names');
+        console.log('  show <name>                  - Show the identity of a name, its metadata and history');
+        console.log('  merge <old-name> <new-name>  - Join two identities (e.g. after a rename), keeping the second');
+        console.log('  split <name>                 - Move a wrongly joined name into an identity of its own');
+        console.log('  set <name> <field> <value>   - Set country (code or name), displayName, tags, links, notes or hidden ("-" clears)');
+        console.log('\nExamples:');
+        console.log('  npx tsx scripts/players.ts set Alice tags "reg,streamer"');
+        console.log('  npx tsx scripts/players.ts set Alice links "Twitch=https://twitch.tv/alice"');
+        break;
+    }
+  } catch (error) {
+    console.error('\n❌ Error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+main();
@@ -0,0 +1,137 @@
+/**
+ * Quarantine review tool
+ * Lists scrapes held back by the sanity rules (see lib/api/quarantine.ts) and
+ * approves them as the next snapshot revision or discards them
+ *
+ * Usage:
+ *   npx tsx scripts/quarantine.ts list
+ *   npx tsx scripts/quarantine.ts show <id>
+ *   npx tsx scripts/quarantine.ts approve <id>
+ *   npx tsx scripts/quarantine.ts discard <id>
+ * Set LEADERBOARD_SOURCE=<id> to work on a source other than the default one
+ */
+
+import dotenv from 'dotenv';
+import { getBlobStore } from '@/lib/api/blob-store';
+import { getActiveSource } from '@/lib/api/sources';
+import { loadSnapshot } from '@/lib/api/snapshot-management';
+import {
+  approveQuarantinedSnapshot,
+  discardQuarantinedSnapshot,
+  listQuarantinedSnapshots,
+  loadQuarantinedSnapshot
+} from '@/lib/api/quarantine';
+
+// Load environment variables from .env.local
+dotenv.config({ path: '.env.local' });
+
+// Helper: Require an id argument
+function requireId(id: string | undefined): string {
+  if (!id) {
+    throw new Error('Name the quarantine id (see "list")');
+  }
+  return id;
+}
+
+// List command: Show all quarantined scrapes
+async function list() {
+  const records = await listQuarantinedSnapshots();
+  console.log(`🚧 ${records.length} quarantined scrape(s) for ${getActiveSource().name} in ${getBlobStore().name} storage\n`);
+
+  for (const record of records) {
+    console.log(`${record.id}  ${record.snapshot.date}  "${record.snapshot.webpageTimestamp}"  ${record.snapshot.players.length} players`);
+    record.anomalies.forEach(anomaly => console.log(`   - ${anomaly.rule}: ${anomaly.message}`));
+  }
+
+  if (records.length > 0) {
+    console.log('\n💡 Inspect one with "show <id>", then "approve <id>" or "discard <id>"');
+  }
+}
+
+// Show command: Compare a quarantined scrape with the snapshot it was checked against
+async function show(id: string) {
+  const record = await loadQuarantinedSnapshot(id);
+  if (!record) {
+    throw new Error(`No quarantined snapshot ${id}`);
+  }
+
+  const { snapshot } = record;
+  console.log(`🚧 ${record.id} (quarantined ${record.quarantinedAt})`);
+  console.log(`📅 Date: ${snapshot.date}, captured ${snapshot.capturedAt}`);
+  console.log(`🕒 Webpage timestamp: ${snapshot.webpageTimestamp}`);
+  console.log(`👥 Players: ${snapshot.players.length}`);
+
+  console.log('\nAnomalies:');
+  record.anomalies.forEach(anomaly => console.log(`   - ${anomaly.rule}: ${anomaly.message}`));
+
+  if (record.comparedWith) {
+    const [date, revision] = record.comparedWith.split('#');
+    const previous = await loadSnapshot(date, parseInt(revision, 10) || undefined);
+    if (previous) {
+      const previousNames = new Set(previous.players.map(p => p.name));
+      const names = new Set(snapshot.players.map(p => p.name));
+      const missing = previous.players.filter(p => !names.has(p.name)).map(p => p.name);
+      const added = snapshot.players.filter(p => !previousNames.has(p.name)).map(p => p.name);
+
+      console.log(`\nCompared with ${record.comparedWith} (${previous.players.length} players):`);
+      console.log(`➖ Missing: ${missing.slice(0, 20).join(', ') || 'none'}${missing.length > 20 ? ` and ${missing.length - 20} more` : ''}`);
+      console.log(`➕ New: ${added.slice(0, 20).join(', ') || 'none'}${added.length > 20 ? ` and ${added.length - 20} more` : ''}`);
+    }
+  }
+
+  console.log('\nTop 10 rows:');
+  snapshot.players.slice(0, 10).forEach(p => {
+    console.log(`   ${p.rank}. ${p.name}  EV ${p.evWon}  hands ${p.hands}`);
+  });
+}
+
+// Approve command: Save a quarantined scrape as the next revision
+async function approve(id: string) {
+  const revision = await approveQuarantinedSnapshot(id);
+  console.log(`✅ Approved ${id}, saved as revision ${revision}`);
+  console.log('💡 Run /api/revalidate-cache or wait for the cache to expire to see it on the site');
+}
+
+// Discard command: Delete a quarantined scrape
+async function discard(id: string) {
+  await discardQuarantinedSnapshot(id);
+  console.log(`🗑️  Discarded ${id}`);
+}
+
+// Main command handler
+async function main() {
+  const command = process.argv[2] || 'help';
+  const id = process.argv[3];
+
+  try {
+    switch (command.toLowerCase()) {
+      case 'list':
+        await list();
+        break;
+      case 'show':
+        await show(requireId(id));
+        break;
+      case 'approve':
+        await approve(requireId(id));
+        break;
+      case 'discard':
+        await discard(requireId(id));
+        break;
+      case 'help':
+      default:
+        console.log('🚧 Quarantine Review Tool\n');
+        console.log('Commands:');
+        console.log('  list          - List quarantined scrapes and the rules they violated');
+        console.log('  show <id>     - Show a quarantined scrape next to the snapshot it was checked against');
+        console.log('  approve <id>  - Save it as the next snapshot revision of its date');
+        console.log('  discard <id>  - Delete it without saving');
+        break;
+    }
+  } catch (error) {
+    console.error('\n❌ Error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+main();
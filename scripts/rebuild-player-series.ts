@@ -0,0 +1,32 @@
+/**
+ * Rebuild the per-player time series from the daily snapshots
+ * Run this once to create the series for existing history, or to repair it
+ * 
+ * Usage: npx tsx scripts/rebuild-player-series.ts
+ */
+
+import dotenv from 'dotenv';
+import { getBlobStore } from '@/lib/api/blob-store';
+import { rebuildPlayerSeries } from '@/lib/api/player-series';
+
+// Load environment variables from .env.local
+dotenv.config({ path: '.env.local' });
+
+async function main() {
+  console.log(`🔄 Rebuilding player series from ${getBlobStore().name} storage...\n`);
+
+  try {
+    const { dateCount, playerCount } = await rebuildPlayerSeries();
+
+    console.log(`\n📊 Summary:`);
+    console.log(`   📅 Dates processed: ${dateCount}`);
+    console.log(`   👥 Players in series: ${playerCount}`);
+    console.log('\n✨ Done! The player series has been rebuilt.');
+  } catch (error) {
+    console.error('\n❌ Fatal error rebuilding player series:', error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+main();
@@ -5,88 +5,20 @@
  * Usage: npx tsx scripts/rebuild-snapshot-index.ts
  */
 
-import { list, put } from '@vercel/blob';
-import { HistoricalSnapshotSchema, safeValidate } from '@/lib/schemas';
+import dotenv from 'dotenv';
+import { getBlobStore } from '@/lib/api/blob-store';
+import { rebuildSnapshotIndex } from '@/lib/api/snapshot-management';
 
-interface SnapshotMetadata {
-  date: string;
-  webpageTimestamp: string;
-  capturedAt: string;
-  playerCount: number;
-}
+// Load environment variables from .env.local
+dotenv.config({ path: '.env.local' });
 
-async function rebuildSnapshotIndex() {
+async function main() {
   console.log('🔄 Rebuilding snapshot index...\n');
 
   try {
-    // List all existing snapshots
-    console.log('📋 Fetching existing snapshots from blob storage...');
-    const allBlobs: Array<{ pathname: string; url: string }> = [];
-    let cursor: string | undefined;
-    
-    do {
-      const { blobs, cursor: nextCursor } = await list({
-        prefix: 'snapshots/',
-        limit: 1000,
-        cursor,
-      });
-      
-      allBlobs.push(...blobs);
-      cursor = nextCursor;
-    } while (cursor);
-
-    console.log(`📦 Found ${allBlobs.length} blob(s)\n`);
-
-    // Filter for JSON files only (exclude index.json)
-    const snapshotBlobs = allBlobs.filter(
-      blob => blob.pathname.endsWith('.json') && !blob.pathname.endsWith('index.json')
-    );
-
-    console.log(`📸 Processing ${snapshotBlobs.length} snapshot(s)...\n`);
-
-    // Fetch metadata from each snapshot
-    const snapshots: SnapshotMetadata[] = [];
-    let successCount = 0;
-    let errorCount = 0;
-
-    for (const blob of snapshotBlobs) {
-      try {
-        const response = await fetch(blob.url);
-        if (!response.ok) {
-          console.warn(`⚠️  Failed to fetch ${blob.pathname}: ${response.statusText}`);
-          errorCount++;
-          continue;
-        }
-
-        const data = await response.json();
-        
-        // Validate snapshot data
-        const validatedSnapshot = safeValidate(
-          HistoricalSnapshotSchema,
-          data,
-          `Snapshot validation for ${blob.pathname}`
-        );
-
-        if (!validatedSnapshot) {
-          console.warn(`⚠️  Invalid snapshot data for ${blob.pathname}, skipping`);
-          errorCount++;
-          continue;
-        }
-
-        snapshots.push({
-          date: validatedSnapshot.date,
-          webpageTimestamp: validatedSnapshot.webpageTimestamp,
-          capturedAt: validatedSnapshot.capturedAt,
-          playerCount: validatedSnapshot.players.length
-        });
-
-        successCount++;
-        console.log(`✅ Processed ${validatedSnapshot.date} (${validatedSnapshot.players.length} players)`);
-      } catch (error) {
-        console.error(`❌ Error processing ${blob.pathname}:`, error);
-        errorCount++;
-      }
-    }
+    console.log(`📋 Fetching existing snapshots from ${getBlobStore().name} storage...`);
+    const { index, successCount, errorCount } = await rebuildSnapshotIndex();
+    const snapshots = index.snapshots;
 
     console.log(`\n📊 Summary:`);
     console.log(`   ✅ Successfully processed: ${successCount}`);
@@ -97,28 +29,6 @@ async function rebuildSnapshotIndex() {
       return;
     }
 
-    // Sort by date, most recent first
-    snapshots.sort((a, b) => b.date.localeCompare(a.date));
-
-    // Create index object
-    const index = {
-      snapshots,
-      lastUpdated: new Date().toISOString(),
-      count: snapshots.length
-    };
-
-    // Save index to blob storage
-    console.log('\n💾 Saving index to blob storage...');
-    const indexPath = 'snapshots/index.json';
-    await put(indexPath, JSON.stringify(index, null, 2), {
-      access: 'public',
-      addRandomSuffix: false,
-      contentType: 'application/json',
-      cacheControlMaxAge: 0,
-      allowOverwrite: true,
-    });
-
-    console.log(`✅ Index saved successfully: ${indexPath}`);
     console.log(`📈 Total snapshots indexed: ${snapshots.length}`);
     console.log(`📅 Date range: ${snapshots[snapshots.length - 1].date} to ${snapshots[0].date}`);
     console.log('\n✨ Done! The snapshot index has been rebuilt.');
@@ -130,4 +40,4 @@ async function rebuildSnapshotIndex() {
 }
 
 // Run the script
-rebuildSnapshotIndex();
+main();
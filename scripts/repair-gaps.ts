@@ -0,0 +1,211 @@
+/**
+ * Snapshot gap report and repair tool
+ * Reports days without snapshots and index/storage mismatches, and repairs them
+ * by restoring missing days from their archived pages (see lib/api/reprocess.ts),
+ * rebuilding the index and marking days that cannot be filled as known-missing
+ *
+ * Usage:
+ *   npx tsx scripts/repair-gaps.ts report
+ *   npx tsx scripts/repair-gaps.ts repair [--mark-missing] [--reason "..."] [--dry-run]
+ *   npx tsx scripts/repair-gaps.ts mark <YYYY-MM-DD...> [--reason "..."]
+ *   npx tsx scripts/repair-gaps.ts unmark <YYYY-MM-DD...>
+ */
+
+import dotenv from 'dotenv';
+import { getBlobStore } from '@/lib/api/blob-store';
+import { rebuildSnapshotIndex } from '@/lib/api/snapshot-management';
+import { restoreSnapshotsFromArchive } from '@/lib/api/reprocess';
+import {
+  buildGapReport,
+  markKnownMissing,
+  unmarkKnownMissing,
+  SnapshotGapReport
+} from '@/lib/api/snapshot-gaps';
+
+// Load environment variables from .env.local
+dotenv.config({ path: '.env.local' });
+
+const DEFAULT_REASON = 'Not captured';
+
+// Helper: Read the value of --reason from the arguments
+function getReason(args: string[]): string {
+  const position = args.indexOf('--reason');
+  return position >= 0 && args[position + 1] ? args[position + 1] : DEFAULT_REASON;
+}
+
+// Helper: Collect YYYY-MM-DD arguments, rejecting anything else
+function getDates(args: string[]): string[] {
+  const reasonPosition = args.indexOf('--reason');
+  const dates = args.filter((arg, i) => !arg.startsWith('--') && !(reasonPosition >= 0 && i === reasonPosition + 1));
+
+  const invalid = dates.filter(date => !/^\d{4}-\d{2}-\d{2}$/.test(date));
+  if (invalid.length > 0) {
+    throw new Error(`Invalid date(s): ${invalid.join(', ')} (expected YYYY-MM-DD)`);
+  }
+  return dates;
+}
+
+// Helper: Print a gap report
+function printReport(report: SnapshotGapReport) {
+  if (!report.firstDate || !report.lastDate) {
+    console.log('⚠️  No snapshots found');
+    return;
+  }
+
+  console.log(`📅 Range: ${report.firstDate} to ${report.lastDate} (${report.storedDates} snapshot(s))\n`);
+
+  console.log(`❓ Missing days: ${report.missingDates.length}`);
+  report.missingDates.forEach(date => console.log(`   - ${date}`));
+
+  console.log(`🏷️  Known-missing days: ${report.knownMissingDates.length}`);
+  report.knownMissingDates.forEach(({ date, reason }) => console.log(`   - ${date} (${reason})`));
+
+  if (report.staleKnownMissing.length > 0) {
+    console.log(`♻️  Marked missing but present: ${report.staleKnownMissing.join(', ')}`);
+  }
+
+  console.log(`📋 In storage but not in index: ${report.missingInIndex.length > 0 ? report.missingInIndex.join(', ') : 'none'}`);
+  console.log(`👻 In index but not in storage: ${report.missingInStorage.length > 0 ? report.missingInStorage.join(', ') : 'none'}`);
+}
+
+// Report command: Show gaps and mismatches
+async function showReport() {
+  console.log(`🔍 Checking snapshots in ${getBlobStore().name} storage...\n`);
+  const report = await buildGapReport();
+  printReport(report);
+
+  const needsRepair = report.missingDates.length > 0 ||
+    report.staleKnownMissing.length > 0 ||
+    report.missingInIndex.length > 0 ||
+    report.missingInStorage.length > 0;
+
+  console.log(needsRepair
+    ? '\n💡 Run "repair" to fill missing days from archived pages and fix the index, or "repair --mark-missing" to also mark the days that cannot be filled'
+    : '\n✅ No gaps or mismatches');
+}
+
+// Repair command: Fill gaps from archived pages, rebuild the index and mark gaps that cannot be filled
+async function repair(args: string[]) {
+  const dryRun = args.includes('--dry-run');
+  const markMissing = args.includes('--mark-missing');
+
+  console.log(`🔧 Repairing snapshots in ${getBlobStore().name} storage${dryRun ? ' (dry run)' : ''}...\n`);
+  const report = await buildGapReport();
+  printReport(report);
+  console.log('');
+
+  // Days whose pages were archived can be re-parsed; restoring also rebuilds the index
+  let unfilled = report.missingDates;
+  let indexRebuilt = false;
+  if (report.missingDates.length > 0) {
+    console.log(`🗄️  Filling ${report.missingDates.length} missing day(s) from archived pages...`);
+    const restore = await restoreSnapshotsFromArchive(report.missingDates, { dryRun });
+    for (const result of restore.dates) {
+      if (result.status === 'restored') {
+        console.log(`   ✅ ${result.date}: ${dryRun ? 'would restore' : 'restored'} revision(s) ${result.revisions.join(', ')}`);
+      } else if (result.status === 'failed') {
+        console.log(`   ❌ ${result.date}: ${result.error}`);
+      }
+    }
+    unfilled = restore.dates.filter(result => result.status !== 'restored').map(result => result.date);
+    indexRebuilt = restore.written;
+  }
+
+  if (!indexRebuilt && (report.missingInIndex.length > 0 || report.missingInStorage.length > 0)) {
+    console.log('📋 Rebuilding snapshot index...');
+    if (!dryRun) {
+      await rebuildSnapshotIndex();
+    }
+  }
+
+  if (report.staleKnownMissing.length > 0) {
+    console.log(`♻️  Removing ${report.staleKnownMissing.length} stale known-missing marker(s)...`);
+    if (!dryRun) {
+      await unmarkKnownMissing(report.staleKnownMissing);
+    }
+  }
+
+  if (unfilled.length > 0) {
+    // Pages are only archived since page archiving was added, so older days cannot be refilled
+    if (markMissing) {
+      const reason = getReason(args);
+      console.log(`🏷️  Marking ${unfilled.length} day(s) without an archived page as known-missing ("${reason}")...`);
+      if (!dryRun) {
+        await markKnownMissing(unfilled, reason);
+      }
+    } else {
+      console.log(`❓ ${unfilled.length} day(s) without an archived page left unmarked (pass --mark-missing to mark them)`);
+    }
+  }
+
+  if (dryRun) {
+    console.log('\n✅ Dry run complete, nothing was written');
+    return;
+  }
+
+  // Check the result instead of assuming it: the index is read back through its log
+  const after = await buildGapReport();
+  const remaining = [
+    ...after.missingInIndex.map(date => `${date} (not in index)`),
+    ...after.missingInStorage.map(date => `${date} (not in storage)`),
+    ...after.staleKnownMissing.map(date => `${date} (stale known-missing marker)`)
+  ];
+  if (remaining.length > 0) {
+    console.log(`\n⚠️  Repair incomplete, still mismatched: ${remaining.join(', ')}`);
+    process.exit(1);
+  }
+  console.log(after.missingDates.length > 0
+    ? `\n✅ Repair complete, ${after.missingDates.length} missing day(s) left unmarked`
+    : '\n✅ Repair complete');
+}
+
+// Main command handler
+async function main() {
+  const command = process.argv[2] || 'help';
+  const args = process.argv.slice(3);
+
+  try {
+    switch (command.toLowerCase()) {
+      case 'report':
+        await showReport();
+        break;
+      case 'repair':
+        await repair(args);
+        break;
+      case 'mark': {
+        const dates = getDates(args);
+        if (dates.length === 0) {
+          throw new Error('No dates given');
+        }
+        const reason = getReason(args);
+        await markKnownMissing(dates, reason);
+        console.log(`✅ Marked ${dates.length} day(s) as known-missing ("${reason}")`);
+        break;
+      }
+      case 'unmark': {
+        const removed = await unmarkKnownMissing(getDates(args));
+        console.log(`✅ Removed ${removed} known-missing marker(s)`);
+        break;
+      }
+      case 'help':
+      default:
+        console.log('🩹 Snapshot Gap Tool\n');
+        console.log('Commands:');
+        console.log('  report                     - List missing days and index/storage mismatches');
+        console.log('  repair [--mark-missing]    - Fill missing days from archived pages, rebuild the index if needed');
+        console.log('                               and optionally mark the days that cannot be filled');
+        console.log('  mark <date...>             - Mark days as known-missing');
+        console.log('  unmark <date...>           - Remove known-missing markers');
+        console.log('\nOptions:');
+        console.log('  --reason "..."             - Reason stored with new known-missing markers');
+        console.log('  --dry-run                  - Show what repair would do without writing');
+        break;
+    }
+  } catch (error) {
+    console.error('\n❌ Error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+main();
@@ -0,0 +1,108 @@
+/**
+ * Reprocess archived pages with the current parser
+ * Lists the raw pages archived next to snapshot revisions and re-parses a date
+ * range, rewriting the revisions whose content changed (see lib/api/reprocess.ts)
+ *
+ * Usage:
+ *   npx tsx scripts/reprocess.ts list [from] [to]
+ *   npx tsx scripts/reprocess.ts run <from> <to> [--dry-run]
+ * Dates are YYYY-MM-DD (inclusive). Set LEADERBOARD_SOURCE=<id> for another source
+ */
+
+import dotenv from 'dotenv';
+import { getBlobStore } from '@/lib/api/blob-store';
+import { getActiveSource } from '@/lib/api/sources';
+import { listArchivedPages } from '@/lib/api/page-archive';
+import { reprocessArchivedPages } from '@/lib/api/reprocess';
+
+// Load environment variables from .env.local
+dotenv.config({ path: '.env.local' });
+
+// Helper: Validate an optional YYYY-MM-DD argument
+function getDate(value: string | undefined, name: string): string | undefined {
+  if (value !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new Error(`Invalid ${name} date "${value}" (expected YYYY-MM-DD)`);
+  }
+  return value;
+}
+
+// List command: Show archived pages per date
+async function list(from: string | undefined, to: string | undefined) {
+  const pages = await listArchivedPages(from, to);
+  console.log(`🗄️  ${pages.length} archived page(s) for ${getActiveSource().name} in ${getBlobStore().name} storage\n`);
+
+  const byDate = new Map<string, number[]>();
+  pages.forEach(({ date, revision }) => byDate.set(date, [...(byDate.get(date) ?? []), revision]));
+  for (const [date, revisions] of byDate) {
+    console.log(`📅 ${date}: revision(s) ${revisions.join(', ')}`);
+  }
+}
+
+// Run command: Re-parse a date range
+async function run(from: string | undefined, to: string | undefined, dryRun: boolean) {
+  if (!from || !to || from > to) {
+    throw new Error('Usage: run <from> <to> [--dry-run] (from not after to)');
+  }
+
+  console.log(`🔁 Reprocessing archived pages from ${from} to ${to}${dryRun ? ' (dry run)' : ''}...\n`);
+  const report = await reprocessArchivedPages(from, to, { dryRun });
+
+  for (const result of report.revisions) {
+    const label = `${result.date} revision ${result.revision}`;
+    switch (result.status) {
+      case 'unchanged':
+        console.log(`✅ ${label}: unchanged`);
+        break;
+      case 'changed':
+        console.log(`✏️  ${label}: ${dryRun ? 'would change' : 'rewritten'}`);
+        result.changes.forEach(change => console.log(`   - ${change}`));
+        break;
+      case 'failed':
+        console.log(`❌ ${label}: ${result.error}`);
+        break;
+    }
+  }
+
+  const count = (status: string) => report.revisions.filter(r => r.status === status).length;
+  console.log(`\n📊 ${report.revisions.length} page(s): ${count('changed')} changed, ${count('unchanged')} unchanged, ${count('failed')} failed`);
+  if (report.written) {
+    console.log('✨ Snapshot index and player series rebuilt');
+  } else if (dryRun && count('changed') > 0) {
+    console.log('💡 Run again without --dry-run to rewrite the changed revisions');
+  }
+
+  if (count('failed') > 0) {
+    process.exit(1);
+  }
+}
+
+// Main command handler
+async function main() {
+  const command = process.argv[2] || 'help';
+  const args = process.argv.slice(3);
+  const dates = args.filter(arg => !arg.startsWith('--'));
+
+  try {
+    switch (command.toLowerCase()) {
+      case 'list':
+        await list(getDate(dates[0], 'from'), getDate(dates[1], 'to'));
+        break;
+      case 'run':
+        await run(getDate(dates[0], 'from'), getDate(dates[1], 'to'), args.includes('--dry-run'));
+        break;
+      case 'help':
+      default:
+        console.log('🔁 Archived Page Reprocessing\n');
+        console.log('Commands:');
+        console.log('  list [from] [to]               - List archived pages per date');
+        console.log('  run <from> <to> [--dry-run]    - Re-parse pages and rewrite revisions that changed');
+        break;
+    }
+  } catch (error) {
+    console.error('\n❌ Error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+main();
@@ -0,0 +1,100 @@
+/**
+ * Leaderboard table layout tool
+ * Shows the accepted table layout of a source, compares it with the live page,
+ * and accepts the live layout after a drift alert has been reviewed
+ *
+ * Usage:
+ *   npx tsx scripts/table-layout.ts check
+ *   npx tsx scripts/table-layout.ts accept
+ * Set LEADERBOARD_SOURCE=<id> to work on a source other than the default one
+ */
+
+import dotenv from 'dotenv';
+import { fetchLeaderboardHtml } from '@/lib/api/data-parsing';
+import { getActiveSource } from '@/lib/api/sources';
+import { acceptLayout, checkTableLayout } from '@/lib/api/table-layout';
+
+// Load environment variables from .env.local
+dotenv.config({ path: '.env.local' });
+
+// Helper: Fetch the live table of the active source and read its headers
+// Parsing fails if a required column has no matching header label; with
+// requireParse the error is thrown, otherwise it is only reported
+async function fetchLiveTable(requireParse: boolean) {
+  const source = getActiveSource();
+  console.log(`🌐 Fetching ${source.name} (${source.url})...\n`);
+
+  const html = await fetchLeaderboardHtml(source.url);
+  const headers = source.readTableHeaders(html);
+  console.log(`📐 Live headers: ${headers.join(' | ')}`);
+
+  try {
+    console.log(`👥 Players parsed: ${source.parseTable(html).players.length}`);
+  } catch (error) {
+    if (requireParse) {
+      throw error;
+    }
+    console.log(`❌ Columns cannot be mapped: ${error instanceof Error ? error.message : error}`);
+  }
+  return headers;
+}
+
+// Check command: Compare the live layout with the accepted one
+async function check() {
+  const headers = await fetchLiveTable(false);
+  const result = await checkTableLayout(headers);
+
+  console.log(`🔑 Live fingerprint: ${result.fingerprint}`);
+
+  switch (result.status) {
+    case 'match':
+      console.log('\n✅ Layout matches the accepted layout');
+      break;
+    case 'unrecorded':
+      console.log('\nℹ️  No layout accepted yet, the next ingestion records it (or run "accept")');
+      break;
+    case 'changed':
+      console.log(`🔑 Accepted fingerprint: ${result.accepted?.fingerprint} (${result.accepted?.acceptedAt})`);
+      console.log(`➕ Added headers: ${result.added.join(', ') || 'none'}`);
+      console.log(`➖ Removed headers: ${result.removed.join(', ') || 'none'}`);
+      console.log('\n⚠️  Layout changed, ingestion is blocked. Review the parsed players, then run "accept"');
+      break;
+  }
+}
+
+// Accept command: Record the live layout as accepted
+async function accept() {
+  // Only a layout whose columns map can be accepted (otherwise update the source's header labels first)
+  const headers = await fetchLiveTable(true);
+  const layout = await acceptLayout(headers);
+  console.log(`\n✅ Accepted layout ${layout.fingerprint}, ingestion resumes on the next run`);
+}
+
+// Main command handler
+async function main() {
+  const command = process.argv[2] || 'help';
+
+  try {
+    switch (command.toLowerCase()) {
+      case 'check':
+        await check();
+        break;
+      case 'accept':
+        await accept();
+        break;
+      case 'help':
+      default:
+        console.log('📐 Table Layout Tool\n');
+        console.log('Commands:');
+        console.log('  check   - Compare the live table layout with the accepted layout');
+        console.log('  accept  - Accept the live table layout (after a drift alert)');
+        break;
+    }
+  } catch (error) {
+    console.error('\n❌ Error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+main();